@@ -1,9 +1,34 @@
 
-import React, { useState, useCallback } from 'react';
-import type { GeneratedResult, CharacterProfile } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import type { VoiceoverMode, SpeechMode, LanguageSettings, GeneratedResult, CharacterProfile, CharacterSheet, GeneratedCharacter, LibraryCharacter, PipelineStepId, ReferenceImage, ScenePrompt, SceneFrameStatus, SceneTask, SceneVideo, Project, ProjectInputs, ProjectStep, ProjectVersion } from './types';
 import { CharacterInputForm } from './components/CharacterInputForm';
 import { PromptDisplay } from './components/PromptDisplay';
-import { generateStoryAndPrompts, generateVoiceoverScript, generateAudioFromScript, enhanceVoiceoverScript, generateThumbnailsAndTitles, generateStandaloneThumbnail, translateScriptToEnglish } from './services/geminiService';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { LoginPage } from './components/LoginPage';
+import { BatchQueuePanel } from './components/BatchQueuePanel';
+import { RetryStatusBanner } from './components/RetryStatusBanner';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ChartBarIcon, CogIcon, FolderIcon, QueueListIcon } from './components/icons';
+import { generateStandaloneThumbnail, generateSceneFrame, generateCharacterPortrait, startSceneVideo, repairScenePrompt, regenerateScenePrompt, type CallOptions } from './services/geminiService';
+import { checkScenePrompt } from './services/promptConsistency';
+import { EMPTY_SCENE_HISTORY, pushSceneHistory, stepSceneHistory, updateScenePrompt, withEditedScenes, type SceneHistory } from './services/sceneEditing';
+import { pollVideoJobs, saveVideoClip } from './services/videoClips';
+import { selectReferenceImages } from './services/referenceImages';
+import { transliterateDialogue, transliterateScript } from './services/transliteration';
+import { PIPELINE, getPipelineStatuses, mergeStepResult, runPipeline } from './services/pipeline';
+import { characterPromptText, characterSheetsToMarkdown, findCharacterSheet, withCharacterDetails } from './services/characterSheets';
+import { DEFAULT_LANGUAGES, getLanguage } from './services/languages';
+import { runWithConcurrency } from './services/concurrency';
+import { createProject, getProject, saveProjectVersion } from './services/projectStore';
+import { getProviderSettings, setGeminiApiKey } from './services/providers';
+import { isProxyEnabled } from './services/proxyClient';
+import { subscribeRetryStatus, type RetryStatus } from './services/apiRequests';
+import { trackUsage } from './services/usageTracking';
+import { listLibraryCharacters, createLibraryCharacter, updateLibraryCharacter, deleteLibraryCharacter, generatedCharacterToLibraryInput, libraryCharacterToProfile, type LibraryCharacterInput } from './services/characterLibrary';
+
+const STORYBOARD_CONCURRENCY = 3;
+const DEFAULT_CLIP_SECONDS = 8;
 
 const App: React.FC = () => {
   const [characterProfiles, setCharacterProfiles] = useState<CharacterProfile[]>([{
@@ -18,166 +43,419 @@ const App: React.FC = () => {
   const [videoStyle, setVideoStyle] = useState<string>('3D Pixar style');
   const [selectedVoice, setSelectedVoice] = useState<string>('Zephyr');
   const [voiceoverScriptInput, setVoiceoverScriptInput] = useState<string>('');
+  const [voiceoverMode, setVoiceoverMode] = useState<VoiceoverMode>('narration');
+  const [voiceCasting, setVoiceCasting] = useState<Record<string, string>>({});
+  const [languages, setLanguages] = useState<LanguageSettings>(DEFAULT_LANGUAGES);
+  const [includeNativeScript, setIncludeNativeScript] = useState<boolean>(false);
+  const [speechMode, setSpeechMode] = useState<SpeechMode>('auto');
+  const [pronunciationNotes, setPronunciationNotes] = useState<string>('');
   const [thumbnailPrompt, setThumbnailPrompt] = useState<string>('');
 
   const [generatedResult, setGeneratedResult] = useState<GeneratedResult | null>(null);
+  // Operations finish in any order, so each applies its output to the latest result rather than to the copy it
+  // started from, and saves what that gives. Every change to the result goes through updateResult to keep this current.
+  const latestResultRef = useRef<GeneratedResult | null>(null);
+  const updateResult = (update: GeneratedResult | null | ((prev: GeneratedResult | null) => GeneratedResult | null)) => {
+    const next = typeof update === 'function' ? update(latestResultRef.current) : update;
+    latestResultRef.current = next;
+    setGeneratedResult(next);
+    return next;
+  };
+  // What has arrived of the story and prompts while they are still being generated.
+  const [partialResult, setPartialResult] = useState<Partial<GeneratedResult> | null>(null);
+  const pipelineAbortRef = useRef<AbortController | null>(null);
   const [editableVoiceoverScript, setEditableVoiceoverScript] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isVoiceoverLoading, setIsVoiceoverLoading] = useState<boolean>(false);
-  const [isEnhancingScript, setIsEnhancingScript] = useState<boolean>(false);
-  const [isAudioLoading, setIsAudioLoading] = useState<boolean>(false);
-  const [isThumbnailLoading, setIsThumbnailLoading] = useState<boolean>(false);
+  const [runningStep, setRunningStep] = useState<PipelineStepId | null>(null);
+  const [isStoppingPipeline, setIsStoppingPipeline] = useState<boolean>(false);
   const [isStandaloneThumbnailLoading, setIsStandaloneThumbnailLoading] = useState<boolean>(false);
-  const [isVoiceoverUrdu, setIsVoiceoverUrdu] = useState<boolean>(false);
   const [isTranslating, setIsTranslating] = useState<boolean>(false);
+  const [isNativeScriptLoading, setIsNativeScriptLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryStatuses, setRetryStatuses] = useState<RetryStatus[]>([]);
+  const [isStoryboardLoading, setIsStoryboardLoading] = useState<boolean>(false);
+  const [sceneFrameStatuses, setSceneFrameStatuses] = useState<Record<number, SceneFrameStatus>>({});
+  const [isVideoLoading, setIsVideoLoading] = useState<boolean>(false);
+  const [sceneTask, setSceneTask] = useState<SceneTask | null>(null);
+  const [sceneHistory, setSceneHistory] = useState<SceneHistory>(EMPTY_SCENE_HISTORY);
+  const videoPollingRef = useRef<AbortController | null>(null);
+  const storyboardAbortRef = useRef<AbortController | null>(null);
+
+  const stopStoryboard = () => {
+    storyboardAbortRef.current?.abort();
+    storyboardAbortRef.current = null;
+    setIsStoryboardLoading(false);
+  };
+
+  // Video jobs keep rendering on the provider; this only stops watching them so they can be resumed later.
+  const stopVideoPolling = () => {
+    videoPollingRef.current?.abort();
+    videoPollingRef.current = null;
+    setIsVideoLoading(false);
+  };
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [providerSettings, setProviderSettingsState] = useState(getProviderSettings);
+  const [isKeyUnlocked, setIsKeyUnlocked] = useState<boolean>(false);
+  // In proxy mode the key lives on the server, so nobody has to enter one in the browser.
+  const needsGeminiKey = !isProxyEnabled() && Object.values(providerSettings.tasks).includes('gemini');
+
+  const handleKeyUnlocked = useCallback((apiKey: string) => {
+    setGeminiApiKey(apiKey);
+    setIsKeyUnlocked(true);
+  }, []);
+
+  const handleLock = useCallback(() => {
+    setGeminiApiKey(null);
+    setIsKeyUnlocked(false);
+  }, []);
+  const [libraryCharacters, setLibraryCharacters] = useState<LibraryCharacter[]>([]);
+  const [selectedLibraryCharacterIds, setSelectedLibraryCharacterIds] = useState<string[]>([]);
+
+  useEffect(() => subscribeRetryStatus(setRetryStatuses), []);
+
+  useEffect(() => {
+    listLibraryCharacters()
+      .then(setLibraryCharacters)
+      .catch(e => console.error('Failed to load the character library:', e));
+  }, []);
+
+  const projectInputs = useMemo<ProjectInputs>(() => ({
+    characterProfiles,
+    storyScene,
+    storyTitle,
+    storyMode,
+    storyLength,
+    videoLengthMinutes,
+    videoStyle,
+    selectedVoice,
+    voiceoverScriptInput,
+    editableVoiceoverScript,
+    libraryCharacterIds: selectedLibraryCharacterIds,
+    voiceoverMode,
+    voiceCasting,
+    languages,
+    includeNativeScript,
+    speechMode,
+    pronunciationNotes,
+  }), [characterProfiles, storyScene, storyTitle, storyMode, storyLength, videoLengthMinutes, videoStyle, selectedVoice, voiceoverScriptInput, editableVoiceoverScript, selectedLibraryCharacterIds, voiceoverMode, voiceCasting, languages, includeNativeScript, speechMode, pronunciationNotes]);
+
+  const selectedLibraryProfiles = useMemo(
+    () => libraryCharacters.filter(c => selectedLibraryCharacterIds.includes(c.id)).map(libraryCharacterToProfile),
+    [libraryCharacters, selectedLibraryCharacterIds]
+  );
+
+  const projectName = storyMode === 'fromTitle' ? storyTitle
+      : storyMode === 'detail' ? storyScene.slice(0, 60)
+      : voiceoverScriptInput.slice(0, 60);
+
+  // Persisting is best-effort: a storage failure must never discard a result the user just paid for.
+  // Returns the project the version went to, so several steps in a row can save to the project the first one created.
+  const recordVersion = useCallback(async (step: ProjectStep, result: GeneratedResult, inputs: ProjectInputs, startNewProject = false, project = currentProject) => {
+    try {
+      const saved = project && !startNewProject
+        ? await saveProjectVersion(project.id, step, result, inputs)
+        : await createProject(projectName, inputs, result, step);
+      setCurrentProject(saved);
+      return saved;
+    } catch (e) {
+      console.error('Failed to save project version:', e);
+      return startNewProject ? null : project;
+    }
+  }, [currentProject, projectName]);
 
-  const handleGenerate = useCallback(async () => {
-    setIsLoading(true);
+  // What the AI calls of an action cost is filed under the open project.
+  const usageAttribution = (step: ProjectStep) => ({ projectId: currentProject?.id, projectName: currentProject?.name, step });
+
+  const applyProjectInputs = (inputs: ProjectInputs) => {
+    setCharacterProfiles(inputs.characterProfiles);
+    setStoryScene(inputs.storyScene);
+    setStoryTitle(inputs.storyTitle);
+    setStoryMode(inputs.storyMode);
+    setStoryLength(inputs.storyLength);
+    setVideoLengthMinutes(inputs.videoLengthMinutes);
+    setVideoStyle(inputs.videoStyle);
+    setSelectedVoice(inputs.selectedVoice);
+    setVoiceoverScriptInput(inputs.voiceoverScriptInput);
+    setEditableVoiceoverScript(inputs.editableVoiceoverScript);
+    setSelectedLibraryCharacterIds(inputs.libraryCharacterIds ?? []);
+    setVoiceoverMode(inputs.voiceoverMode ?? 'narration');
+    setVoiceCasting(inputs.voiceCasting ?? {});
+    setLanguages(inputs.languages ?? DEFAULT_LANGUAGES);
+    setIncludeNativeScript(inputs.includeNativeScript ?? false);
+    setSpeechMode(inputs.speechMode ?? 'auto');
+    setPronunciationNotes(inputs.pronunciationNotes ?? '');
+  };
+
+  const handleOpenProject = useCallback((project: Project) => {
+    stopVideoPolling();
+    stopStoryboard();
+    applyProjectInputs(project.inputs);
+    updateResult(project.result);
+    setSceneFrameStatuses({});
+    setSceneHistory(EMPTY_SCENE_HISTORY);
+    setCurrentProject(project);
     setError(null);
-    setGeneratedResult(null);
-    setEditableVoiceoverScript('');
-
-    if (storyMode === 'detail') {
-        if (!characterProfiles.some(c => c.appearance.trim()) || !storyScene.trim()) {
-            setError('For "Detailed Scene" mode, please provide appearance details for at least one character and a story scene.');
-            setIsLoading(false);
-            return;
-        }
-    } else if (storyMode === 'fromTitle') {
-        if (!storyTitle.trim()) {
-            setError('For "From Title" mode, please provide a story title.');
-            setIsLoading(false);
-            return;
-        }
-    } else if (storyMode === 'fromVoiceover') {
-        if (!voiceoverScriptInput.trim()) {
-            setError('For "From Voiceover" mode, please provide a voiceover script.');
-            setIsLoading(false);
-            return;
-        }
+  }, []);
+
+  const handleOpenVersion = useCallback(async (project: Project, version: ProjectVersion) => {
+    stopVideoPolling();
+    stopStoryboard();
+    updateResult(version.result);
+    setSceneHistory(EMPTY_SCENE_HISTORY);
+    setEditableVoiceoverScript(version.result.voiceover || '');
+    setError(null);
+    try {
+      setCurrentProject(await saveProjectVersion(project.id, 'restore', version.result, { ...project.inputs, editableVoiceoverScript: version.result.voiceover || '' }));
+    } catch (e) {
+      console.error('Failed to restore project version:', e);
     }
+  }, []);
 
+  const handleOpenBatchProject = useCallback(async (projectId: string) => {
+    const project = await getProject(projectId);
+    if (project) {
+      handleOpenProject(project);
+    } else {
+      setError('The project could not be found. It may have been deleted.');
+    }
+  }, [handleOpenProject]);
+
+  const handleProjectDeleted = useCallback((projectId: string) => {
+    setCurrentProject(prev => prev?.id === projectId ? null : prev);
+  }, []);
 
+  const handleSaveLibraryCharacter = useCallback(async (input: LibraryCharacterInput, id?: string) => {
     try {
-      const numPrompts = Math.ceil((videoLengthMinutes * 60) / 8);
-      const sceneOrTitleOrVoiceover = 
-          storyMode === 'detail' ? storyScene :
-          storyMode === 'fromTitle' ? storyTitle :
-          voiceoverScriptInput;
-
-      const result = await generateStoryAndPrompts({
-        characters: storyMode === 'detail' ? characterProfiles.filter(c => c.appearance.trim()) : [],
-        numPrompts,
-        mode: storyMode,
-        sceneOrTitleOrVoiceover,
-        videoStyle,
-        storyLength,
-      });
-      setGeneratedResult(result);
-      setIsVoiceoverUrdu(!!result.storyScriptRomanUrdu);
+      const saved = id ? await updateLibraryCharacter(id, input) : await createLibraryCharacter(input);
+      setLibraryCharacters(prev => [...prev.filter(c => c.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
     } catch (e) {
       console.error(e);
-      const errorMessage = e instanceof Error ? e.message : 'An error occurred while generating the content. Please try again.';
-      setError(errorMessage);
-    } finally {
-      setIsLoading(false);
+      setError(e instanceof Error ? e.message : 'Failed to save the character to the library.');
     }
-  }, [characterProfiles, storyScene, storyTitle, voiceoverScriptInput, storyMode, videoLengthMinutes, videoStyle, storyLength]);
-
-  const handleGenerateVoiceover = useCallback(async () => {
-    if (!generatedResult?.storyScript && !generatedResult?.storyScriptRomanUrdu) return;
+  }, []);
 
-    setIsVoiceoverLoading(true);
-    setError(null);
+  const handleDeleteLibraryCharacter = useCallback(async (id: string) => {
     try {
-        const targetCharacterCount = videoLengthMinutes * 1000;
-        const scriptToUse = generatedResult.storyScriptRomanUrdu || generatedResult.storyScript || '';
-        const isUrdu = !!generatedResult.storyScriptRomanUrdu;
-        const voiceover = await generateVoiceoverScript(scriptToUse, targetCharacterCount, isUrdu);
-        setGeneratedResult(prev => prev ? { ...prev, voiceover, voiceoverAudio: undefined } : null); // Reset audio when script changes
-        setEditableVoiceoverScript(voiceover);
+      await deleteLibraryCharacter(id);
+      setLibraryCharacters(prev => prev.filter(c => c.id !== id));
     } catch (e) {
-        console.error(e);
-        const errorMessage = e instanceof Error ? e.message : 'An error occurred while generating the voiceover. Please try again.';
-        setError(errorMessage);
-    } finally {
-        setIsVoiceoverLoading(false);
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to delete the character from the library.');
     }
-  }, [generatedResult, videoLengthMinutes]);
+  }, []);
 
-  const handleEnhanceScript = useCallback(async () => {
-    if (!editableVoiceoverScript.trim()) return;
+  const handleSaveGeneratedCharacter = useCallback(async (character: GeneratedCharacter) => {
+    const tags = storyTitle.trim() ? [storyTitle.trim().toLowerCase()] : [];
+    await handleSaveLibraryCharacter(generatedCharacterToLibraryInput(character, generatedResult ?? { characterSheet: '' }, tags));
+  }, [generatedResult, storyTitle, handleSaveLibraryCharacter]);
+
+  const pipelineStatuses = useMemo(
+    () => getPipelineStatuses({ result: generatedResult, inputs: projectInputs, libraryProfiles: selectedLibraryProfiles }),
+    [generatedResult, projectInputs, selectedLibraryProfiles]
+  );
+
+  const handleRunPipeline = useCallback(async (steps: PipelineStepId[], force: boolean) => {
+    if (pipelineAbortRef.current) return;
 
-    setIsEnhancingScript(true);
     setError(null);
+    const controller = new AbortController();
+    pipelineAbortRef.current = controller;
+    let stepName = 'pipeline';
+    let project = currentProject;
+    // What the next step starts from; its output is merged into the latest result, which may have changed meanwhile.
+    let stepInput = latestResultRef.current;
     try {
-        const enhancedScript = await enhanceVoiceoverScript(editableVoiceoverScript);
-        setEditableVoiceoverScript(enhancedScript);
+      await trackUsage(usageAttribution(steps[0]), usage => runPipeline({ result: stepInput, inputs: projectInputs, libraryProfiles: selectedLibraryProfiles }, {
+        steps,
+        force,
+        signal: controller.signal,
+        usage,
+        onPartial: setPartialResult,
+        onTranslating: setIsTranslating,
+        onStepStart: (step) => {
+          stepName = step.label.toLowerCase();
+          usage.attribution.step = step.id;
+          setRunningStep(step.id);
+          if (step.id === 'story') {
+            stopVideoPolling();
+            stopStoryboard();
+            stepInput = null;
+            updateResult(null);
+            setPartialResult(null);
+            setSceneFrameStatuses({});
+            setSceneHistory(EMPTY_SCENE_HISTORY);
+            setEditableVoiceoverScript('');
+          }
+        },
+        onStepDone: async (step, { result, inputs }) => {
+          setPartialResult(null);
+          const merged = updateResult(latest => mergeStepResult(latest, stepInput, result));
+          stepInput = result;
+          setEditableVoiceoverScript(inputs.editableVoiceoverScript);
+          setVoiceCasting(inputs.voiceCasting ?? {});
+          if (merged) {
+            project = await recordVersion(step.id, merged, inputs, step.id === 'story', project);
+            usage.attribution.projectId = project?.id;
+            usage.attribution.projectName = project?.name;
+          }
+        },
+      }));
     } catch (e) {
+      // A cancelled story is not an error; the partial preview is simply discarded.
+      if (!controller.signal.aborted) {
         console.error(e);
-        const errorMessage = e instanceof Error ? e.message : 'An error occurred while enhancing the voiceover script. Please try again.';
+        const errorMessage = e instanceof Error ? e.message : `An error occurred in the ${stepName} step. Please try again.`;
         setError(errorMessage);
+      }
     } finally {
-        setIsEnhancingScript(false);
+      pipelineAbortRef.current = null;
+      setPartialResult(null);
+      setRunningStep(null);
+      setIsStoppingPipeline(false);
+      setIsTranslating(false);
     }
-  }, [editableVoiceoverScript]);
-  
-  const handleGenerateAudio = useCallback(async () => {
-    if (!editableVoiceoverScript.trim()) return;
-    
-    setIsAudioLoading(true);
+  }, [projectInputs, selectedLibraryProfiles, currentProject, recordVersion]);
+
+  const handleRunStep = useCallback((step: PipelineStepId) => handleRunPipeline([step], true), [handleRunPipeline]);
+
+  // Run all starts over from the story; the stale run keeps every step whose output is still current.
+  const handleRunAll = useCallback((onlyStale: boolean) => handleRunPipeline(PIPELINE.map(step => step.id), !onlyStale), [handleRunPipeline]);
+
+  const handleStopPipeline = useCallback(() => {
+    setIsStoppingPipeline(true);
+    pipelineAbortRef.current?.abort();
+  }, []);
+
+  const handleGenerateNativeScript = useCallback(async () => {
+    const storyLanguage = generatedResult?.storyLanguage;
+    const storyNativeScript = storyLanguage && getLanguage(storyLanguage).nativeScript;
+    if (!generatedResult?.storyScripts || !storyLanguage || !storyNativeScript) return;
+
+    setIsNativeScriptLoading(true);
     setError(null);
     try {
-        let scriptForAudio = editableVoiceoverScript;
-        if (isVoiceoverUrdu) {
-            setIsTranslating(true);
-            scriptForAudio = await translateScriptToEnglish(editableVoiceoverScript);
-            setIsTranslating(false);
+      await trackUsage(usageAttribution('nativeScript'), async usage => {
+        const nativeStory = await transliterateScript(generatedResult.storyScripts[storyLanguage] ?? '', storyLanguage, storyNativeScript, { usage });
+        const voiceoverLanguage = generatedResult.voiceoverLanguage;
+        const voiceoverNativeScript = voiceoverLanguage && getLanguage(voiceoverLanguage).nativeScript;
+        let nativeVoiceover: Record<string, string> = {};
+        if (voiceoverLanguage && voiceoverNativeScript && !generatedResult.voiceoverTranslations?.[voiceoverNativeScript] && generatedResult.voiceover?.trim()) {
+            const transliterated = generatedResult.voiceoverSegments?.length
+                ? await transliterateDialogue(generatedResult.voiceover, voiceoverLanguage, voiceoverNativeScript, { usage })
+                : await transliterateScript(generatedResult.voiceover, voiceoverLanguage, voiceoverNativeScript, { usage });
+            nativeVoiceover = { [voiceoverNativeScript]: transliterated };
+        }
+        const nextResult = updateResult(prev => prev && {
+            ...prev,
+            storyScripts: { ...prev.storyScripts, [storyNativeScript]: nativeStory },
+            voiceoverTranslations: { ...prev.voiceoverTranslations, ...nativeVoiceover },
+        });
+        // Asking for the native script once keeps it coming for this project's later voiceovers.
+        setIncludeNativeScript(true);
+        if (nextResult) {
+            await recordVersion('nativeScript', nextResult, { ...projectInputs, includeNativeScript: true });
         }
-      const audioB64 = await generateAudioFromScript(scriptForAudio, selectedVoice);
-      setGeneratedResult(prev => {
-          // If a previous result exists, update it
-          if (prev) {
-              return { ...prev, voiceover: editableVoiceoverScript, voiceoverAudio: audioB64 };
-          }
-          // Otherwise, create a new minimal result object for the standalone audio
-          return {
-              characterSheet: '',
-              storyScript: '',
-              prompts: [],
-              voiceover: editableVoiceoverScript,
-              voiceoverAudio: audioB64,
-          };
       });
     } catch (e) {
       console.error(e);
-      const errorMessage = e instanceof Error ? e.message : 'An error occurred while generating the audio. Please try again.';
+      const errorMessage = e instanceof Error ? e.message : 'An error occurred while writing the native script. Please try again.';
       setError(errorMessage);
     } finally {
-      setIsAudioLoading(false);
-      setIsTranslating(false);
+      setIsNativeScriptLoading(false);
+    }
+  }, [generatedResult, projectInputs, currentProject, recordVersion]);
+
+  const referenceCharacters = useMemo(() => [
+      ...(generatedResult?.characters ?? []),
+      ...characterProfiles,
+      ...libraryCharacters.filter(c => selectedLibraryCharacterIds.includes(c.id)),
+  ], [generatedResult, characterProfiles, libraryCharacters, selectedLibraryCharacterIds]);
+
+  const handleCharacterReferenceChange = useCallback(async (index: number, referenceImage: ReferenceImage | undefined) => {
+    const nextResult = updateResult(prev => prev?.characters ? {
+        ...prev,
+        characters: prev.characters.map((c, i) => i === index ? { ...c, referenceImage } : c),
+    } : prev);
+    if (nextResult?.characters) {
+      await recordVersion('referenceImage', nextResult, projectInputs);
+    }
+  }, [projectInputs, recordVersion]);
+
+  const handleCharacterSheetsChange = useCallback(async (characterSheets: CharacterSheet[]) => {
+    const nextResult = updateResult(prev => prev && {
+        ...prev,
+        characterSheets,
+        characterSheet: characterSheetsToMarkdown(characterSheets),
+    });
+    if (nextResult) {
+      await recordVersion('characterSheet', nextResult, projectInputs);
     }
-  }, [editableVoiceoverScript, selectedVoice, isVoiceoverUrdu]);
+  }, [projectInputs, recordVersion]);
+
+  const handleScenesChange = useCallback(async (scenes: ScenePrompt[], step: ProjectStep = 'sceneEdit') => {
+    const before = latestResultRef.current;
+    if (!before) return;
+    const nextResult = withEditedScenes(before, scenes);
+    updateResult(nextResult);
+    setSceneHistory(prev => pushSceneHistory(prev, before));
+    // Statuses are keyed by scene number, which the edit may have changed.
+    setSceneFrameStatuses({});
+    await recordVersion(step, nextResult, projectInputs);
+  }, [projectInputs, recordVersion]);
+
+  const handleStepSceneHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const current = latestResultRef.current;
+    if (!current) return;
+    const step = stepSceneHistory(sceneHistory, current, direction);
+    if (!step) return;
+    setSceneHistory(step.history);
+    updateResult(step.result);
+    setSceneFrameStatuses({});
+    await recordVersion('sceneEdit', step.result, projectInputs);
+  }, [sceneHistory, projectInputs, recordVersion]);
 
-  const handleGenerateThumbnail = useCallback(async () => {
-    if (!generatedResult?.characterSheet) return;
-  
-    setIsThumbnailLoading(true);
+  // Rewrites one scene's prompt with the AI; scene edits wait until it is done, so the result cannot go stale.
+  const runSceneTask = useCallback(async (task: SceneTask, rewrite: (scenes: ScenePrompt[], index: number, options: CallOptions) => Promise<string>) => {
+    const scenes = generatedResult?.prompts ?? [];
+    const index = scenes.findIndex(p => p.scene_number === task.sceneNumber);
+    if (index < 0) return;
+
+    setSceneTask(task);
     setError(null);
     try {
-      const thumbnailResult = await generateThumbnailsAndTitles(
-        generatedResult.characterSheet, 
-        generatedResult.storyScript
-      );
-      setGeneratedResult(prev => prev ? { ...prev, ...thumbnailResult } : null);
+      const step = task.action === 'repair' ? 'sceneRepair' : 'sceneEdit';
+      const prompt = await trackUsage(usageAttribution(step), usage => rewrite(scenes, index, { usage }));
+      await handleScenesChange(updateScenePrompt(scenes, index, prompt), step);
     } catch (e) {
-        const errorMessage = e instanceof Error ? e.message : 'Please try again.';
-        setError(`An error occurred while generating thumbnails and titles. ${errorMessage}`);
+      console.error(e);
+      const errorMessage = e instanceof Error ? e.message : `An error occurred while trying to ${task.action} the scene. Please try again.`;
+      setError(errorMessage);
     } finally {
-      setIsThumbnailLoading(false);
+      setSceneTask(null);
     }
-  }, [generatedResult]);
+  }, [generatedResult, currentProject, handleScenesChange]);
+
+  const handleRepairScene = useCallback((sceneNumber: number) => {
+    const sheets = generatedResult?.characterSheets ?? [];
+    return runSceneTask({ sceneNumber, action: 'repair' }, (scenes, index, options) =>
+        repairScenePrompt(scenes[index].prompt, checkScenePrompt(scenes[index].prompt, videoStyle, sheets), videoStyle, sheets, options));
+  }, [generatedResult, videoStyle, runSceneTask]);
+
+  const handleRegenerateScene = useCallback((sceneNumber: number) => {
+    const sheets = generatedResult?.characterSheets ?? [];
+    const characters = sheets.length > 0 ? sheets.map(characterPromptText).join('\n') : generatedResult?.characterSheet ?? '';
+    return runSceneTask({ sceneNumber, action: 'regenerate' }, (scenes, index, options) =>
+        regenerateScenePrompt(scenes, index, generatedResult?.storyScript, videoStyle, characters, options));
+  }, [generatedResult, videoStyle, runSceneTask]);
+
+  const handleGenerateCharacterPortrait = useCallback((character: GeneratedCharacter) => {
+    const sheet = findCharacterSheet(generatedResult?.characterSheets, character.name);
+    return trackUsage(usageAttribution('referenceImage'), usage =>
+        generateCharacterPortrait(character.name, sheet ? characterPromptText(sheet) : character.description, videoStyle, { usage }));
+  }, [generatedResult, videoStyle, currentProject]);
 
   const handleGenerateStandaloneThumbnail = useCallback(async () => {
     if (!thumbnailPrompt.trim()) {
@@ -187,12 +465,19 @@ const App: React.FC = () => {
     setIsStandaloneThumbnailLoading(true);
     setError(null);
     try {
-        const { imageB64, prompt } = await generateStandaloneThumbnail(thumbnailPrompt);
-        setGeneratedResult(prev => ({
-            ...(prev || { characterSheet: '', storyScript: '', prompts: [] }),
-            standaloneThumbnail: imageB64,
-            standaloneThumbnailPrompt: prompt
-        }));
+        await trackUsage(usageAttribution('standaloneThumbnail'), async usage => {
+            const { imageB64, prompt } = await generateStandaloneThumbnail(thumbnailPrompt, { usage });
+            const nextResult: GeneratedResult = {
+                ...(latestResultRef.current || { characterSheet: '', storyScript: '', prompts: [] }),
+                standaloneThumbnail: imageB64,
+                standaloneThumbnailPrompt: prompt
+            };
+            updateResult(nextResult);
+            // Without an open project this starts one, and the thumbnail's cost goes with it.
+            const project = await recordVersion('standaloneThumbnail', nextResult, projectInputs);
+            usage.attribution.projectId = project?.id;
+            usage.attribution.projectName = project?.name;
+        });
     } catch (e) {
         console.error(e);
         const errorMessage = e instanceof Error ? e.message : 'An error occurred while generating the thumbnail. Please try again.';
@@ -200,64 +485,327 @@ const App: React.FC = () => {
     } finally {
         setIsStandaloneThumbnailLoading(false);
     }
-  }, [thumbnailPrompt]);
+  }, [thumbnailPrompt, projectInputs, currentProject, recordVersion]);
+
+  const handleGenerateStoryboard = useCallback(async (sceneNumbers?: number[]) => {
+    if (!generatedResult?.prompts?.length) return;
+    const targets = generatedResult.prompts.filter(p =>
+        sceneNumbers ? sceneNumbers.includes(p.scene_number) : !generatedResult.sceneFrames?.[p.scene_number]
+    );
+    if (targets.length === 0) return;
+
+    const controller = new AbortController();
+    storyboardAbortRef.current = controller;
+    // Once another project is opened this run no longer owns the result and must not write to it.
+    const isCurrentRun = () => storyboardAbortRef.current === controller;
+    const setFrameStatus = (sceneNumber: number, status: SceneFrameStatus) => {
+        if (isCurrentRun()) setSceneFrameStatuses(prev => ({ ...prev, [sceneNumber]: status }));
+    };
+
+    setIsStoryboardLoading(true);
+    setError(null);
+    setSceneFrameStatuses(prev => ({ ...prev, ...Object.fromEntries(targets.map(p => [p.scene_number, { state: 'queued' } as SceneFrameStatus])) }));
+
+    const frames: Record<number, string> = {};
+    await runWithConcurrency(targets, STORYBOARD_CONCURRENCY, async (scene: ScenePrompt) => {
+        if (!isCurrentRun()) return;
+        setFrameStatus(scene.scene_number, { state: 'generating' });
+        // The request layer already retries transient failures, so a failure here is final for this run.
+        try {
+            const imageB64 = await trackUsage(usageAttribution('storyboard'), usage =>
+                generateSceneFrame(withCharacterDetails(scene.prompt, generatedResult.characterSheets), selectReferenceImages(scene.prompt, referenceCharacters), { signal: controller.signal, usage }));
+            if (!isCurrentRun()) return;
+            frames[scene.scene_number] = imageB64;
+            updateResult(prev => prev ? { ...prev, sceneFrames: { ...prev.sceneFrames, [scene.scene_number]: imageB64 } } : prev);
+            setFrameStatus(scene.scene_number, { state: 'done' });
+        } catch (e) {
+            console.error(e);
+            setFrameStatus(scene.scene_number, { state: 'error', error: e instanceof Error ? e.message : 'Failed to generate this frame.' });
+        }
+    });
+
+    if (!isCurrentRun()) return;
+    storyboardAbortRef.current = null;
+    // The latest result also keeps whatever else changed while the frames were drawn, e.g. clip states.
+    if (Object.keys(frames).length > 0 && latestResultRef.current) {
+        await recordVersion('storyboard', latestResultRef.current, projectInputs);
+    }
+    setIsStoryboardLoading(false);
+  }, [generatedResult, referenceCharacters, projectInputs, currentProject, recordVersion]);
+
+  const handleGenerateVideos = useCallback(async (sceneNumbers?: number[]) => {
+    if (!generatedResult?.prompts?.length) return;
+    const existing = generatedResult.sceneVideos ?? {};
+    const targets = generatedResult.prompts.filter(p =>
+        sceneNumbers ? sceneNumbers.includes(p.scene_number) : existing[p.scene_number]?.state !== 'done'
+    );
+    if (targets.length === 0) return;
+
+    const controller = new AbortController();
+    videoPollingRef.current = controller;
+    const videos: Record<number, SceneVideo> = { ...existing };
+    // Once another project is opened this run no longer owns the result and must not write to it.
+    const isCurrentRun = () => videoPollingRef.current === controller;
+    const setVideo = (sceneNumber: number, video: SceneVideo) => {
+        if (!isCurrentRun()) return;
+        videos[sceneNumber] = video;
+        updateResult(prev => prev ? { ...prev, sceneVideos: { ...prev.sceneVideos, [sceneNumber]: video } } : prev);
+    };
+
+    setIsVideoLoading(true);
+    setError(null);
+
+    // Jobs that were cancelled or interrupted by a reload are still running on the provider, so they are
+    // resumed by id instead of being paid for twice. Explicitly regenerating a scene always starts a new job.
+    let submittedCount = 0;
+    for (const scene of targets) {
+        if (!isCurrentRun()) return;
+        if (controller.signal.aborted) break;
+        const current = existing[scene.scene_number];
+        if (!sceneNumbers && current?.operationId && (current.state === 'pending' || current.state === 'cancelled')) {
+            setVideo(scene.scene_number, { ...current, state: 'pending' });
+            continue;
+        }
+        try {
+            const frame = generatedResult.sceneFrames?.[scene.scene_number];
+            const operationId = await trackUsage(usageAttribution('video'), usage => startSceneVideo(
+                withCharacterDetails(scene.prompt, generatedResult.characterSheets),
+                (scene.end_time_seconds - scene.start_time_seconds) || DEFAULT_CLIP_SECONDS,
+                frame ? { data: frame, mimeType: 'image/jpeg' } : undefined,
+                { usage }
+            ));
+            setVideo(scene.scene_number, { state: 'pending', operationId, progress: 0 });
+            submittedCount++;
+        } catch (e) {
+            console.error(e);
+            setVideo(scene.scene_number, { state: 'error', error: e instanceof Error ? e.message : 'Failed to submit this clip.' });
+        }
+    }
+    if (submittedCount > 0 && isCurrentRun() && latestResultRef.current) {
+        await recordVersion('video', latestResultRef.current, projectInputs);
+    }
+
+    const pending = targets.filter(p => videos[p.scene_number]?.state === 'pending');
+    const sceneByOperation = new Map<string, number>(pending.map(p => [videos[p.scene_number].operationId!, p.scene_number]));
+    try {
+        await pollVideoJobs([...sceneByOperation.keys()], async (operationId, status) => {
+            const sceneNumber = sceneByOperation.get(operationId)!;
+            if (!status.done) {
+                setVideo(sceneNumber, { state: 'pending', operationId, progress: status.progress });
+            } else if (status.videoB64) {
+                const clipId = await saveVideoClip(status.videoB64, status.mimeType);
+                setVideo(sceneNumber, { state: 'done', operationId, clipId });
+            } else {
+                setVideo(sceneNumber, { state: 'error', operationId, error: status.error || 'The video model returned no clip.' });
+            }
+        }, controller.signal);
+    } catch (e) {
+        if (!controller.signal.aborted) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : 'Lost track of the video jobs. Use Resume to try again.');
+        }
+    }
+
+    // Anything still pending here was cancelled (or the poll failed) and can be resumed later.
+    const settled = Object.fromEntries(Object.entries(videos).map(([n, v]) => [n, v.state === 'pending' ? { ...v, state: 'cancelled' as const } : v]));
+    if (!isCurrentRun()) return;
+    videoPollingRef.current = null;
+    setIsVideoLoading(false);
+    const nextResult = updateResult(prev => prev ? { ...prev, sceneVideos: { ...prev.sceneVideos, ...settled } } : prev);
+    if (nextResult) {
+        await recordVersion('video', nextResult, projectInputs);
+    }
+  }, [generatedResult, projectInputs, currentProject, recordVersion]);
+
+  const handleCancelVideos = useCallback(() => {
+    videoPollingRef.current?.abort();
+  }, []);
 
   return (
     <div className="min-h-screen bg-dark-bg text-text-light flex flex-col">
-      <header className="py-6 px-6 md:px-8">
-        <h1 className="text-3xl md:text-4xl font-bold font-display text-text-light">
-          Pikaza
-        </h1>
-        <p className="text-text-medium mt-1">AI Consistent Character Tool</p>
+      <header className="py-6 px-6 md:px-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-bold font-display text-text-light">
+            Pikaza
+          </h1>
+          <p className="text-text-medium mt-1">AI Consistent Character Tool</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {currentProject && <span className="hidden md:inline text-sm text-text-medium">Project: <span className="text-text-light">{currentProject.name}</span></span>}
+          <button
+            type="button"
+            onClick={() => setIsLibraryOpen(open => !open)}
+            className={`flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset transition ${isLibraryOpen ? 'text-accent' : 'text-text-medium hover:text-accent'}`}
+          >
+            <FolderIcon className="w-5 h-5" /> Projects
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsBatchOpen(open => !open)}
+            className={`flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset transition ${isBatchOpen ? 'text-accent' : 'text-text-medium hover:text-accent'}`}
+          >
+            <QueueListIcon className="w-5 h-5" /> Batch
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsUsageOpen(open => !open)}
+            className={`flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset transition ${isUsageOpen ? 'text-accent' : 'text-text-medium hover:text-accent'}`}
+          >
+            <ChartBarIcon className="w-5 h-5" /> Usage
+          </button>
+          {!isProxyEnabled() && (
+            <button
+              type="button"
+              onClick={() => setIsSettingsOpen(open => !open)}
+              className={`flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset transition ${isSettingsOpen ? 'text-accent' : 'text-text-medium hover:text-accent'}`}
+            >
+              <CogIcon className="w-5 h-5" /> Settings
+            </button>
+          )}
+          {isKeyUnlocked && (
+            <button
+              type="button"
+              onClick={handleLock}
+              className="py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition"
+              title="Forget the API key for this session"
+            >
+              Lock
+            </button>
+          )}
+        </div>
       </header>
 
-      <main className="flex-grow max-w-screen-2xl mx-auto p-4 md:p-6 lg:p-12 grid grid-cols-1 lg:grid-cols-2 gap-12 items-start w-full">
-        <CharacterInputForm
-          characterProfiles={characterProfiles}
-          setCharacterProfiles={setCharacterProfiles}
-          storyScene={storyScene}
-          setStoryScene={setStoryScene}
-          storyTitle={storyTitle}
-          setStoryTitle={setStoryTitle}
-          storyMode={storyMode}
-          setStoryMode={setStoryMode}
-          storyLength={storyLength}
-          setStoryLength={setStoryLength}
-          videoLengthMinutes={videoLengthMinutes}
-          setVideoLengthMinutes={setVideoLengthMinutes}
-          videoStyle={videoStyle}
-          setVideoStyle={setVideoStyle}
-          onSubmit={handleGenerate}
-          isLoading={isLoading}
-          result={generatedResult}
-          onGenerateVoiceover={handleGenerateVoiceover}
-          isVoiceoverLoading={isVoiceoverLoading}
-          // FIX: Pass the correct handler function to the onEnhanceScript prop.
-          onEnhanceScript={handleEnhanceScript}
-          isEnhancingScript={isEnhancingScript}
-          selectedVoice={selectedVoice}
-          setSelectedVoice={setSelectedVoice}
-          // FIX: Pass the correct handler function to the onGenerateAudio prop.
-          onGenerateAudio={handleGenerateAudio}
-          isAudioLoading={isAudioLoading}
-          isTranslating={isTranslating}
-          editableVoiceoverScript={editableVoiceoverScript}
-          setEditableVoiceoverScript={setEditableVoiceoverScript}
-          voiceoverScriptInput={voiceoverScriptInput}
-          setVoiceoverScriptInput={setVoiceoverScriptInput}
-          thumbnailPrompt={thumbnailPrompt}
-          setThumbnailPrompt={setThumbnailPrompt}
-          onGenerateStandaloneThumbnail={handleGenerateStandaloneThumbnail}
-          isStandaloneThumbnailLoading={isStandaloneThumbnailLoading}
-        />
-        <PromptDisplay
-          result={generatedResult}
-          isLoading={isLoading}
-          error={error}
-          isThumbnailLoading={isThumbnailLoading}
-          onGenerateThumbnail={handleGenerateThumbnail}
+      {retryStatuses.length > 0 && (
+        <section className="max-w-screen-2xl mx-auto px-4 md:px-6 lg:px-12 w-full mb-6">
+          <RetryStatusBanner statuses={retryStatuses} />
+        </section>
+      )}
+
+      {isSettingsOpen && (
+        <section className="max-w-screen-2xl mx-auto px-4 md:px-6 lg:px-12 w-full mb-6">
+          <ProviderSettingsPanel onSaved={setProviderSettingsState} />
+        </section>
+      )}
+
+      {isLibraryOpen && (
+        <section className="max-w-screen-2xl mx-auto px-4 md:px-6 lg:px-12 w-full">
+          <ProjectLibrary
+            currentProject={currentProject}
+            onOpenProject={handleOpenProject}
+            onOpenVersion={handleOpenVersion}
+            onProjectRenamed={(project) => setCurrentProject(prev => prev?.id === project.id ? project : prev)}
+            onProjectDeleted={handleProjectDeleted}
+          />
+        </section>
+      )}
+
+      {isUsageOpen && (
+        <section className="max-w-screen-2xl mx-auto px-4 md:px-6 lg:px-12 w-full mb-6">
+          <UsageDashboard />
+        </section>
+      )}
+
+      {/* Kept mounted while closed, so a running queue keeps going in the background. */}
+      <section className={`max-w-screen-2xl mx-auto px-4 md:px-6 lg:px-12 w-full ${isBatchOpen && !(needsGeminiKey && !isKeyUnlocked) ? '' : 'hidden'}`}>
+        <BatchQueuePanel
+          baseInputs={projectInputs}
+          libraryProfiles={selectedLibraryProfiles}
+          defaults={{ videoStyle, storyLength, voice: selectedVoice }}
+          onOpenProject={handleOpenBatchProject}
         />
-      </main>
+      </section>
+
+      {needsGeminiKey && !isKeyUnlocked ? (
+        <main className="flex-grow flex items-center justify-center p-4 md:p-6 lg:p-12 w-full">
+          <LoginPage onUnlocked={handleKeyUnlocked} />
+        </main>
+      ) : (
+        <main className="flex-grow max-w-screen-2xl mx-auto p-4 md:p-6 lg:p-12 grid grid-cols-1 lg:grid-cols-2 gap-12 items-start w-full">
+          <CharacterInputForm
+            characterProfiles={characterProfiles}
+            setCharacterProfiles={setCharacterProfiles}
+            storyScene={storyScene}
+            setStoryScene={setStoryScene}
+            storyTitle={storyTitle}
+            setStoryTitle={setStoryTitle}
+            storyMode={storyMode}
+            setStoryMode={setStoryMode}
+            storyLength={storyLength}
+            setStoryLength={setStoryLength}
+            videoLengthMinutes={videoLengthMinutes}
+            setVideoLengthMinutes={setVideoLengthMinutes}
+            videoStyle={videoStyle}
+            setVideoStyle={setVideoStyle}
+            result={generatedResult}
+            pipelineStatuses={pipelineStatuses}
+            runningStep={runningStep}
+            isStoppingPipeline={isStoppingPipeline}
+            onRunStep={handleRunStep}
+            onRunPipeline={handleRunAll}
+            onStopPipeline={handleStopPipeline}
+            selectedVoice={selectedVoice}
+            setSelectedVoice={setSelectedVoice}
+            isTranslating={isTranslating}
+            editableVoiceoverScript={editableVoiceoverScript}
+            setEditableVoiceoverScript={setEditableVoiceoverScript}
+            voiceoverScriptInput={voiceoverScriptInput}
+            setVoiceoverScriptInput={setVoiceoverScriptInput}
+            thumbnailPrompt={thumbnailPrompt}
+            setThumbnailPrompt={setThumbnailPrompt}
+            onGenerateStandaloneThumbnail={handleGenerateStandaloneThumbnail}
+            isStandaloneThumbnailLoading={isStandaloneThumbnailLoading}
+            libraryCharacters={libraryCharacters}
+            selectedLibraryCharacterIds={selectedLibraryCharacterIds}
+            setSelectedLibraryCharacterIds={setSelectedLibraryCharacterIds}
+            onSaveLibraryCharacter={handleSaveLibraryCharacter}
+            onDeleteLibraryCharacter={handleDeleteLibraryCharacter}
+            voiceoverMode={voiceoverMode}
+            setVoiceoverMode={setVoiceoverMode}
+            voiceCasting={voiceCasting}
+            setVoiceCasting={setVoiceCasting}
+            languages={languages}
+            setLanguages={setLanguages}
+            includeNativeScript={includeNativeScript}
+            setIncludeNativeScript={setIncludeNativeScript}
+            speechMode={speechMode}
+            setSpeechMode={setSpeechMode}
+            pronunciationNotes={pronunciationNotes}
+            setPronunciationNotes={setPronunciationNotes}
+          />
+          <PromptDisplay
+            result={generatedResult}
+            isLoading={runningStep === 'story'}
+            partialResult={partialResult}
+            onCancelGenerate={handleStopPipeline}
+            error={error}
+            isThumbnailLoading={runningStep === 'thumbnail'}
+            onGenerateThumbnail={() => handleRunStep('thumbnail')}
+            onSaveCharacterToLibrary={handleSaveGeneratedCharacter}
+            onCharacterReferenceChange={handleCharacterReferenceChange}
+            onCharacterSheetsChange={handleCharacterSheetsChange}
+            onGenerateCharacterPortrait={handleGenerateCharacterPortrait}
+            isStoryboardLoading={isStoryboardLoading}
+            sceneFrameStatuses={sceneFrameStatuses}
+            onGenerateStoryboard={() => handleGenerateStoryboard()}
+            onRegenerateSceneFrame={(sceneNumber) => handleGenerateStoryboard([sceneNumber])}
+            videoStyle={videoStyle}
+            sceneTask={sceneTask}
+            onRepairScene={handleRepairScene}
+            onRegenerateScene={handleRegenerateScene}
+            onScenesChange={handleScenesChange}
+            canUndoSceneEdit={sceneHistory.undo.length > 0}
+            canRedoSceneEdit={sceneHistory.redo.length > 0}
+            onUndoSceneEdit={() => handleStepSceneHistory('undo')}
+            onRedoSceneEdit={() => handleStepSceneHistory('redo')}
+            isVideoLoading={isVideoLoading}
+            onGenerateVideos={() => handleGenerateVideos()}
+            onRegenerateVideo={(sceneNumber) => handleGenerateVideos([sceneNumber])}
+            onCancelVideos={handleCancelVideos}
+            isNativeScriptLoading={isNativeScriptLoading}
+            onGenerateNativeScript={handleGenerateNativeScript}
+          />
+        </main>
+      )}
     </div>
   );
 };
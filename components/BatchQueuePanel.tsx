@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { QueueListIcon, TrashIcon } from './icons';
+import type { BatchEpisode, CharacterProfile, EpisodeStepState, ProjectInputs } from '../types';
+import { EPISODE_STEPS, EPISODE_STEP_LABELS, isEpisodeFinished, parseEpisodeList, runBatch, type EpisodeDefaults } from '../services/batchQueue';
+import { VOICES } from '../services/voices';
+
+interface BatchQueuePanelProps {
+  baseInputs: ProjectInputs; // the editor's current settings; episodes take only the shared ones (languages, voiceover mode and the like)
+  libraryProfiles: CharacterProfile[];
+  defaults: EpisodeDefaults;
+  onOpenProject: (projectId: string) => void;
+}
+
+const MAX_CONCURRENCY = 3;
+
+const stepStateClassNames: Record<EpisodeStepState, string> = {
+  pending: 'bg-dark-bg text-text-medium',
+  running: 'bg-accent/20 text-accent animate-pulse',
+  done: 'bg-green-900/40 text-green-400',
+  error: 'bg-red-900/50 text-red-400',
+};
+
+const voiceName = (id: string) => VOICES.find(voice => voice.id === id)?.name ?? id;
+
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ baseInputs, libraryProfiles, defaults, onOpenProject }) => {
+  const [episodes, setEpisodes] = useState<BatchEpisode[]>([]);
+  const [listText, setListText] = useState<string>('');
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isPausing, setIsPausing] = useState<boolean>(false);
+  const pauseRef = useRef<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addEpisodes = (text: string) => {
+    const added = parseEpisodeList(text, defaults);
+    setEpisodes(prev => [...prev, ...added]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) addEpisodes(await file.text());
+  };
+
+  const handleStart = async () => {
+    const unfinished = episodes.filter(episode => !isEpisodeFinished(episode));
+    if (unfinished.length === 0) return;
+    pauseRef.current = false;
+    setIsRunning(true);
+    await runBatch(unfinished, concurrency, {
+      baseInputs,
+      libraryProfiles,
+      shouldStop: () => pauseRef.current,
+      onUpdate: (episode) => setEpisodes(prev => prev.map(e => e.id === episode.id ? episode : e)),
+    });
+    setIsRunning(false);
+    setIsPausing(false);
+  };
+
+  const handlePause = () => {
+    pauseRef.current = true;
+    setIsPausing(true);
+  };
+
+  const hasUnfinished = episodes.some(episode => !isEpisodeFinished(episode));
+  const hasStarted = episodes.some(episode => EPISODE_STEPS.some(step => episode.steps[step] !== 'pending'));
+
+  return (
+    <div className="bg-dark-card rounded-3xl p-6 shadow-soft-outset space-y-4">
+      <div className="flex items-center gap-2">
+        <QueueListIcon className="w-6 h-6 text-accent" />
+        <h2 className="text-2xl font-bold font-display text-text-light">Batch Episodes</h2>
+      </div>
+      <p className="text-sm text-text-medium">
+        Every title runs story, voiceover, audio and thumbnails and is saved as its own project. Rows use the current style
+        ({defaults.videoStyle}), length ({defaults.storyLength}) and voice ({voiceName(defaults.voice)}) unless a CSV sets them
+        in <code>title</code>, <code>style</code>, <code>length</code> and <code>voice</code> columns.
+      </p>
+
+      <div className="space-y-2">
+        <textarea
+          value={listText}
+          onChange={(e) => setListText(e.target.value)}
+          rows={4}
+          placeholder="One title per line, or CSV with a title column"
+          className="w-full bg-dark-input rounded-xl p-3 text-sm text-text-light shadow-soft-inset focus:outline-none focus:ring-2 focus:ring-accent/50 custom-scrollbar"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => { addEpisodes(listText); setListText(''); }}
+            disabled={!listText.trim()}
+            className="py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
+          >
+            Add to Queue
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition"
+          >
+            Import CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {episodes.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-text-medium">
+              Episodes at once
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="bg-dark-input rounded-lg py-1 px-2 text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setEpisodes(prev => prev.filter(episode => !isEpisodeFinished(episode)))}
+                disabled={isRunning || !episodes.some(isEpisodeFinished)}
+                className="text-xs text-text-medium hover:text-accent disabled:opacity-50"
+              >
+                Clear Finished
+              </button>
+              {isRunning ? (
+                <button
+                  type="button"
+                  onClick={handlePause}
+                  disabled={isPausing}
+                  className="py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
+                >
+                  {isPausing ? 'Pausing after current steps...' : 'Pause'}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleStart}
+                  disabled={!hasUnfinished}
+                  className="py-2 px-4 rounded-xl text-sm font-semibold bg-accent text-white shadow-soft-outset transition hover:opacity-90 disabled:opacity-50"
+                >
+                  {hasStarted ? 'Resume Queue' : 'Start Queue'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <ul className="space-y-2 max-h-[40vh] overflow-y-auto p-1 -m-1 custom-scrollbar">
+            {episodes.map(episode => (
+              <li key={episode.id} className="p-3 bg-dark-input rounded-xl shadow-soft-inset space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-semibold text-text-light">{episode.title}</p>
+                    <p className="text-xs text-text-medium">{episode.videoStyle} · {episode.storyLength} · {voiceName(episode.voice)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {episode.projectId && (
+                      <button type="button" onClick={() => onOpenProject(episode.projectId!)} className="text-xs font-semibold text-text-medium hover:text-accent">
+                        Open
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setEpisodes(prev => prev.filter(e => e.id !== episode.id))}
+                      disabled={isRunning}
+                      className="p-2 rounded-full hover:bg-white/10 text-text-medium hover:text-accent disabled:opacity-50"
+                      title="Remove from queue"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {EPISODE_STEPS.map(step => (
+                    <span key={step} className={`text-xs py-1 px-2 rounded-lg ${stepStateClassNames[episode.steps[step]]}`}>
+                      {EPISODE_STEP_LABELS[step]}
+                    </span>
+                  ))}
+                </div>
+                {episode.error && <p className="text-xs text-red-400">{episode.error}</p>}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,18 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { CharacterProfile, GeneratedResult } from '../types';
+import type { CharacterProfile, GeneratedResult, LanguageSettings, LibraryCharacter, PipelineStepId, PipelineStepStatus, ReferenceImage, SpeechMode, VoiceoverMode } from '../types';
+import type { LibraryCharacterInput } from '../services/characterLibrary';
+import { CharacterLibrary } from './CharacterLibrary';
+import { ReferenceImagePicker } from './ReferenceImagePicker';
+import { PipelinePanel } from './PipelinePanel';
 import { LoadingSpinnerIcon, MicIcon, PlayIcon, PauseIcon, DownloadIcon, SparklesIcon, TrashIcon, PhotoIcon } from './icons';
-import { generateAudioFromScript } from '../services/geminiService';
+import { generateAudioFromScript, generateCharacterPortrait } from '../services/geminiService';
+import { decodeAudioData, createWavFile } from '../services/audio';
+import { base64ToBytes, downloadBlob } from '../services/encoding';
+import { VOICES } from '../services/voices';
+import { NARRATOR, buildSpeakerStem, castVoices, listSpeakers, parseDialogueScript } from '../services/dialogue';
+import { ENGLISH, LANGUAGES, getLanguage } from '../services/languages';
+import { listVoiceoverAudioTracks } from '../services/voiceoverTracks';
 
 interface CharacterInputFormProps {
   characterProfiles: CharacterProfile[];
@@ -19,17 +29,15 @@ interface CharacterInputFormProps {
   setVideoLengthMinutes: React.Dispatch<React.SetStateAction<number>>;
   videoStyle: string;
   setVideoStyle: React.Dispatch<React.SetStateAction<string>>;
-  onSubmit: () => void;
-  isLoading: boolean;
   result: GeneratedResult | null;
-  onGenerateVoiceover: () => void;
-  isVoiceoverLoading: boolean;
-  onEnhanceScript: () => void;
-  isEnhancingScript: boolean;
+  pipelineStatuses: Record<PipelineStepId, PipelineStepStatus>;
+  runningStep: PipelineStepId | null;
+  isStoppingPipeline: boolean;
+  onRunStep: (step: PipelineStepId) => void;
+  onRunPipeline: (onlyStale: boolean) => void;
+  onStopPipeline: () => void;
   selectedVoice: string;
   setSelectedVoice: React.Dispatch<React.SetStateAction<string>>;
-  onGenerateAudio: () => void;
-  isAudioLoading: boolean;
   isTranslating: boolean;
   editableVoiceoverScript: string;
   setEditableVoiceoverScript: React.Dispatch<React.SetStateAction<string>>;
@@ -39,6 +47,23 @@ interface CharacterInputFormProps {
   setThumbnailPrompt: React.Dispatch<React.SetStateAction<string>>;
   onGenerateStandaloneThumbnail: () => void;
   isStandaloneThumbnailLoading: boolean;
+  libraryCharacters: LibraryCharacter[];
+  selectedLibraryCharacterIds: string[];
+  setSelectedLibraryCharacterIds: React.Dispatch<React.SetStateAction<string[]>>;
+  onSaveLibraryCharacter: (input: LibraryCharacterInput, id?: string) => Promise<void>;
+  onDeleteLibraryCharacter: (id: string) => Promise<void>;
+  voiceoverMode: VoiceoverMode;
+  setVoiceoverMode: React.Dispatch<React.SetStateAction<VoiceoverMode>>;
+  voiceCasting: Record<string, string>;
+  setVoiceCasting: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  languages: LanguageSettings;
+  setLanguages: React.Dispatch<React.SetStateAction<LanguageSettings>>;
+  includeNativeScript: boolean;
+  setIncludeNativeScript: React.Dispatch<React.SetStateAction<boolean>>;
+  speechMode: SpeechMode;
+  setSpeechMode: React.Dispatch<React.SetStateAction<SpeechMode>>;
+  pronunciationNotes: string;
+  setPronunciationNotes: React.Dispatch<React.SetStateAction<string>>;
 }
 
 const InputField: React.FC<{
@@ -113,71 +138,14 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
     </button>
 )
 
-const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-};
-
-async function decodeAudioData(
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
-
-const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-    }
-};
-
-const createWavFile = (pcmData: Uint8Array, sampleRate: number, numChannels: number, bitsPerSample: number): Blob => {
-    const dataSize = pcmData.length;
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
-
-    // RIFF chunk descriptor
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true);
-    writeString(view, 8, 'WAVE');
-    // "fmt " sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numChannels * (bitsPerSample / 8), true);
-    view.setUint16(32, numChannels * (bitsPerSample / 8), true);
-    view.setUint16(34, bitsPerSample, true);
-    // "data" sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-
-    const pcm = new Uint8Array(pcmData);
-    for (let i = 0; i < dataSize; i++) {
-        view.setUint8(44 + i, pcm[i]);
-    }
-    
-    return new Blob([view], { type: 'audio/wav' });
-};
-
+const LanguageSelect: React.FC<{ id: string; label: string; value: string; onChange: (code: string) => void }> = ({ id, label, value, onChange }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium text-text-medium mb-2">{label}</label>
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className="w-full bg-dark-input rounded-xl shadow-soft-inset py-3 px-4 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50 border-transparent transition-all duration-300 appearance-none">
+      {LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+    </select>
+  </div>
+)
 
 export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   characterProfiles,
@@ -194,17 +162,15 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   setVideoLengthMinutes,
   videoStyle,
   setVideoStyle,
-  onSubmit,
-  isLoading,
   result,
-  onGenerateVoiceover,
-  isVoiceoverLoading,
-  onEnhanceScript,
-  isEnhancingScript,
+  pipelineStatuses,
+  runningStep,
+  isStoppingPipeline,
+  onRunStep,
+  onRunPipeline,
+  onStopPipeline,
   selectedVoice,
   setSelectedVoice,
-  onGenerateAudio,
-  isAudioLoading,
   isTranslating,
   editableVoiceoverScript,
   setEditableVoiceoverScript,
@@ -214,13 +180,34 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   setThumbnailPrompt,
   onGenerateStandaloneThumbnail,
   isStandaloneThumbnailLoading,
+  libraryCharacters,
+  selectedLibraryCharacterIds,
+  setSelectedLibraryCharacterIds,
+  onSaveLibraryCharacter,
+  onDeleteLibraryCharacter,
+  voiceoverMode,
+  setVoiceoverMode,
+  voiceCasting,
+  setVoiceCasting,
+  languages,
+  setLanguages,
+  includeNativeScript,
+  setIncludeNativeScript,
+  speechMode,
+  setSpeechMode,
+  pronunciationNotes,
+  setPronunciationNotes,
 }) => {
   const [activeStep, setActiveStep] = useState(1);
   const [playbackRate, setPlaybackRate] = useState(1.0);
   const audioContextRef = useRef<AudioContext | null>(null);
   const [sampleLoadingVoice, setSampleLoadingVoice] = useState<string | null>(null);
+  const [audioTrackLanguage, setAudioTrackLanguage] = useState<string | null>(null);
   const VOICEOVER_CHAR_LIMIT = 10000;
 
+  const audioTracks = result ? listVoiceoverAudioTracks(result) : [];
+  const activeAudioTrack = audioTracks.find(track => track.language === audioTrackLanguage) ?? audioTracks[0];
+
   const [audioState, setAudioState] = useState<'paused' | 'playing' | 'stopped'>('stopped');
   const audioSourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
@@ -245,9 +232,13 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
     });
   };
   
+  const handleReferenceImageChange = (index: number, referenceImage: ReferenceImage | undefined) => {
+    setCharacterProfiles(prev => prev.map((profile, i) => i === index ? { ...profile, referenceImage } : profile));
+  };
+  
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit();
+    onRunStep('story');
   }
 
   const predefinedStyles = [
@@ -257,14 +248,6 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   const isCustomStyle = !predefinedStyles.includes(videoStyle);
   const selectValue = isCustomStyle ? 'Other' : videoStyle;
   
-  const voices = [
-    { name: 'Pikaza (Mature Male)', id: 'Fenrir' },
-    { name: 'Zephyr', id: 'Zephyr' },
-    { name: 'Kore', id: 'Kore' },
-    { name: 'Puck', id: 'Puck' },
-    { name: 'Charon', id: 'Charon' },
-  ];
-
   const handleStyleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const value = e.target.value;
     if (value === 'Other') setVideoStyle('');
@@ -276,7 +259,7 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   }
 
   useEffect(() => {
-    if (result?.voiceoverAudio) {
+    if (activeAudioTrack?.audio) {
       if (audioSourceNodeRef.current) {
         audioSourceNodeRef.current.onended = null;
         try { audioSourceNodeRef.current.stop(); } catch (e) { /* ignore */ }
@@ -286,11 +269,11 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
       audioSourceNodeRef.current = null;
       pauseTimeRef.current = 0;
     }
-  }, [result?.voiceoverAudio]);
+  }, [activeAudioTrack?.audio]);
 
 
   const playAudio = async () => {
-    if (!result?.voiceoverAudio) return;
+    if (!activeAudioTrack) return;
   
     if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -304,7 +287,7 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   
     if (!audioBufferRef.current) {
       try {
-        audioBufferRef.current = await decodeAudioData(decode(result.voiceoverAudio), audioContext, 24000, 1);
+        audioBufferRef.current = await decodeAudioData(base64ToBytes(activeAudioTrack.audio), audioContext, 24000, 1);
       } catch (e) {
         console.error("Failed to decode audio:", e);
         return;
@@ -365,7 +348,7 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
             audioContextRef.current = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
         }
         const audioContext = audioContextRef.current;
-        const audioBuffer = await decodeAudioData(decode(audioB64), audioContext, 24000, 1);
+        const audioBuffer = await decodeAudioData(base64ToBytes(audioB64), audioContext, 24000, 1);
         const source = audioContext.createBufferSource();
         source.buffer = audioBuffer;
         source.playbackRate.value = playbackRate;
@@ -379,19 +362,34 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
   };
 
   const handleDownloadVoiceover = () => {
-    if (!result?.voiceoverAudio) return;
-    const pcmData = decode(result.voiceoverAudio);
+    if (!activeAudioTrack) return;
+    const pcmData = base64ToBytes(activeAudioTrack.audio);
     const wavBlob = createWavFile(pcmData, 24000, 1, 16);
     const url = URL.createObjectURL(wavBlob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = 'voiceover.wav';
+    link.download = audioTracks.length > 1 ? `voiceover_${activeAudioTrack.language}.wav` : 'voiceover.wav';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
+  const nativeScriptLanguages = Array.from(new Set(storyMode !== 'detail' ? [languages.story, languages.voiceover] : [languages.voiceover]))
+      .map(getLanguage)
+      .filter(language => language.nativeScript);
+  const dialogueSpeakers = voiceoverMode === 'dialogue' ? listSpeakers(parseDialogueScript(editableVoiceoverScript)) : [];
+  const effectiveCasting = castVoices(dialogueSpeakers, voiceCasting, selectedVoice);
+  const stemSpeakers: string[] = activeAudioTrack?.segments ? Array.from(new Set(activeAudioTrack.segments.map(s => s.speaker))) : [];
+  const voiceoverLanguage = getLanguage(result?.voiceoverLanguage ?? languages.voiceover);
+
+  const handleDownloadStem = (speaker: string) => {
+    if (!activeAudioTrack?.segments) return;
+    const stem = buildSpeakerStem(activeAudioTrack.audio, activeAudioTrack.segments, speaker);
+    const trackSuffix = audioTracks.length > 1 ? `_${activeAudioTrack.language}` : '';
+    downloadBlob(createWavFile(stem, 24000, 1, 16), `voiceover_${speaker.replace(/[^\p{L}\p{N}]+/gu, '_')}${trackSuffix}.wav`);
+  };
+
   const navItems = [
     { step: 1, title: 'Define Characters & Story' },
     { step: 2, title: 'Define Video Style' },
@@ -399,8 +397,10 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
     { step: 4, title: 'Generate Voiceover & Thumbnail' },
   ];
   
-  const isSubmitDisabled = isLoading || (storyMode === 'detail'
-      ? !characterProfiles.some(c => c.appearance.trim()) || !storyScene.trim()
+  // Steps run one at a time, so every step's button waits for the running one.
+  const isPipelineRunning = runningStep !== null;
+  const isSubmitDisabled = isPipelineRunning || (storyMode === 'detail'
+      ? !(characterProfiles.some(c => c.appearance.trim()) || selectedLibraryCharacterIds.length > 0) || !storyScene.trim()
       : storyMode === 'fromTitle'
       ? !storyTitle.trim()
       : !voiceoverScriptInput.trim()
@@ -427,6 +427,15 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
     <form onSubmit={handleSubmit} className="bg-dark-card rounded-3xl p-4 shadow-soft-outset flex h-full transition-shadow duration-300 hover:shadow-accent-glow">
         <nav className="w-1/3 border-r border-white/10 pr-4 flex flex-col space-y-2">
             {navItems.map(item => <NavItem key={item.step} {...item} />)}
+            <PipelinePanel
+                statuses={pipelineStatuses}
+                runningStep={runningStep}
+                isStopping={isStoppingPipeline}
+                onRunStep={onRunStep}
+                onRunAll={() => onRunPipeline(false)}
+                onRunStale={() => onRunPipeline(true)}
+                onStop={onStopPipeline}
+            />
         </nav>
         
         <div className="w-2/3 pl-4 flex flex-col">
@@ -441,20 +450,45 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                             <TabButton active={storyMode === 'fromVoiceover'} onClick={() => setStoryMode('fromVoiceover')}>From Voiceover</TabButton>
                         </div>
 
+                        <CharacterLibrary
+                            characters={libraryCharacters}
+                            selectedIds={selectedLibraryCharacterIds}
+                            setSelectedIds={setSelectedLibraryCharacterIds}
+                            onSave={onSaveLibraryCharacter}
+                            onDelete={onDeleteLibraryCharacter}
+                            videoStyle={videoStyle}
+                        />
+
                         {storyMode === 'detail' && (
                             <div className="space-y-4">
                                 {characterProfiles.map((profile, index) => (
                                     <div key={index} className="bg-dark-input rounded-2xl p-4 shadow-soft-inset space-y-3">
                                         <div className="flex justify-between items-center">
                                             <h3 className="text-lg font-semibold text-accent">Character {index + 1}</h3>
-                                            {characterProfiles.length > 1 && (
-                                                <button type="button" onClick={() => handleRemoveCharacter(index)} className="p-2 rounded-full hover:bg-white/10 text-text-medium hover:text-accent">
-                                                    <TrashIcon className="w-5 h-5" />
+                                            <div className="flex items-center gap-2">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => onSaveLibraryCharacter({ name: profile.name, appearance: profile.appearance, referenceImage: profile.referenceImage, tags: [], source: 'manual' })}
+                                                    disabled={!profile.name.trim() || !profile.appearance.trim()}
+                                                    className="text-xs font-semibold text-text-medium hover:text-accent disabled:opacity-40"
+                                                    title="Save this character to the library"
+                                                >
+                                                    Save to Library
                                                 </button>
-                                            )}
+                                                {characterProfiles.length > 1 && (
+                                                    <button type="button" onClick={() => handleRemoveCharacter(index)} className="p-2 rounded-full hover:bg-white/10 text-text-medium hover:text-accent">
+                                                        <TrashIcon className="w-5 h-5" />
+                                                    </button>
+                                                )}
+                                            </div>
                                         </div>
                                         <InputField id={`name-${index}`} name="name" label="Name" value={profile.name} onChange={(e) => handleProfileChange(index, e)} placeholder="e.g., Kaelen" />
                                         <TextareaField id={`appearance-${index}`} name="appearance" label="Appearance Details" value={profile.appearance} onChange={(e) => handleProfileChange(index, e)} placeholder="e.g., silver hair, glowing cybernetic eye, worn leather jacket" rows={3} required />
+                                        <ReferenceImagePicker
+                                            image={profile.referenceImage}
+                                            onChange={(referenceImage) => handleReferenceImageChange(index, referenceImage)}
+                                            onGenerate={profile.appearance.trim() ? () => generateCharacterPortrait(profile.name, profile.appearance, videoStyle) : undefined}
+                                        />
                                     </div>
                                 ))}
                                 <button type="button" onClick={handleAddCharacter} className="w-full py-2 px-4 border-2 border-dashed border-text-medium/50 rounded-xl text-text-medium hover:text-text-light hover:border-text-medium transition-colors">
@@ -492,6 +526,22 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                                 required 
                             />
                         )}
+
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-3 gap-3">
+                                {storyMode !== 'detail' && (
+                                    <LanguageSelect id="storyLanguage" label="Story Language" value={languages.story} onChange={(story) => setLanguages(prev => ({ ...prev, story }))} />
+                                )}
+                                <LanguageSelect id="voiceoverLanguage" label="Voiceover Language" value={languages.voiceover} onChange={(voiceover) => setLanguages(prev => ({ ...prev, voiceover }))} />
+                                <LanguageSelect id="promptLanguage" label="Prompt Language" value={languages.prompts} onChange={(prompts) => setLanguages(prev => ({ ...prev, prompts }))} />
+                            </div>
+                            {nativeScriptLanguages.length > 0 && (
+                                <label className="flex items-center gap-2 text-sm text-text-medium">
+                                    <input type="checkbox" checked={includeNativeScript} onChange={(e) => setIncludeNativeScript(e.target.checked)} className="accent-accent" />
+                                    Also write the {nativeScriptLanguages.map(l => l.label).join(' / ')} story and voiceover in {nativeScriptLanguages.map(l => getLanguage(l.nativeScript!).label).join(' / ')} script
+                                </label>
+                            )}
+                        </div>
                     </div>
                 )}
                 {activeStep === 2 && (
@@ -532,14 +582,21 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                         <h2 className="text-2xl font-bold font-display text-text-light">4. Generate Voiceover & Thumbnail</h2>
                         <>
                             <p className="text-text-medium">Generate a voiceover script from your story, or write your own.</p>
+                            <div className="flex bg-dark-input p-1 rounded-full space-x-1 shadow-soft-inset">
+                                <TabButton active={voiceoverMode === 'narration'} onClick={() => setVoiceoverMode('narration')}>Single Narrator</TabButton>
+                                <TabButton active={voiceoverMode === 'dialogue'} onClick={() => setVoiceoverMode('dialogue')}>Dialogue</TabButton>
+                            </div>
+                            {voiceoverMode === 'dialogue' && (
+                                <p className="text-xs text-text-medium">Write one line per speaker as "Name: line". Lines without a name are read by the {NARRATOR}.</p>
+                            )}
                             <button
                                 type="button"
-                                onClick={onGenerateVoiceover}
-                                disabled={isVoiceoverLoading || !result || !result.storyScript}
+                                onClick={() => onRunStep('voiceover')}
+                                disabled={isPipelineRunning || !result || !result.storyScript}
                                 className="flex items-center justify-center gap-2 py-3 px-5 rounded-xl text-sm font-semibold text-text-light bg-dark-input shadow-soft-outset hover:text-accent focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed transition"
                                 title={!result?.storyScript ? "Generate a story first to enable this" : "Generate voiceover script from story"}
                             >
-                                {isVoiceoverLoading ? (
+                                {runningStep === 'voiceover' ? (
                                     <><LoadingSpinnerIcon /> Generating Script...</>
                                 ) : (
                                     <><MicIcon className="w-4 h-4" /> Generate from Story</>
@@ -558,12 +615,12 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                                 />
                                 <button
                                     type="button"
-                                    onClick={onEnhanceScript}
-                                    disabled={isEnhancingScript || !editableVoiceoverScript.trim()}
+                                    onClick={() => onRunStep('enhance')}
+                                    disabled={isPipelineRunning || !editableVoiceoverScript.trim()}
                                     className="absolute bottom-4 right-4 p-3 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
                                     title="Auto Enhance Script"
                                 >
-                                    {isEnhancingScript ? <LoadingSpinnerIcon /> : <SparklesIcon className="w-5 h-5" />}
+                                    {runningStep === 'enhance' ? <LoadingSpinnerIcon /> : <SparklesIcon className="w-5 h-5" />}
                                 </button>
                             </div>
 
@@ -572,22 +629,68 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                             </p>
                             
                             <div>
-                                <label htmlFor="voiceSelect" className="block text-sm font-medium text-text-medium mb-2">Character Voice</label>
+                                <label htmlFor="voiceSelect" className="block text-sm font-medium text-text-medium mb-2">{voiceoverMode === 'dialogue' ? 'Narrator Voice' : 'Character Voice'}</label>
                                 <div className="flex items-center gap-2">
                                     <select id="voiceSelect" value={selectedVoice} onChange={(e) => setSelectedVoice(e.target.value)} className="w-full bg-dark-input rounded-xl shadow-soft-inset py-3 px-4 text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50 border-transparent transition-all duration-300 appearance-none">
-                                        {voices.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                                        {VOICES.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
                                     </select>
                                     <button
                                         type="button"
                                         onClick={handlePlaySampleVoice}
                                         disabled={!!sampleLoadingVoice}
                                         className="p-3 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
-                                        title={`Play sample for ${voices.find(v => v.id === selectedVoice)?.name}`}
+                                        title={`Play sample for ${VOICES.find(v => v.id === selectedVoice)?.name}`}
                                     >
                                         {sampleLoadingVoice === selectedVoice ? <LoadingSpinnerIcon /> : <PlayIcon className="w-5 h-5" />}
                                     </button>
                                 </div>
                             </div>
+                            {dialogueSpeakers.filter(speaker => speaker !== NARRATOR).length > 0 && (
+                                <div className="space-y-2">
+                                    <p className="text-sm font-medium text-text-medium">Voice Casting</p>
+                                    {dialogueSpeakers.filter(speaker => speaker !== NARRATOR).map(speaker => (
+                                        <div key={speaker} className="flex items-center gap-3">
+                                            <span className="w-1/3 text-sm text-text-light truncate">{speaker}</span>
+                                            <select
+                                                value={effectiveCasting[speaker]}
+                                                onChange={(e) => setVoiceCasting({ ...effectiveCasting, [speaker]: e.target.value })}
+                                                className="flex-grow bg-dark-input rounded-xl shadow-soft-inset py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+                                            >
+                                                {VOICES.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {voiceoverLanguage.code !== ENGLISH && (
+                                <div className="space-y-2">
+                                    <p className="text-sm font-medium text-text-medium">Speech</p>
+                                    <div className="flex bg-dark-input p-1 rounded-full space-x-1 shadow-soft-inset">
+                                        <TabButton active={speechMode === 'auto'} onClick={() => setSpeechMode('auto')}>Auto</TabButton>
+                                        <TabButton active={speechMode === 'native'} onClick={() => setSpeechMode('native')}>{voiceoverLanguage.label}</TabButton>
+                                        <TabButton active={speechMode === 'dual'} onClick={() => setSpeechMode('dual')}>{voiceoverLanguage.label} + English</TabButton>
+                                    </div>
+                                    <p className="text-xs text-text-medium">
+                                        {speechMode === 'auto'
+                                            ? voiceoverLanguage.speakable
+                                                ? `The script is spoken in ${voiceoverLanguage.label}.`
+                                                : `The speech model does not read ${voiceoverLanguage.label} natively, so an English translation is spoken.`
+                                            : speechMode === 'native'
+                                                ? `The script is spoken directly in ${voiceoverLanguage.label}, guided by the pronunciation notes below.`
+                                                : `Renders a ${voiceoverLanguage.label} track and an English track of the same episode.`}
+                                    </p>
+                                    {speechMode !== 'auto' && (
+                                        <TextareaField
+                                            id="pronunciation-notes"
+                                            label="Pronunciation Notes"
+                                            value={pronunciationNotes}
+                                            onChange={(e) => setPronunciationNotes(e.target.value)}
+                                            rows={3}
+                                            placeholder={'One per line, e.g.\nqissa = QIS-saa, q deep in the throat'}
+                                        />
+                                    )}
+                                </div>
+                            )}
                             <div>
                                 <label htmlFor="speedControl" className="block text-sm font-medium text-text-medium mb-2">
                                     Playback Speed: {playbackRate.toFixed(1)}x
@@ -606,18 +709,28 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                             <div className="flex items-center gap-4">
                                 <button
                                     type="button"
-                                    onClick={onGenerateAudio}
-                                    disabled={isAudioLoading || !editableVoiceoverScript.trim() || editableVoiceoverScript.length > VOICEOVER_CHAR_LIMIT}
+                                    onClick={() => onRunStep('audio')}
+                                    disabled={isPipelineRunning || !editableVoiceoverScript.trim() || editableVoiceoverScript.length > VOICEOVER_CHAR_LIMIT}
                                     className="flex items-center justify-center gap-2 py-3 px-5 rounded-xl text-sm font-semibold text-text-light bg-dark-input shadow-soft-outset hover:text-accent focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed transition"
                                 >
-                                    {isAudioLoading ? (
+                                    {runningStep === 'audio' ? (
                                         <><LoadingSpinnerIcon /> {isTranslating ? 'Translating...' : 'Generating Audio...'}</>
                                     ) : (
                                         <><MicIcon className="w-4 h-4" /> Generate Full Audio</>
                                     )}
                                 </button>
-                                {result?.voiceoverAudio && (
+                                {activeAudioTrack && (
                                     <>
+                                        {audioTracks.length > 1 && (
+                                            <select
+                                                value={activeAudioTrack.language}
+                                                onChange={(e) => setAudioTrackLanguage(e.target.value)}
+                                                className="bg-dark-input rounded-xl shadow-soft-inset py-3 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+                                                title="Audio track"
+                                            >
+                                                {audioTracks.map(track => <option key={track.language} value={track.language}>{getLanguage(track.language).label}</option>)}
+                                            </select>
+                                        )}
                                         <button type="button" onClick={handlePlayPause} className="flex items-center justify-center gap-2 py-3 px-5 rounded-xl text-sm font-semibold text-accent border-2 border-accent/50 hover:bg-accent/10 focus:outline-none transition w-40">
                                             {audioState === 'playing' ? (
                                                 <>
@@ -642,6 +755,21 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                                     </>
                                 )}
                             </div>
+                            {activeAudioTrack && stemSpeakers.length > 1 && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="text-xs text-text-medium">Speaker stems:</span>
+                                    {stemSpeakers.map(speaker => (
+                                        <button
+                                            key={speaker}
+                                            type="button"
+                                            onClick={() => handleDownloadStem(speaker)}
+                                            className="flex items-center gap-1 py-1 px-3 rounded-full text-xs font-semibold text-text-medium bg-dark-card shadow-soft-outset hover:text-accent transition"
+                                        >
+                                            <DownloadIcon className="w-3 h-3" /> {speaker}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                         </>
                         <hr className="border-white/10 my-8" />
                         <div className="space-y-4">
@@ -678,7 +806,7 @@ export const CharacterInputForm: React.FC<CharacterInputFormProps> = ({
                     disabled={isSubmitDisabled}
                     className="w-full flex justify-center items-center py-4 px-4 border-transparent rounded-2xl shadow-lg text-lg font-bold text-dark-bg bg-accent hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-accent disabled:bg-accent/40 disabled:cursor-not-allowed transition-all duration-300 shadow-accent/40 hover:shadow-accent/60 hover:scale-105 transform active:scale-100"
                 >
-                    {isLoading ? (
+                    {runningStep === 'story' ? (
                     <>
                         <LoadingSpinnerIcon />
                         Generating...
@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import type { LibraryCharacter, ReferenceImage } from '../types';
+import { parseTags, searchLibraryCharacters, type LibraryCharacterInput } from '../services/characterLibrary';
+import { generateCharacterPortrait } from '../services/geminiService';
+import { ReferenceImagePicker } from './ReferenceImagePicker';
+import { TrashIcon } from './icons';
+
+interface CharacterLibraryProps {
+  characters: LibraryCharacter[];
+  selectedIds: string[];
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  onSave: (input: LibraryCharacterInput, id?: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  videoStyle: string;
+}
+
+const emptyDraft: { name: string; appearance: string; tags: string; referenceImage?: ReferenceImage } = { name: '', appearance: '', tags: '' };
+
+export const CharacterLibrary: React.FC<CharacterLibraryProps> = ({ characters, selectedIds, setSelectedIds, onSave, onDelete, videoStyle }) => {
+  const [query, setQuery] = useState<string>('');
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const allTags = useMemo(() => Array.from(new Set(characters.flatMap(c => c.tags))).sort(), [characters]);
+  const visibleCharacters = useMemo(() => searchLibraryCharacters(characters, query, activeTags), [characters, query, activeTags]);
+
+  const toggleTag = (tag: string) => {
+    setActiveTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const startEditing = (character?: LibraryCharacter) => {
+    setEditingId(character ? character.id : 'new');
+    setDraft(character ? { name: character.name, appearance: character.appearance, tags: character.tags.join(', '), referenceImage: character.referenceImage } : emptyDraft);
+  };
+
+  const handleSave = async () => {
+    const existing = characters.find(c => c.id === editingId);
+    await onSave({
+      name: draft.name,
+      appearance: draft.appearance,
+      sheet: existing?.sheet,
+      characterSheet: existing?.characterSheet,
+      referenceImage: draft.referenceImage,
+      tags: parseTags(draft.tags),
+      source: existing?.source ?? 'manual',
+    }, existing?.id);
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleDelete = async (character: LibraryCharacter) => {
+    if (!window.confirm(`Remove "${character.name}" from the character library?`)) return;
+    await onDelete(character.id);
+    setSelectedIds(prev => prev.filter(id => id !== character.id));
+  };
+
+  return (
+    <div className="bg-dark-input rounded-2xl p-4 shadow-soft-inset space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-accent">Character Library</h3>
+        <span className="text-xs text-text-medium">{selectedIds.length} selected for this story</span>
+      </div>
+      <p className="text-xs text-text-medium">Selected characters are injected into the story in every mode and keep their saved look.</p>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by name, tag or trait..."
+        className="w-full bg-dark-bg rounded-xl py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+      />
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              className={`px-3 py-1 rounded-full text-xs font-semibold transition ${activeTags.includes(tag) ? 'bg-accent text-dark-bg' : 'bg-dark-bg text-text-medium hover:text-text-light'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-2 max-h-60 overflow-y-auto p-1 -m-1">
+        {visibleCharacters.length === 0 && (
+          <li className="text-sm text-text-medium">{characters.length === 0 ? 'No saved characters yet.' : 'No characters match your search.'}</li>
+        )}
+        {visibleCharacters.map(character => (
+          <li key={character.id} className="p-3 bg-dark-bg rounded-xl flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(character.id)}
+              onChange={() => toggleSelected(character.id)}
+              className="mt-1 accent-accent"
+              aria-label={`Use ${character.name} in this story`}
+            />
+            {character.referenceImage && (
+              <img
+                src={`data:${character.referenceImage.mimeType};base64,${character.referenceImage.data}`}
+                alt={character.name}
+                className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+              />
+            )}
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-semibold text-text-light">{character.name} <span className="text-xs font-normal text-text-medium">({character.source})</span></p>
+              <p className="text-xs text-text-medium line-clamp-2">{character.appearance}</p>
+              {character.tags.length > 0 && <p className="text-xs text-accent mt-1">{character.tags.map(t => `#${t}`).join(' ')}</p>}
+            </div>
+            <button type="button" onClick={() => startEditing(character)} className="text-xs text-text-medium hover:text-accent">Edit</button>
+            <button type="button" onClick={() => handleDelete(character)} className="text-text-medium hover:text-accent" title="Remove from library">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {editingId ? (
+        <div className="space-y-2 p-3 bg-dark-bg rounded-xl">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Name"
+            className="w-full bg-dark-input rounded-lg py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+          />
+          <textarea
+            value={draft.appearance}
+            onChange={(e) => setDraft(prev => ({ ...prev, appearance: e.target.value }))}
+            placeholder="Full appearance details"
+            rows={3}
+            className="w-full bg-dark-input rounded-lg py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+          />
+          <input
+            value={draft.tags}
+            onChange={(e) => setDraft(prev => ({ ...prev, tags: e.target.value }))}
+            placeholder="Tags, comma separated (e.g. sibling, main cast)"
+            className="w-full bg-dark-input rounded-lg py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+          />
+          <ReferenceImagePicker
+            image={draft.referenceImage}
+            onChange={(referenceImage) => setDraft(prev => ({ ...prev, referenceImage }))}
+            onGenerate={draft.appearance.trim() ? () => generateCharacterPortrait(draft.name, draft.appearance, videoStyle) : undefined}
+          />
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setEditingId(null)} className="text-xs text-text-medium">Cancel</button>
+            <button type="button" onClick={handleSave} disabled={!draft.name.trim() || !draft.appearance.trim()} className="text-xs font-semibold text-accent disabled:opacity-50">
+              Save Character
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" onClick={() => startEditing()} className="w-full py-2 px-4 border-2 border-dashed border-text-medium/50 rounded-xl text-sm text-text-medium hover:text-text-light hover:border-text-medium transition-colors">
+          + New Library Character
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { CharacterSheet } from '../types';
+import { CHARACTER_SHEET_TRAITS, characterPromptText } from '../services/characterSheets';
+
+interface CharacterSheetEditorProps {
+  sheets: CharacterSheet[];
+  onChange: (sheets: CharacterSheet[]) => void;
+}
+
+// List traits are edited as comma-separated text.
+type SheetDraft = Record<keyof CharacterSheet, string>;
+
+const toDraft = (sheet: CharacterSheet): SheetDraft => ({
+  ...sheet,
+  accessories: sheet.accessories.join(', '),
+  palette: sheet.palette.join(', '),
+  negativeTraits: sheet.negativeTraits.join(', '),
+});
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const fromDraft = (draft: SheetDraft): CharacterSheet => ({
+  name: draft.name.trim(),
+  age: draft.age.trim(),
+  face: draft.face.trim(),
+  hair: draft.hair.trim(),
+  skin: draft.skin.trim(),
+  attire: draft.attire.trim(),
+  accessories: splitList(draft.accessories),
+  palette: splitList(draft.palette),
+  negativeTraits: splitList(draft.negativeTraits),
+});
+
+export const CharacterSheetEditor: React.FC<CharacterSheetEditorProps> = ({ sheets, onChange }) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<SheetDraft | null>(null);
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(toDraft(sheets[index]));
+  };
+
+  const handleSave = () => {
+    if (editingIndex === null || !draft) return;
+    onChange(sheets.map((sheet, i) => i === editingIndex ? fromDraft(draft) : sheet));
+    setEditingIndex(null);
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {sheets.map((sheet, index) => (
+        <div key={index} className="p-4 bg-dark-bg rounded-xl space-y-2">
+          {editingIndex === index && draft ? (
+            <>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name"
+                className="w-full bg-dark-input rounded-lg py-2 px-3 text-sm font-semibold text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+              />
+              {CHARACTER_SHEET_TRAITS.map(({ key, label, list }) => (
+                <label key={key} className="flex items-center gap-3 text-xs text-text-medium">
+                  <span className="w-28 flex-shrink-0">{label}</span>
+                  <input
+                    value={draft[key]}
+                    onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                    placeholder={list ? 'Comma separated' : ''}
+                    className="flex-grow bg-dark-input rounded-lg py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+                  />
+                </label>
+              ))}
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={() => setEditingIndex(null)} className="text-xs text-text-medium">Cancel</button>
+                <button type="button" onClick={handleSave} disabled={!draft.name.trim()} className="text-xs font-semibold text-accent disabled:opacity-50">
+                  Save Sheet
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <h3 className="text-xl font-display font-bold text-text-light m-0">{sheet.name || 'Unnamed'}</h3>
+                <button type="button" onClick={() => startEditing(index)} disabled={editingIndex !== null} className="text-xs text-text-medium hover:text-accent disabled:opacity-50">Edit</button>
+              </div>
+              <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1 text-sm m-0">
+                {CHARACTER_SHEET_TRAITS.map(({ key, label }) => {
+                  const value = sheet[key];
+                  const text = Array.isArray(value) ? value.join(', ') : value;
+                  return text ? (
+                    <React.Fragment key={key}>
+                      <dt className="text-accent font-semibold">{label}</dt>
+                      <dd className="text-text-light m-0">{text}</dd>
+                    </React.Fragment>
+                  ) : null;
+                })}
+              </dl>
+              <p className="text-xs text-text-medium italic m-0">In prompts: {characterPromptText(sheet)}</p>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
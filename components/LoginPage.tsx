@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { hasStoredApiKey, storeApiKey, unlockApiKey, clearStoredApiKey } from '../services/apiKeyStore';
+import { validateGeminiApiKey } from '../services/providers';
+import { LoadingSpinnerIcon } from './icons';
+
+interface LoginPageProps {
+  onUnlocked: (apiKey: string) => void;
+}
+
+const inputClassName = "w-full bg-dark-input rounded-xl shadow-soft-inset py-3 px-4 text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50 border-transparent transition-all duration-300";
+
+export const LoginPage: React.FC<LoginPageProps> = ({ onUnlocked }) => {
+  const [hasKey, setHasKey] = useState<boolean>(hasStoredApiKey);
+  const [apiKey, setApiKey] = useState<string>('');
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+    try {
+      onUnlocked(await unlockApiKey(passphrase));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to unlock the API key.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < 8) {
+      setError('Please choose a passphrase of at least 8 characters.');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('The passphrases do not match.');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      await validateGeminiApiKey(apiKey.trim());
+    } catch (e) {
+      console.error('API key validation failed:', e);
+      setError('This API key could not be verified. Please check that it is correct and has access to the Gemini API.');
+      setIsWorking(false);
+      return;
+    }
+    try {
+      await storeApiKey(apiKey.trim(), passphrase);
+      onUnlocked(apiKey.trim());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to store the API key.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleForgetKey = () => {
+    if (!window.confirm('Remove the saved API key from this browser? You will need to enter it again.')) return;
+    clearStoredApiKey();
+    setHasKey(false);
+    setPassphrase('');
+    setError(null);
+  };
+
+  return (
+    <div className="max-w-md w-full mx-auto bg-dark-card rounded-3xl p-8 shadow-soft-outset space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold font-display text-text-light">{hasKey ? 'Unlock Your API Key' : 'Enter Your Gemini API Key'}</h2>
+        <p className="text-sm text-text-medium mt-2">
+          {hasKey
+            ? 'Your key is stored encrypted in this browser. Enter your passphrase to use it for this session.'
+            : 'Each team member uses their own key. It is verified, then stored encrypted in this browser with a passphrase only you know.'}
+        </p>
+      </div>
+
+      {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-xl text-sm">{error}</div>}
+
+      {hasKey ? (
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" autoFocus className={inputClassName} />
+          <button type="submit" disabled={isWorking || !passphrase} className="w-full flex justify-center items-center py-3 rounded-2xl font-bold text-dark-bg bg-accent hover:opacity-90 disabled:bg-accent/40 disabled:cursor-not-allowed transition">
+            {isWorking ? <><LoadingSpinnerIcon /> Unlocking...</> : 'Unlock'}
+          </button>
+          <button type="button" onClick={handleForgetKey} className="w-full text-xs text-text-medium hover:text-accent">
+            Use a different key
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleSaveKey} className="space-y-4">
+          <input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder="Gemini API key" autoFocus autoComplete="off" className={inputClassName} />
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Choose a passphrase" autoComplete="new-password" className={inputClassName} />
+          <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase" autoComplete="new-password" className={inputClassName} />
+          <button type="submit" disabled={isWorking || !apiKey.trim() || !passphrase} className="w-full flex justify-center items-center py-3 rounded-2xl font-bold text-dark-bg bg-accent hover:opacity-90 disabled:bg-accent/40 disabled:cursor-not-allowed transition">
+            {isWorking ? <><LoadingSpinnerIcon /> Verifying Key...</> : 'Verify & Save Key'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { LoadingSpinnerIcon } from './icons';
+import type { PipelineStepId, PipelineStepStatus } from '../types';
+import { PIPELINE } from '../services/pipeline';
+
+interface PipelinePanelProps {
+  statuses: Record<PipelineStepId, PipelineStepStatus>;
+  runningStep: PipelineStepId | null;
+  isStopping: boolean;
+  onRunStep: (step: PipelineStepId) => void;
+  onRunAll: () => void;
+  onRunStale: () => void;
+  onStop: () => void;
+}
+
+const statusLabels: Record<PipelineStepStatus, string> = {
+  missing: 'Not run',
+  stale: 'Stale',
+  fresh: 'Done',
+};
+
+const statusClassNames: Record<PipelineStepStatus, string> = {
+  missing: 'bg-dark-bg text-text-medium',
+  stale: 'bg-yellow-900/30 text-yellow-300',
+  fresh: 'bg-green-900/40 text-green-400',
+};
+
+export const PipelinePanel: React.FC<PipelinePanelProps> = ({ statuses, runningStep, isStopping, onRunStep, onRunAll, onRunStale, onStop }) => {
+  const isRunning = runningStep !== null;
+  const hasStaleSteps = PIPELINE.some(step => statuses[step.id] === 'stale' || (statuses[step.id] === 'missing' && !step.optional));
+
+  return (
+    <div className="pt-4 border-t border-white/10 space-y-3">
+      <h3 className="px-4 text-sm font-semibold text-text-light">Pipeline</h3>
+      <ul className="space-y-1">
+        {PIPELINE.map(step => (
+          <li key={step.id} className="flex items-center justify-between gap-2 px-4 py-1">
+            <button
+              type="button"
+              onClick={() => onRunStep(step.id)}
+              disabled={isRunning}
+              className="text-left text-xs text-text-medium hover:text-accent disabled:opacity-50 disabled:hover:text-text-medium"
+              title={`Run ${step.label.toLowerCase()} again`}
+            >
+              {step.label}{step.optional && ' (optional)'}
+            </button>
+            {runningStep === step.id ? (
+              <span className="text-xs py-1 px-2 rounded-lg bg-accent/20 text-accent animate-pulse">Running</span>
+            ) : (
+              <span className={`text-xs py-1 px-2 rounded-lg ${statusClassNames[statuses[step.id]]}`}>{statusLabels[statuses[step.id]]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="px-4 flex flex-col gap-2">
+        {isRunning ? (
+          <button
+            type="button"
+            onClick={onStop}
+            disabled={isStopping}
+            className="flex items-center justify-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
+          >
+            <LoadingSpinnerIcon /> {isStopping ? 'Stopping...' : 'Stop'}
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={onRunAll}
+              className="py-2 px-4 rounded-xl text-sm font-semibold bg-accent text-white shadow-soft-outset transition hover:opacity-90"
+            >
+              Run All
+            </button>
+            <button
+              type="button"
+              onClick={onRunStale}
+              disabled={!hasStaleSteps}
+              className="py-2 px-4 rounded-xl text-sm font-semibold bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
+              title="Run only the steps that are missing or out of date"
+            >
+              Run Stale Steps
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
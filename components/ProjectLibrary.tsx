@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Project, ProjectStep, ProjectVersion } from '../types';
+import { listProjects, renameProject, deleteProject } from '../services/projectStore';
+import { ClockIcon, FolderIcon, TrashIcon } from './icons';
+
+interface ProjectLibraryProps {
+  currentProject: Project | null;
+  onOpenProject: (project: Project) => void;
+  onOpenVersion: (project: Project, version: ProjectVersion) => void;
+  onProjectRenamed: (project: Project) => void;
+  onProjectDeleted: (projectId: string) => void;
+}
+
+export const stepLabels: Record<ProjectStep, string> = {
+  story: 'Story & Prompts',
+  voiceover: 'Voiceover Script',
+  enhance: 'Enhanced Voiceover Script',
+  audio: 'Voiceover Audio',
+  thumbnail: 'Thumbnails & Titles',
+  standaloneThumbnail: 'Standalone Thumbnail',
+  storyboard: 'Storyboard Frames',
+  referenceImage: 'Reference Image',
+  video: 'Video Clips',
+  nativeScript: 'Native Script',
+  characterSheet: 'Character Sheet Edit',
+  sceneRepair: 'Scene Repair',
+  sceneEdit: 'Scene Edit',
+  restore: 'Restored Version',
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProject, onOpenProject, onOpenVersion, onProjectRenamed, onProjectDeleted }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to load saved projects.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, currentProject?.updatedAt]);
+
+  const handleStartRename = (project: Project) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renamingId) return;
+    try {
+      const project = await renameProject(renamingId, renameValue);
+      onProjectRenamed(project);
+      setRenamingId(null);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to rename the project.');
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}" and all of its versions?`)) return;
+    try {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to delete the project.');
+    }
+  };
+
+  return (
+    <div className="bg-dark-card rounded-3xl p-6 shadow-soft-outset space-y-4">
+      <div className="flex items-center gap-2">
+        <FolderIcon className="w-6 h-6 text-accent" />
+        <h2 className="text-2xl font-bold font-display text-text-light">Project Library</h2>
+      </div>
+
+      {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-xl">{error}</div>}
+
+      {isLoading ? (
+        <p className="text-text-medium text-sm">Loading projects...</p>
+      ) : projects.length === 0 ? (
+        <p className="text-text-medium text-sm">No saved projects yet. Every generation is saved here automatically.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ul className="space-y-2 max-h-[40vh] overflow-y-auto p-1 -m-1">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={`p-3 rounded-xl shadow-soft-inset flex items-center justify-between gap-2 ${currentProject?.id === project.id ? 'bg-accent/10' : 'bg-dark-input'}`}
+              >
+                {renamingId === project.id ? (
+                  <form onSubmit={handleRename} className="flex-grow flex gap-2">
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      className="flex-grow bg-dark-bg rounded-lg py-1 px-2 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+                    />
+                    <button type="submit" className="text-xs font-semibold text-accent">Save</button>
+                    <button type="button" onClick={() => setRenamingId(null)} className="text-xs text-text-medium">Cancel</button>
+                  </form>
+                ) : (
+                  <>
+                    <button type="button" onClick={() => onOpenProject(project)} className="flex-grow text-left">
+                      <p className="text-sm font-semibold text-text-light">{project.name}</p>
+                      <p className="text-xs text-text-medium">Updated {formatDate(project.updatedAt)} · {project.versions.length} version(s)</p>
+                    </button>
+                    <button type="button" onClick={() => handleStartRename(project)} className="text-xs text-text-medium hover:text-accent">Rename</button>
+                    <button type="button" onClick={() => handleDelete(project)} className="p-2 rounded-full hover:bg-white/10 text-text-medium hover:text-accent" title="Delete project">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            {currentProject ? (
+              <>
+                <h3 className="text-lg font-display font-bold text-accent mb-2">Version History · {currentProject.name}</h3>
+                <ul className="space-y-2 max-h-[40vh] overflow-y-auto p-1 -m-1">
+                  {[...currentProject.versions].reverse().map((version, index) => (
+                    <li key={version.id} className="p-3 bg-dark-input rounded-xl shadow-soft-inset flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <ClockIcon className="w-4 h-4 text-text-medium" />
+                        <div>
+                          <p className="text-sm text-text-light">{stepLabels[version.step]}{index === 0 && <span className="text-accent"> (current)</span>}</p>
+                          <p className="text-xs text-text-medium">{formatDate(version.createdAt)}</p>
+                        </div>
+                      </div>
+                      <button type="button" onClick={() => onOpenVersion(currentProject, version)} className="text-xs font-semibold text-text-medium hover:text-accent">
+                        Open
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-text-medium text-sm">Open a project to see its version history.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,49 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { CopyIcon, CheckIcon, SparklesIcon, DownloadIcon } from './icons';
-import type { GeneratedResult, GeneratedCharacter } from '../types';
+import { downloadBlob } from '../services/encoding';
+import { getLanguage } from '../services/languages';
+import { localizedTextProps } from './localizedText';
+import type { CharacterSheet, GeneratedResult, GeneratedCharacter, ReferenceImage, SceneFrameStatus, ScenePrompt, SceneTask } from '../types';
+import { StoryboardGrid } from './StoryboardGrid';
+import { VideoClipsPanel } from './VideoClipsPanel';
+import { TimelineExportPanel } from './TimelineExportPanel';
+import { SubtitlePanel } from './SubtitlePanel';
+import { ReferenceImagePicker } from './ReferenceImagePicker';
+import { CharacterSheetEditor } from './CharacterSheetEditor';
+import { SceneList } from './SceneList';
+import { checkScenePrompts } from '../services/promptConsistency';
 
 interface PromptDisplayProps {
   result: GeneratedResult | null;
   isLoading: boolean;
+  partialResult: Partial<GeneratedResult> | null;
+  onCancelGenerate: () => void;
   error: string | null;
   isThumbnailLoading: boolean;
   onGenerateThumbnail: () => void;
+  onSaveCharacterToLibrary: (character: GeneratedCharacter) => Promise<void>;
+  onCharacterReferenceChange: (index: number, referenceImage: ReferenceImage | undefined) => void;
+  onCharacterSheetsChange: (sheets: CharacterSheet[]) => void;
+  onGenerateCharacterPortrait: (character: GeneratedCharacter) => Promise<ReferenceImage>;
+  isStoryboardLoading: boolean;
+  sceneFrameStatuses: Record<number, SceneFrameStatus>;
+  onGenerateStoryboard: () => void;
+  onRegenerateSceneFrame: (sceneNumber: number) => void;
+  videoStyle: string;
+  sceneTask: SceneTask | null;
+  onRepairScene: (sceneNumber: number) => void;
+  onRegenerateScene: (sceneNumber: number) => void;
+  onScenesChange: (scenes: ScenePrompt[]) => void;
+  canUndoSceneEdit: boolean;
+  canRedoSceneEdit: boolean;
+  onUndoSceneEdit: () => void;
+  onRedoSceneEdit: () => void;
+  isVideoLoading: boolean;
+  onGenerateVideos: () => void;
+  onRegenerateVideo: (sceneNumber: number) => void;
+  onCancelVideos: () => void;
+  isNativeScriptLoading: boolean;
+  onGenerateNativeScript: () => void;
 }
 
 const LoadingSkeleton: React.FC = () => (
@@ -44,6 +80,80 @@ const renderMarkdown = (markdown: string) => {
     return <div dangerouslySetInnerHTML={{ __html: html }} />;
 }
 
+// Shows the story and prompts while they are being written; copy, download and follow-up actions wait for the full result.
+const StreamingPreview: React.FC<{ partial: Partial<GeneratedResult> | null; onCancel: () => void }> = ({ partial, onCancel }) => {
+  const localizedStory = partial?.storyLanguage ? partial.storyScripts?.[partial.storyLanguage] : undefined;
+  const localizedProps = localizedTextProps(partial?.storyLanguage ?? '');
+  const hasContent = !!(partial?.characterSheet || partial?.storyScript || localizedStory || partial?.characters?.length || partial?.prompts?.length);
+
+  return (
+    <div className="space-y-6">
+        <div className="flex justify-between items-center">
+            <p className="flex items-center gap-2 text-sm text-text-medium">
+                <span className="w-2 h-2 rounded-full bg-accent animate-pulse" />
+                {partial?.prompts?.length ? `Writing scene ${partial.prompts.length + 1}...` : 'Writing...'}
+            </p>
+            <button
+                type="button"
+                onClick={onCancel}
+                className="py-2 px-4 rounded-xl text-sm font-semibold text-text-medium bg-dark-card shadow-soft-outset hover:text-accent transition"
+            >
+                Cancel
+            </button>
+        </div>
+        {!hasContent && <LoadingSkeleton />}
+        <div className="prose prose-invert prose-sm md:prose-base max-w-none text-text-medium space-y-6">
+            {partial?.characterSheet && (
+                <div>
+                    <h2 className="text-2xl font-display font-bold text-text-light">Character Sheet</h2>
+                    <div className="p-6 bg-dark-input rounded-2xl shadow-soft-inset mt-4">{renderMarkdown(partial.characterSheet)}</div>
+                </div>
+            )}
+            {partial?.storyScript && (
+                <div>
+                    <h2 className="text-2xl font-display font-bold text-text-light">Story Script (English)</h2>
+                    <div className="p-6 bg-dark-input rounded-2xl shadow-soft-inset mt-4">{renderMarkdown(partial.storyScript)}</div>
+                </div>
+            )}
+            {localizedStory && (
+                <div>
+                    <h2 className="text-2xl font-display font-bold text-text-light">Story Script ({getLanguage(partial!.storyLanguage!).label})</h2>
+                    <div className="p-6 bg-dark-input rounded-2xl shadow-soft-inset mt-4">
+                        <p dir={localizedProps.dir} lang={localizedProps.lang} className={`whitespace-pre-wrap ${localizedProps.className ?? ''}`}>{localizedStory}</p>
+                    </div>
+                </div>
+            )}
+            {partial?.characters && partial.characters.length > 0 && (
+                <div>
+                    <h2 className="text-2xl font-display font-bold text-text-light">Generated Character Prompts</h2>
+                    <div className="space-y-4 mt-4">
+                        {partial.characters.map((char, index) => (
+                            <div key={index} className="p-4 bg-dark-input rounded-xl shadow-soft-inset">
+                                <p className="text-sm text-accent font-semibold">{char.name}</p>
+                                <p className="text-text-light mt-2 text-sm leading-relaxed">{char.description}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {partial?.prompts && partial.prompts.length > 0 && (
+                <div>
+                    <h2 className="text-2xl font-display font-bold text-text-light">Video Prompts ({partial.prompts.length})</h2>
+                    <div className="space-y-4 mt-4">
+                        {partial.prompts.map((p) => (
+                            <div key={p.scene_number} className="p-4 bg-dark-input rounded-xl shadow-soft-inset">
+                                <p className="text-sm text-accent font-semibold">Scene {p.scene_number} ({p.start_time_seconds}s - {p.end_time_seconds}s)</p>
+                                <p className="text-text-light mt-2 text-sm leading-relaxed">{p.prompt}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
 const PromptWithCopy: React.FC<{ prompt: string }> = ({ prompt }) => {
     const [isCopied, setIsCopied] = useState(false);
 
@@ -75,8 +185,14 @@ const PromptWithCopy: React.FC<{ prompt: string }> = ({ prompt }) => {
 };
 
 
-const CharacterPrompt: React.FC<{ character: GeneratedCharacter }> = ({ character }) => {
+const CharacterPrompt: React.FC<{
+    character: GeneratedCharacter;
+    onSaveToLibrary: (character: GeneratedCharacter) => Promise<void>;
+    onReferenceChange: (referenceImage: ReferenceImage | undefined) => void;
+    onGeneratePortrait: () => Promise<ReferenceImage>;
+}> = ({ character, onSaveToLibrary, onReferenceChange, onGeneratePortrait }) => {
     const [isCopied, setIsCopied] = useState(false);
+    const [isSaved, setIsSaved] = useState(false);
 
     useEffect(() => {
         if (isCopied) {
@@ -90,10 +206,26 @@ const CharacterPrompt: React.FC<{ character: GeneratedCharacter }> = ({ characte
         setIsCopied(true);
     };
 
+    const handleSave = async () => {
+        await onSaveToLibrary(character);
+        setIsSaved(true);
+    };
+
     return (
         <div className="p-4 bg-dark-input rounded-xl shadow-soft-inset relative group">
             <p className="text-sm text-accent font-semibold">{character.name}</p>
             <p className="text-text-light mt-2 text-sm leading-relaxed">{character.description}</p>
+            <div className="mt-3">
+                <ReferenceImagePicker image={character.referenceImage} onChange={onReferenceChange} onGenerate={onGeneratePortrait} />
+            </div>
+            <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaved}
+                className="mt-3 text-xs font-semibold text-text-medium hover:text-accent disabled:text-green-400"
+            >
+                {isSaved ? 'Saved to Library' : 'Save to Library'}
+            </button>
             <button
                 onClick={handleCopy}
                 className="absolute top-2 right-2 p-2 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition opacity-0 group-hover:opacity-100"
@@ -106,18 +238,36 @@ const CharacterPrompt: React.FC<{ character: GeneratedCharacter }> = ({ characte
     );
 };
 
-const RomanUrduStoryDisplay: React.FC<{ result: GeneratedResult }> = ({ result }) => {
+const LocalizedStoryDisplay: React.FC<{
+    result: GeneratedResult;
+    storyLanguage: string;
+    isNativeScriptLoading: boolean;
+    onGenerateNativeScript: () => void;
+}> = ({ result, storyLanguage, isNativeScriptLoading, onGenerateNativeScript }) => {
     const [isCopied, setIsCopied] = useState(false);
-    
-    const textToCopy = result.storyScriptRomanUrdu || '';
+    const [selectedLanguage, setSelectedLanguage] = useState(storyLanguage);
+
+    const scripts = result.storyScripts ?? {};
+    const languages = [storyLanguage, ...Object.keys(scripts).filter(code => code !== storyLanguage)];
+    const language = scripts[selectedLanguage] ? selectedLanguage : storyLanguage;
+    const text = scripts[language] || '';
+    const nativeScript = getLanguage(storyLanguage).nativeScript;
+    const nativeScriptText = nativeScript ? scripts[nativeScript] : undefined;
+    const textProps = localizedTextProps(language);
 
     const handleCopy = () => {
-        if (textToCopy) {
-            navigator.clipboard.writeText(textToCopy);
+        if (text) {
+            navigator.clipboard.writeText(text);
             setIsCopied(true);
         }
     };
 
+    const handleDownload = () => {
+        if (text) {
+            downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `story_script_${language}.txt`);
+        }
+    };
+
     useEffect(() => {
         if (isCopied) {
             const timer = setTimeout(() => setIsCopied(false), 2000);
@@ -125,20 +275,60 @@ const RomanUrduStoryDisplay: React.FC<{ result: GeneratedResult }> = ({ result }
         }
     }, [isCopied]);
 
+    // Show the native script as soon as it has been written.
+    useEffect(() => {
+        if (nativeScript && nativeScriptText) setSelectedLanguage(nativeScript);
+    }, [nativeScript, nativeScriptText]);
+
     return (
         <div>
             <div className="flex justify-between items-center">
-                <h2 className="text-2xl font-display font-bold text-text-light">Roman Urdu Story</h2>
-                <button
-                    onClick={handleCopy}
-                    className="p-3 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition"
-                    title="Copy Roman Urdu Story"
-                >
-                    {isCopied ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
-                </button>
+                <h2 className="text-2xl font-display font-bold text-text-light">{getLanguage(language).label} Story</h2>
+                <div className="flex items-center gap-2">
+                    {languages.length > 1 && (
+                        <div className="flex bg-dark-input p-1 rounded-full space-x-1 shadow-soft-inset text-xs font-semibold">
+                            {languages.map(code => (
+                                <button
+                                    key={code}
+                                    type="button"
+                                    onClick={() => setSelectedLanguage(code)}
+                                    className={`py-1.5 px-3 rounded-full transition ${localizedTextProps(code).className ?? ''} ${code === language ? 'bg-dark-card shadow-soft-outset text-accent' : 'text-text-medium hover:text-text-light'}`}
+                                >
+                                    {getLanguage(code).nativeName}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {nativeScript && !nativeScriptText && (
+                        <button
+                            type="button"
+                            onClick={onGenerateNativeScript}
+                            disabled={isNativeScriptLoading}
+                            className="py-2 px-3 rounded-xl text-xs font-semibold text-text-medium bg-dark-card shadow-soft-outset hover:text-accent disabled:opacity-50 transition"
+                            title={`Write the story in ${getLanguage(nativeScript).promptName}`}
+                        >
+                            {isNativeScriptLoading ? `Writing ${getLanguage(nativeScript).label} Script...` : `${getLanguage(nativeScript).label} Script`}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleCopy}
+                        className="p-3 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition"
+                        title={`Copy ${getLanguage(language).label} Story`}
+                    >
+                        {isCopied ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
+                    </button>
+                    <button
+                        onClick={handleDownload}
+                        className="p-3 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition"
+                        aria-label="Download story"
+                        title={`Download ${getLanguage(language).label} Story (.txt)`}
+                    >
+                        <DownloadIcon className="w-5 h-5" />
+                    </button>
+                </div>
             </div>
             <div className="p-6 bg-dark-input rounded-2xl shadow-soft-inset mt-4 space-y-4">
-                <p className="text-text-light/90 leading-relaxed">{result.storyScriptRomanUrdu}</p>
+                <p dir={textProps.dir} lang={textProps.lang} className={`text-text-light/90 whitespace-pre-wrap ${textProps.className ?? 'leading-relaxed'} ${textProps.dir === 'rtl' ? 'text-xl text-right' : ''}`}>{text}</p>
             </div>
         </div>
     )
@@ -175,10 +365,16 @@ const TitleSuggestionItem: React.FC<{ title: string }> = ({ title }) => {
 };
 
 
-export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading, error, isThumbnailLoading, onGenerateThumbnail }) => {
+export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading, partialResult, onCancelGenerate, error, isThumbnailLoading, onGenerateThumbnail, onSaveCharacterToLibrary, onCharacterReferenceChange, onCharacterSheetsChange, onGenerateCharacterPortrait, isStoryboardLoading, sceneFrameStatuses, onGenerateStoryboard, onRegenerateSceneFrame, videoStyle, sceneTask, onRepairScene, onRegenerateScene, onScenesChange, canUndoSceneEdit, canRedoSceneEdit, onUndoSceneEdit, onRedoSceneEdit, isVideoLoading, onGenerateVideos, onRegenerateVideo, onCancelVideos, isNativeScriptLoading, onGenerateNativeScript }) => {
   const [isCharacterSheetCopied, setIsCharacterSheetCopied] = useState(false);
   const [isStoryScriptCopied, setIsStoryScriptCopied] = useState(false);
   const [isPromptsCopied, setIsPromptsCopied] = useState(false);
+
+  const promptIssues = useMemo(
+    () => checkScenePrompts(result?.prompts ?? [], videoStyle, result?.characterSheets),
+    [result?.prompts, result?.characterSheets, videoStyle]
+  );
+  const scenesWithIssues = Object.keys(promptIssues).length;
   
   const LoadingSpinnerIcon: React.FC = () => (
     <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -281,7 +477,7 @@ export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading,
   
   const renderContent = () => {
     if (isLoading) {
-      return <LoadingSkeleton />;
+      return <StreamingPreview partial={partialResult} onCancel={onCancelGenerate} />;
     }
     if (error) {
       return <div className="text-red-400 bg-red-900/50 p-4 rounded-xl">{error}</div>;
@@ -312,7 +508,9 @@ export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading,
                         </div>
                     </div>
                     <div className="p-6 bg-dark-input rounded-2xl shadow-soft-inset mt-4">
-                        {renderMarkdown(result.characterSheet)}
+                        {result.characterSheets?.length
+                            ? <CharacterSheetEditor sheets={result.characterSheets} onChange={onCharacterSheetsChange} />
+                            : renderMarkdown(result.characterSheet)}
                     </div>
                 </div>
             )}
@@ -345,14 +543,27 @@ export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading,
                 </div>
             )}
 
-            {result.storyScriptRomanUrdu && <RomanUrduStoryDisplay result={result} />}
+            {result.storyLanguage && result.storyScripts?.[result.storyLanguage] && (
+                <LocalizedStoryDisplay
+                    result={result}
+                    storyLanguage={result.storyLanguage}
+                    isNativeScriptLoading={isNativeScriptLoading}
+                    onGenerateNativeScript={onGenerateNativeScript}
+                />
+            )}
 
             {result.characters && result.characters.length > 0 && (
                 <div>
                     <h2 className="text-2xl font-display font-bold text-text-light">Generated Character Prompts</h2>
                     <div className="space-y-4 mt-4">
                         {result.characters.map((char, index) => (
-                            <CharacterPrompt key={index} character={char} />
+                            <CharacterPrompt
+                                key={index}
+                                character={char}
+                                onSaveToLibrary={onSaveCharacterToLibrary}
+                                onReferenceChange={(referenceImage) => onCharacterReferenceChange(index, referenceImage)}
+                                onGeneratePortrait={() => onGenerateCharacterPortrait(char)}
+                            />
                         ))}
                     </div>
                 </div>
@@ -361,7 +572,12 @@ export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading,
             {result.prompts && result.prompts.length > 0 && (
               <div>
                 <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-2xl font-display font-bold text-text-light">Video Prompts ({result.prompts.length})</h2>
+                    <div>
+                        <h2 className="text-2xl font-display font-bold text-text-light m-0">Video Prompts ({result.prompts.length})</h2>
+                        {scenesWithIssues > 0 && (
+                            <p className="text-xs text-yellow-400 m-0 mt-1">{scenesWithIssues} {scenesWithIssues === 1 ? 'scene breaks' : 'scenes break'} the prompt rules</p>
+                        )}
+                    </div>
                     <div className="flex items-center gap-2">
                          <button
                             onClick={handleCopyAllPrompts}
@@ -380,15 +596,48 @@ export const PromptDisplay: React.FC<PromptDisplayProps> = ({ result, isLoading,
                     </div>
                 </div>
                 <div className="space-y-4 max-h-[40vh] overflow-y-auto p-1 -m-1 custom-scrollbar">
-                    {result.prompts.map((p) => (
-                        <div key={p.scene_number} className="p-4 bg-dark-input rounded-xl shadow-soft-inset">
-                            <p className="text-sm text-accent font-semibold">Scene {p.scene_number} ({p.start_time_seconds}s - {p.end_time_seconds}s)</p>
-                            <p className="text-text-light mt-2 text-sm leading-relaxed">{p.prompt}</p>
-                        </div>
-                    ))}
+                    <SceneList
+                        scenes={result.prompts}
+                        issues={promptIssues}
+                        sceneTask={sceneTask}
+                        isLocked={isStoryboardLoading || isVideoLoading}
+                        onChange={onScenesChange}
+                        onRepair={onRepairScene}
+                        onRegenerate={onRegenerateScene}
+                        canUndo={canUndoSceneEdit}
+                        canRedo={canRedoSceneEdit}
+                        onUndo={onUndoSceneEdit}
+                        onRedo={onRedoSceneEdit}
+                    />
                 </div>
               </div>
             )}
+
+            {result.prompts && result.prompts.length > 0 && (
+                <StoryboardGrid
+                    prompts={result.prompts}
+                    frames={result.sceneFrames || {}}
+                    statuses={sceneFrameStatuses}
+                    isGenerating={isStoryboardLoading}
+                    onGenerateAll={onGenerateStoryboard}
+                    onRegenerate={onRegenerateSceneFrame}
+                />
+            )}
+
+            {result.prompts && result.prompts.length > 0 && (
+                <VideoClipsPanel
+                    prompts={result.prompts}
+                    videos={result.sceneVideos || {}}
+                    isGenerating={isVideoLoading}
+                    onGenerateAll={onGenerateVideos}
+                    onRegenerate={onRegenerateVideo}
+                    onCancel={onCancelVideos}
+                />
+            )}
+
+            {result.prompts && result.prompts.length > 0 && <TimelineExportPanel result={result} />}
+
+            {result.voiceover && <SubtitlePanel result={result} />}
             
             {(result.characterSheet || result.storyScript || result.thumbnail3d || result.standaloneThumbnail) && (
                  <div>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { availableProviders, defaultProviderSettings, getProviderSettings, setProviderSettings, type AITask, type OpenAICompatibleSettings, type ProviderId, type ProviderSettings } from '../services/providers';
+import { CogIcon } from './icons';
+
+const taskLabels: Record<AITask, string> = {
+  text: 'Text & Story Generation',
+  image: 'Image Generation',
+  speech: 'Speech Synthesis',
+  video: 'Video Generation',
+};
+
+const connectionFields: { key: keyof OpenAICompatibleSettings; label: string; placeholder: string; type?: string }[] = [
+  { key: 'baseUrl', label: 'Base URL', placeholder: defaultProviderSettings.openaiCompatible.baseUrl },
+  { key: 'apiKey', label: 'API Key (optional, not saved)', placeholder: 'Leave empty for local servers', type: 'password' },
+  { key: 'textModel', label: 'Text Model', placeholder: defaultProviderSettings.openaiCompatible.textModel },
+  { key: 'imageModel', label: 'Image Model', placeholder: defaultProviderSettings.openaiCompatible.imageModel },
+  { key: 'speechModel', label: 'Speech Model', placeholder: defaultProviderSettings.openaiCompatible.speechModel },
+  { key: 'videoModel', label: 'Video Model', placeholder: defaultProviderSettings.openaiCompatible.videoModel },
+];
+
+interface ProviderSettingsPanelProps {
+  onSaved?: (settings: ProviderSettings) => void;
+}
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ onSaved }) => {
+  const [draft, setDraft] = useState(getProviderSettings);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const usesOpenAICompatible = Object.values(draft.tasks).includes('openaiCompatible');
+
+  const handleTaskChange = (task: AITask, providerId: ProviderId) => {
+    setDraft(prev => ({ ...prev, tasks: { ...prev.tasks, [task]: providerId } }));
+    setIsSaved(false);
+  };
+
+  const handleConnectionChange = (key: keyof OpenAICompatibleSettings, value: string) => {
+    setDraft(prev => ({ ...prev, openaiCompatible: { ...prev.openaiCompatible, [key]: value } }));
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    setProviderSettings(draft);
+    setIsSaved(true);
+    onSaved?.(draft);
+  };
+
+  return (
+    <div className="bg-dark-card rounded-3xl p-6 shadow-soft-outset space-y-4">
+      <div className="flex items-center gap-2">
+        <CogIcon className="w-6 h-6 text-accent" />
+        <h2 className="text-2xl font-bold font-display text-text-light">AI Providers</h2>
+      </div>
+      <p className="text-sm text-text-medium">Choose which backend serves each task. Use the OpenAI-compatible provider to point at a local stand-in server during development.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(Object.keys(taskLabels) as AITask[]).map(task => (
+          <div key={task}>
+            <label htmlFor={`provider-${task}`} className="block text-sm font-medium text-text-medium mb-2">{taskLabels[task]}</label>
+            <select
+              id={`provider-${task}`}
+              value={draft.tasks[task]}
+              onChange={(e) => handleTaskChange(task, e.target.value as ProviderId)}
+              className="w-full bg-dark-input rounded-xl shadow-soft-inset py-3 px-4 text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50 border-transparent appearance-none"
+            >
+              {availableProviders.map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {usesOpenAICompatible && (
+        <div className="bg-dark-input rounded-2xl p-4 shadow-soft-inset grid grid-cols-1 md:grid-cols-2 gap-4">
+          {connectionFields.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`openai-${field.key}`} className="block text-sm font-medium text-text-medium mb-2">{field.label}</label>
+              <input
+                id={`openai-${field.key}`}
+                type={field.type || 'text'}
+                value={draft.openaiCompatible[field.key]}
+                onChange={(e) => handleConnectionChange(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className="w-full bg-dark-bg rounded-xl py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-4">
+        {isSaved && <span className="text-sm text-green-400">Saved</span>}
+        <button
+          type="button"
+          onClick={handleSave}
+          className="py-2 px-5 rounded-xl text-sm font-semibold text-dark-bg bg-accent hover:opacity-90 transition"
+        >
+          Save Provider Settings
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import type { ReferenceImage } from '../types';
+import { readImageFile } from '../services/referenceImages';
+import { LoadingSpinnerIcon, PhotoIcon, TrashIcon } from './icons';
+
+interface ReferenceImagePickerProps {
+  image?: ReferenceImage;
+  onChange: (image: ReferenceImage | undefined) => void;
+  // Omit to hide the "Generate" action (e.g. before the character has an appearance).
+  onGenerate?: () => Promise<ReferenceImage>;
+}
+
+export const ReferenceImagePicker: React.FC<ReferenceImagePickerProps> = ({ image, onChange, onGenerate }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(await readImageFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the image.');
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!onGenerate) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      onChange(await onGenerate());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to generate a reference portrait.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="w-16 h-16 flex-shrink-0 rounded-xl bg-dark-bg shadow-soft-inset overflow-hidden flex items-center justify-center">
+        {isGenerating ? (
+          <LoadingSpinnerIcon />
+        ) : image ? (
+          <img src={`data:${image.mimeType};base64,${image.data}`} alt="Reference portrait" className="w-full h-full object-cover" />
+        ) : (
+          <PhotoIcon className="w-6 h-6 text-text-medium/40" />
+        )}
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-text-medium">Reference image keeps this character's look identical across frames and thumbnails.</p>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isGenerating} className="text-xs font-semibold text-text-medium hover:text-accent disabled:opacity-40">
+            Upload
+          </button>
+          {onGenerate && (
+            <button type="button" onClick={handleGenerate} disabled={isGenerating} className="text-xs font-semibold text-text-medium hover:text-accent disabled:opacity-40">
+              {image ? 'Regenerate' : 'Generate'}
+            </button>
+          )}
+          {image && (
+            <button type="button" onClick={() => onChange(undefined)} disabled={isGenerating} className="text-text-medium hover:text-accent disabled:opacity-40" title="Remove reference image">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+      <input ref={fileInputRef} type="file" accept="image/png,image/jpeg,image/webp" onChange={handleFileChange} className="hidden" />
+    </div>
+  );
+};
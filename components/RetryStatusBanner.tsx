@@ -0,0 +1,31 @@
+import React from 'react';
+import { LoadingSpinnerIcon } from './icons';
+import type { ApiErrorKind, RetryStatus } from '../services/apiRequests';
+
+interface RetryStatusBannerProps {
+  statuses: RetryStatus[];
+}
+
+const reasons: Partial<Record<ApiErrorKind, string>> = {
+  quota: 'The API rate limit was reached',
+  timeout: 'The AI took too long to answer',
+  malformedJson: 'The AI answered with a malformed response',
+  invalidResponse: "The AI's response did not match the expected format",
+  transient: 'The AI service is busy',
+};
+
+export const RetryStatusBanner: React.FC<RetryStatusBannerProps> = ({ statuses }) => {
+  if (statuses.length === 0) return null;
+  const [latest] = [...statuses].sort((a, b) => b.retryAt - a.retryAt);
+  const others = statuses.length - 1;
+
+  return (
+    <div className="flex items-center gap-3 p-4 rounded-xl bg-yellow-900/30 text-sm text-yellow-300" role="status">
+      <LoadingSpinnerIcon />
+      <p className="m-0">
+        {reasons[latest.kind] ?? 'A request failed'} during {latest.context}. Retrying (attempt {latest.attempt} of {latest.maxAttempts})...
+        {others > 0 && ` ${others} more ${others === 1 ? 'request is' : 'requests are'} waiting to retry.`}
+      </p>
+    </div>
+  );
+};
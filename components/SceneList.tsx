@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { SparklesIcon, TrashIcon } from './icons';
+import type { PromptIssue, ScenePrompt, SceneTask } from '../types';
+import { deleteScene, insertScene, mergeScenes, moveScene, splitScene, updateScenePrompt } from '../services/sceneEditing';
+
+interface SceneListProps {
+  scenes: ScenePrompt[];
+  issues: Record<number, PromptIssue[]>;
+  sceneTask: SceneTask | null;
+  isLocked: boolean; // frames or clips are being generated for the current scene numbers
+  onChange: (scenes: ScenePrompt[]) => void;
+  onRepair: (sceneNumber: number) => void;
+  onRegenerate: (sceneNumber: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+interface SceneDraft {
+  index: number;
+  text: string;
+  isNew: boolean; // inserted at `index` on save, instead of replacing that scene's prompt
+}
+
+const actionClassName = "text-xs text-text-medium hover:text-accent disabled:opacity-50 disabled:hover:text-text-medium";
+
+const DraftEditor: React.FC<{ draft: SceneDraft; onChange: (draft: SceneDraft) => void; onSave: () => void; onCancel: () => void }> = ({ draft, onChange, onSave, onCancel }) => (
+  <div className="p-4 bg-dark-input rounded-xl shadow-soft-inset space-y-2">
+    {draft.isNew && <p className="text-sm text-accent font-semibold m-0">New scene</p>}
+    <textarea
+      value={draft.text}
+      onChange={(e) => onChange({ ...draft, text: e.target.value })}
+      rows={5}
+      autoFocus
+      placeholder="Describe the scene, or write a rough idea and regenerate it afterwards."
+      className="w-full bg-dark-bg rounded-lg p-3 text-sm text-text-light leading-relaxed focus:outline-none focus:ring-2 focus:ring-accent/50 custom-scrollbar"
+    />
+    <div className="flex justify-end gap-3">
+      <button type="button" onClick={onCancel} className="text-xs text-text-medium">Cancel</button>
+      <button type="button" onClick={onSave} disabled={!draft.text.trim()} className="text-xs font-semibold text-accent disabled:opacity-50">
+        {draft.isNew ? 'Add Scene' : 'Save Scene'}
+      </button>
+    </div>
+  </div>
+);
+
+export const SceneList: React.FC<SceneListProps> = ({ scenes, issues, sceneTask, isLocked, onChange, onRepair, onRegenerate, canUndo, canRedo, onUndo, onRedo }) => {
+  const [draft, setDraft] = useState<SceneDraft | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Edits renumber scenes, so they wait for running rewrites and generations to finish.
+  const isBusy = isLocked || sceneTask !== null;
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const text = draft.text.trim();
+    onChange(draft.isNew ? insertScene(scenes, draft.index, text) : updateScenePrompt(scenes, draft.index, text));
+    setDraft(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveScene(scenes, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const renderDraft = (index: number, isNew: boolean) => draft && draft.index === index && draft.isNew === isNew && (
+    <DraftEditor draft={draft} onChange={setDraft} onSave={handleSaveDraft} onCancel={() => setDraft(null)} />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-xs text-text-medium">
+        <span>{isBusy ? 'Editing is paused while scenes are being generated.' : 'Drag scenes to reorder them.'}</span>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={onUndo} disabled={!canUndo || isBusy} className={actionClassName}>Undo</button>
+          <button type="button" onClick={onRedo} disabled={!canRedo || isBusy} className={actionClassName}>Redo</button>
+        </div>
+      </div>
+      {scenes.map((p, index) => {
+        const sceneIssues = issues[p.scene_number];
+        const isRewriting = sceneTask?.sceneNumber === p.scene_number;
+        return (
+          <React.Fragment key={p.scene_number}>
+            {renderDraft(index, true)}
+            {draft && !draft.isNew && draft.index === index ? renderDraft(index, false) : (
+              <div
+                draggable={!isBusy && !draft}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => { e.preventDefault(); setDropIndex(index); }}
+                onDragLeave={() => setDropIndex(null)}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                className={`p-4 bg-dark-input rounded-xl shadow-soft-inset transition ${!isBusy && !draft ? 'cursor-grab' : ''} ${dragIndex === index ? 'opacity-50' : ''} ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-accent/50' : ''}`}
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <p className="text-sm text-accent font-semibold m-0">Scene {p.scene_number} ({p.start_time_seconds}s - {p.end_time_seconds}s)</p>
+                  <div className="flex flex-wrap justify-end items-center gap-x-3 gap-y-1">
+                    <button type="button" onClick={() => setDraft({ index, text: p.prompt, isNew: false })} disabled={isBusy || !!draft} className={actionClassName}>Edit</button>
+                    <button type="button" onClick={() => onRegenerate(p.scene_number)} disabled={isBusy || !!draft} className={actionClassName}>
+                      {isRewriting && sceneTask?.action === 'regenerate' ? 'Regenerating...' : 'Regenerate'}
+                    </button>
+                    <button type="button" onClick={() => onChange(splitScene(scenes, index))} disabled={isBusy || !!draft} className={actionClassName}>Split</button>
+                    <button type="button" onClick={() => onChange(mergeScenes(scenes, index))} disabled={isBusy || !!draft || index === scenes.length - 1} className={actionClassName} title="Merge with the next scene">Merge</button>
+                    <button type="button" onClick={() => setDraft({ index: index + 1, text: '', isNew: true })} disabled={isBusy || !!draft} className={actionClassName} title="Insert a scene after this one">Insert</button>
+                    <button type="button" onClick={() => onChange(deleteScene(scenes, index))} disabled={isBusy || !!draft || scenes.length === 1} className={actionClassName} aria-label={`Delete scene ${p.scene_number}`} title="Delete scene">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className={`text-text-light mt-2 text-sm leading-relaxed ${isRewriting ? 'animate-pulse' : ''}`}>{p.prompt}</p>
+                {p.narration && <p className="text-text-medium mt-2 text-xs italic leading-relaxed">“{p.narration}”</p>}
+                {sceneIssues && (
+                  <div className="mt-3 p-3 rounded-lg bg-yellow-900/30 text-xs text-yellow-300 space-y-1">
+                    <ul className="list-disc pl-4 m-0 space-y-1">
+                      {sceneIssues.map((issue, i) => <li key={i} className="m-0">{issue.message}</li>)}
+                    </ul>
+                    <button
+                      type="button"
+                      onClick={() => onRepair(p.scene_number)}
+                      disabled={isBusy || !!draft}
+                      className="flex items-center gap-1 font-semibold text-accent hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                      <SparklesIcon className="w-4 h-4" />
+                      {isRewriting && sceneTask?.action === 'repair' ? 'Repairing...' : 'Repair this scene'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+      {renderDraft(scenes.length, true)}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { ScenePrompt, SceneFrameStatus } from '../types';
+import { createZip } from '../services/zip';
+import { base64ToBytes, downloadBlob } from '../services/encoding';
+import { DownloadIcon, LoadingSpinnerIcon, PhotoIcon } from './icons';
+
+interface StoryboardGridProps {
+  prompts: ScenePrompt[];
+  frames: Record<number, string>;
+  statuses: Record<number, SceneFrameStatus>;
+  isGenerating: boolean;
+  onGenerateAll: () => void;
+  onRegenerate: (sceneNumber: number) => void;
+}
+
+const padSceneNumber = (sceneNumber: number) => String(sceneNumber).padStart(3, '0');
+
+export const StoryboardGrid: React.FC<StoryboardGridProps> = ({ prompts, frames, statuses, isGenerating, onGenerateAll, onRegenerate }) => {
+  const frameCount = prompts.filter(p => frames[p.scene_number]).length;
+  const missingCount = prompts.length - frameCount;
+
+  const handleDownloadZip = () => {
+    const entries = prompts
+      .filter(p => frames[p.scene_number])
+      .map(p => ({ name: `scene_${padSceneNumber(p.scene_number)}.jpg`, data: base64ToBytes(frames[p.scene_number]) }));
+    const promptsText = prompts.map(p => `${p.scene_number}. (${p.start_time_seconds}s - ${p.end_time_seconds}s) ${p.prompt}`).join('\n\n');
+    entries.push({ name: 'prompts.txt', data: new TextEncoder().encode(promptsText) });
+    downloadBlob(createZip(entries), 'storyboard.zip');
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-text-light">Storyboard ({frameCount}/{prompts.length})</h2>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onGenerateAll}
+            disabled={isGenerating || missingCount === 0}
+            className="flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold text-text-light bg-dark-bg shadow-soft-outset hover:text-accent disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            {isGenerating ? <><LoadingSpinnerIcon /> Generating...</> : <><PhotoIcon className="w-4 h-4" /> {frameCount === 0 ? 'Generate Storyboard' : `Generate ${missingCount} Missing`}</>}
+          </button>
+          <button
+            type="button"
+            onClick={handleDownloadZip}
+            disabled={frameCount === 0}
+            className="p-3 rounded-full bg-dark-card shadow-soft-outset text-text-medium hover:text-accent transition disabled:opacity-50"
+            title="Download Storyboard (.zip)"
+          >
+            <DownloadIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 xl:grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto p-1 -m-1">
+        {prompts.map(p => {
+          const frame = frames[p.scene_number];
+          const status = statuses[p.scene_number];
+          const isBusy = status?.state === 'queued' || status?.state === 'generating';
+          return (
+            <div key={p.scene_number} className="bg-dark-input rounded-xl shadow-soft-inset overflow-hidden">
+              <div className="aspect-video bg-dark-bg flex items-center justify-center">
+                {frame && !isBusy ? (
+                  <img src={`data:image/jpeg;base64,${frame}`} alt={`Scene ${p.scene_number}`} className="w-full h-full object-cover" />
+                ) : isBusy ? (
+                  <div className="flex items-center text-xs text-text-medium">
+                    <LoadingSpinnerIcon /> {status.state === 'queued' ? 'Queued' : 'Generating'}
+                  </div>
+                ) : status?.state === 'error' ? (
+                  <p className="text-xs text-red-400 p-2 text-center">{status.error}</p>
+                ) : (
+                  <PhotoIcon className="w-8 h-8 text-text-medium/40" />
+                )}
+              </div>
+              <div className="flex items-center justify-between px-3 py-2">
+                <span className="text-xs text-accent font-semibold">Scene {p.scene_number}</span>
+                <button
+                  type="button"
+                  onClick={() => onRegenerate(p.scene_number)}
+                  disabled={isBusy || isGenerating}
+                  className="text-xs text-text-medium hover:text-accent disabled:opacity-40"
+                >
+                  {status?.state === 'error' ? 'Retry' : frame ? 'Regenerate' : 'Generate'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { GeneratedResult } from '../types';
+import { buildSubtitleTracks, findActiveCueIndex, toSrt, toVtt } from '../services/subtitles';
+import { ENGLISH, getLanguage } from '../services/languages';
+import { localizedTextProps } from './localizedText';
+import { createWavFile, VOICEOVER_SAMPLE_RATE } from '../services/audio';
+import { base64ToBytes, downloadBlob } from '../services/encoding';
+import { listVoiceoverAudioTracks } from '../services/voiceoverTracks';
+import { DownloadIcon } from './icons';
+
+interface SubtitlePanelProps {
+  result: GeneratedResult;
+}
+
+export const SubtitlePanel: React.FC<SubtitlePanelProps> = ({ result }) => {
+  const audioTracks = useMemo(() => listVoiceoverAudioTracks(result), [result.voiceoverAudio, result.voiceoverSegments, result.voiceoverAudioLanguage, result.voiceoverAudioTracks, result.voiceoverLanguage]);
+  const [audioTrackLanguage, setAudioTrackLanguage] = useState<string | null>(null);
+  const audioTrack = audioTracks.find(t => t.language === audioTrackLanguage) ?? audioTracks[0];
+  const tracks = useMemo(() => buildSubtitleTracks(result, audioTrack), [result.voiceover, result.voiceoverLanguage, result.voiceoverTranslations, audioTrack, result.prompts]);
+  const [trackLanguage, setTrackLanguage] = useState<string>(ENGLISH);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeCueRef = useRef<HTMLLIElement>(null);
+
+  const track = tracks.find(t => t.language === trackLanguage) ?? tracks[0];
+  const activeIndex = track ? findActiveCueIndex(track.cues, currentTime) : -1;
+
+  const audioUrl = useMemo(() => audioTrack
+    ? URL.createObjectURL(createWavFile(base64ToBytes(audioTrack.audio), VOICEOVER_SAMPLE_RATE, 1, 16))
+    : null, [audioTrack?.audio]);
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  useEffect(() => {
+    activeCueRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  if (!track) return null;
+  const cueTextProps = localizedTextProps(track.language);
+
+  const handleDownload = (format: 'srt' | 'vtt') => {
+    const text = format === 'srt' ? toSrt(track.cues) : toVtt(track.cues);
+    downloadBlob(new Blob([text], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `subtitles_${track.language}.${format}`);
+  };
+
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    audioRef.current.play();
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-text-light">Subtitles</h2>
+        <div className="flex items-center gap-2">
+          {audioTracks.length > 1 && (
+            <select
+              value={audioTrack.language}
+              onChange={(e) => setAudioTrackLanguage(e.target.value)}
+              className="bg-dark-input rounded-xl shadow-soft-inset py-2 px-3 text-sm text-text-light focus:outline-none"
+              title="Audio track the cues are timed against"
+            >
+              {audioTracks.map(t => <option key={t.language} value={t.language}>{getLanguage(t.language).label} audio</option>)}
+            </select>
+          )}
+          {tracks.length > 1 && (
+            <select
+              value={track.language}
+              onChange={(e) => setTrackLanguage(e.target.value)}
+              className="bg-dark-input rounded-xl shadow-soft-inset py-2 px-3 text-sm text-text-light focus:outline-none"
+            >
+              {tracks.map(t => <option key={t.language} value={t.language}>{t.label}</option>)}
+            </select>
+          )}
+          {(['srt', 'vtt'] as const).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleDownload(format)}
+              className="flex items-center gap-1 py-2 px-3 rounded-xl text-xs font-semibold text-text-medium bg-dark-card shadow-soft-outset hover:text-accent transition"
+              title={`Download ${track.label} subtitles (.${format})`}
+            >
+              <DownloadIcon className="w-4 h-4" /> .{format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 bg-dark-input rounded-2xl shadow-soft-inset space-y-3">
+        {audioUrl ? (
+          <>
+            <audio ref={audioRef} src={audioUrl} controls onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)} className="w-full" />
+            <p dir={cueTextProps.dir} lang={cueTextProps.lang} className={`min-h-[3rem] text-center text-text-light font-semibold bg-dark-bg rounded-xl p-3 ${cueTextProps.className ?? ''}`}>
+              {activeIndex >= 0 ? track.cues[activeIndex].text : ''}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-text-medium">No voiceover audio yet, so cue times follow the scene timings. Generate the audio for narration-accurate timing and a preview.</p>
+        )}
+        <ul className="space-y-1 max-h-60 overflow-y-auto p-1 -m-1">
+          {track.cues.map((cue, i) => (
+            <li key={i} ref={i === activeIndex ? activeCueRef : undefined}>
+              <button
+                type="button"
+                onClick={() => seekTo(cue.start)}
+                className={`w-full text-left p-2 rounded-lg text-sm transition ${i === activeIndex ? 'bg-accent/20 text-accent' : 'text-text-medium hover:text-text-light'}`}
+              >
+                <span className="text-xs font-mono mr-2">{cue.start.toFixed(1)}s</span><span {...cueTextProps}>{cue.text}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import type { GeneratedResult } from '../types';
+import { renderTimelineToMp4, type TimelineScene } from '../services/timelineRenderer';
+import { getVideoClip } from '../services/videoClips';
+import { downloadBlob } from '../services/encoding';
+import { getLanguage } from '../services/languages';
+import { listVoiceoverAudioTracks } from '../services/voiceoverTracks';
+import { DownloadIcon, LoadingSpinnerIcon } from './icons';
+
+interface TimelineExportPanelProps {
+  result: GeneratedResult;
+}
+
+export const TimelineExportPanel: React.FC<TimelineExportPanelProps> = ({ result }) => {
+  const [useClips, setUseClips] = useState<boolean>(true);
+  const [kenBurns, setKenBurns] = useState<boolean>(true);
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState<number>(0.5);
+  const [audioTrackLanguage, setAudioTrackLanguage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const prompts = result.prompts ?? [];
+  const frameCount = prompts.filter(p => result.sceneFrames?.[p.scene_number]).length;
+  const clipCount = prompts.filter(p => result.sceneVideos?.[p.scene_number]?.clipId).length;
+  const isExporting = progress !== null;
+  const audioTracks = listVoiceoverAudioTracks(result);
+  const audioTrack = audioTracks.find(track => track.language === audioTrackLanguage) ?? audioTracks[0];
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setError(null);
+    try {
+      const scenes: TimelineScene[] = await Promise.all(prompts.map(async p => {
+        const clipId = useClips ? result.sceneVideos?.[p.scene_number]?.clipId : undefined;
+        const clip = clipId ? await getVideoClip(clipId) : undefined;
+        return {
+          sceneNumber: p.scene_number,
+          start: p.start_time_seconds,
+          end: p.end_time_seconds,
+          image: result.sceneFrames?.[p.scene_number],
+          clip: clip?.blob,
+        };
+      }));
+      const mp4 = await renderTimelineToMp4(scenes, audioTrack?.audio, {
+        crossfadeSeconds,
+        kenBurns,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(mp4, audioTracks.length > 1 ? `pikaza_video_${audioTrack.language}.mp4` : 'pikaza_video.mp4');
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'Failed to export the video.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-display font-bold text-text-light mb-4">Export Video</h2>
+      <div className="p-4 bg-dark-input rounded-2xl shadow-soft-inset space-y-4">
+        <p className="text-xs text-text-medium">
+          Lays the {frameCount} storyboard frame(s){clipCount > 0 ? ` and ${clipCount} clip(s)` : ''} on the timeline at their scene times
+          {audioTrack ? ' and mixes in the voiceover.' : '. Generate the voiceover audio first to include narration.'}
+        </p>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-text-medium">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={useClips} onChange={(e) => setUseClips(e.target.checked)} disabled={isExporting || clipCount === 0} className="accent-accent" />
+            Use video clips
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={kenBurns} onChange={(e) => setKenBurns(e.target.checked)} disabled={isExporting} className="accent-accent" />
+            Ken Burns motion
+          </label>
+          <label className="flex items-center gap-2">
+            Crossfade
+            <select
+              value={crossfadeSeconds}
+              onChange={(e) => setCrossfadeSeconds(Number(e.target.value))}
+              disabled={isExporting}
+              className="bg-dark-bg rounded-lg py-1 px-2 text-text-light focus:outline-none"
+            >
+              {[0, 0.25, 0.5, 1].map(s => <option key={s} value={s}>{s === 0 ? 'Off' : `${s}s`}</option>)}
+            </select>
+          </label>
+          {audioTracks.length > 1 && (
+            <label className="flex items-center gap-2">
+              Voiceover
+              <select
+                value={audioTrack.language}
+                onChange={(e) => setAudioTrackLanguage(e.target.value)}
+                disabled={isExporting}
+                className="bg-dark-bg rounded-lg py-1 px-2 text-text-light focus:outline-none"
+              >
+                {audioTracks.map(track => <option key={track.language} value={track.language}>{getLanguage(track.language).label}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {isExporting && (
+          <div className="w-full h-2 bg-dark-bg rounded-full overflow-hidden">
+            <div className="h-full bg-accent transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end">
+          {isExporting ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold text-text-light bg-dark-bg shadow-soft-outset hover:text-accent transition"
+            >
+              <LoadingSpinnerIcon /> Rendering {Math.round(progress * 100)}% · Cancel
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={frameCount + clipCount === 0}
+              className="flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold text-dark-bg bg-accent hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              <DownloadIcon className="w-4 h-4" /> Export MP4
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
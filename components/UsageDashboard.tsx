@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { UsageRecord } from '../types';
+import { defaultUsageSettings, getUsageSettings, monthOf, setUsageSettings, subscribeUsage, summarizeUsage, type PriceTable, type UsageSummary } from '../services/usageTracking';
+import { stepLabels } from './ProjectLibrary';
+import { ChartBarIcon } from './icons';
+
+const priceFields: { key: keyof PriceTable; label: string }[] = [
+  { key: 'inputTokensPerMillion', label: 'Input tokens (per million)' },
+  { key: 'outputTokensPerMillion', label: 'Output tokens (per million)' },
+  { key: 'perImage', label: 'Per image' },
+  { key: 'perAudioSecond', label: 'Per second of speech' },
+  { key: 'perVideoSecond', label: 'Per second of video' },
+];
+
+const formatCost = (dollars: number) => `$${dollars.toFixed(dollars > 0 && dollars < 0.01 ? 4 : 2)}`;
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const describeUsage = (summary: UsageSummary) => [
+  summary.inputTokens + summary.outputTokens > 0 && `${(summary.inputTokens + summary.outputTokens).toLocaleString()} tokens`,
+  summary.images > 0 && `${summary.images} image(s)`,
+  summary.audioSeconds > 0 && `${(summary.audioSeconds / 60).toFixed(1)} min of speech`,
+  summary.videoSeconds > 0 && `${summary.videoSeconds}s of video`,
+].filter(Boolean).join(' · ');
+
+function groupBy<K>(records: UsageRecord[], keyOf: (record: UsageRecord) => K): Map<K, UsageRecord[]> {
+  const groups = new Map<K, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return groups;
+}
+
+export const UsageDashboard: React.FC = () => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [settings, setSettings] = useState(getUsageSettings);
+  const [draft, setDraft] = useState(getUsageSettings);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => subscribeUsage(setRecords), []);
+
+  const currentMonth = monthOf(Date.now());
+  const monthSummary = useMemo(
+    () => summarizeUsage(records.filter(record => monthOf(record.createdAt) === currentMonth), settings.prices),
+    [records, currentMonth, settings]
+  );
+
+  const months = useMemo(
+    () => [...groupBy(records, record => monthOf(record.createdAt))]
+      .map(([month, monthRecords]) => ({ month, summary: summarizeUsage(monthRecords, settings.prices) }))
+      .sort((a, b) => b.month.localeCompare(a.month)),
+    [records, settings]
+  );
+
+  // Newest episodes first; calls made outside any project are listed last.
+  const episodes = useMemo(
+    () => [...groupBy(records, record => record.projectId)]
+      .map(([projectId, projectRecords]) => ({
+        projectId,
+        name: projectRecords[projectRecords.length - 1].projectName || 'Untitled project',
+        lastUsedAt: projectRecords[projectRecords.length - 1].createdAt,
+        summary: summarizeUsage(projectRecords, settings.prices),
+        steps: [...groupBy(projectRecords, record => record.step)]
+          .map(([step, stepRecords]) => ({ step, cost: summarizeUsage(stepRecords, settings.prices).cost }))
+          .sort((a, b) => b.cost - a.cost),
+      }))
+      .sort((a, b) => (a.projectId ? 0 : 1) - (b.projectId ? 0 : 1) || b.lastUsedAt - a.lastUsedAt),
+    [records, settings]
+  );
+
+  const budget = settings.monthlyBudget;
+  const isOverBudget = budget !== null && monthSummary.cost >= budget;
+
+  const handlePriceChange = (key: keyof PriceTable, value: string) => {
+    setDraft(prev => ({ ...prev, prices: { ...prev.prices, [key]: Number(value) || 0 } }));
+    setIsSaved(false);
+  };
+
+  const handleBudgetChange = (value: string) => {
+    setDraft(prev => ({ ...prev, monthlyBudget: value.trim() === '' ? null : Math.max(0, Number(value) || 0) }));
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    setUsageSettings(draft);
+    setSettings(draft);
+    setIsSaved(true);
+  };
+
+  const handleResetPrices = () => {
+    setDraft(prev => ({ ...prev, prices: defaultUsageSettings.prices }));
+    setIsSaved(false);
+  };
+
+  return (
+    <div className="bg-dark-card rounded-3xl p-6 shadow-soft-outset space-y-4">
+      <div className="flex items-center gap-2">
+        <ChartBarIcon className="w-6 h-6 text-accent" />
+        <h2 className="text-2xl font-bold font-display text-text-light">Usage & Costs</h2>
+      </div>
+      <p className="text-sm text-text-medium">Costs are estimated from the price table below and what each AI call reported using. Your provider's bill is the final word.</p>
+
+      <div className="bg-dark-input rounded-2xl p-4 shadow-soft-inset space-y-2">
+        <div className="flex items-baseline justify-between gap-4">
+          <p className="text-sm text-text-medium">This month</p>
+          <p className="text-2xl font-bold text-text-light">
+            {formatCost(monthSummary.cost)}
+            {budget !== null && <span className="text-sm font-normal text-text-medium"> of {formatCost(budget)}</span>}
+          </p>
+        </div>
+        {budget !== null && (
+          <div className="h-2 rounded-full bg-dark-bg overflow-hidden">
+            <div
+              className={`h-full ${isOverBudget ? 'bg-red-400' : 'bg-accent'}`}
+              style={{ width: `${budget > 0 ? Math.min(100, monthSummary.cost / budget * 100) : 100}%` }}
+            />
+          </div>
+        )}
+        <p className="text-xs text-text-medium">{describeUsage(monthSummary) || 'Nothing used yet.'}</p>
+        {isOverBudget && (
+          <p className="text-sm text-yellow-300 bg-yellow-900/30 p-3 rounded-xl">
+            The monthly budget is used up. Audio, images and video clips are blocked until next month or until you raise the budget.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-text-light">Episodes</h3>
+          {episodes.length === 0 ? (
+            <p className="text-text-medium text-sm">No usage recorded yet.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[40vh] overflow-y-auto p-1 -m-1">
+              {episodes.map(episode => (
+                <li key={episode.projectId ?? 'none'} className="p-3 rounded-xl bg-dark-input shadow-soft-inset space-y-2">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-sm font-semibold text-text-light">{episode.projectId ? episode.name : 'Not in a project'}</p>
+                    <p className="text-sm font-semibold text-accent">{formatCost(episode.summary.cost)}</p>
+                  </div>
+                  <p className="text-xs text-text-medium">{describeUsage(episode.summary)}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {episode.steps.map(({ step, cost }) => (
+                      <span key={step ?? 'other'} className="text-xs py-1 px-2 rounded-lg bg-dark-bg text-text-medium">
+                        {step ? stepLabels[step] : 'Other'}: {formatCost(cost)}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-text-light">Monthly Totals</h3>
+          {months.length === 0 ? (
+            <p className="text-text-medium text-sm">No usage recorded yet.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[40vh] overflow-y-auto p-1 -m-1">
+              {months.map(({ month, summary }) => (
+                <li key={month} className="p-3 rounded-xl bg-dark-input shadow-soft-inset flex items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm text-text-light">{formatMonth(month)}</p>
+                    <p className="text-xs text-text-medium">{summary.calls} call(s) · {describeUsage(summary)}</p>
+                  </div>
+                  <p className="text-sm font-semibold text-text-light">{formatCost(summary.cost)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-dark-input rounded-2xl p-4 shadow-soft-inset grid grid-cols-1 md:grid-cols-3 gap-4">
+        {priceFields.map(field => (
+          <div key={field.key}>
+            <label htmlFor={`price-${field.key}`} className="block text-sm font-medium text-text-medium mb-2">{field.label} ($)</label>
+            <input
+              id={`price-${field.key}`}
+              type="number"
+              min={0}
+              step="any"
+              value={draft.prices[field.key]}
+              onChange={(e) => handlePriceChange(field.key, e.target.value)}
+              className="w-full bg-dark-bg rounded-xl py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+            />
+          </div>
+        ))}
+        <div>
+          <label htmlFor="usage-budget" className="block text-sm font-medium text-text-medium mb-2">Monthly budget ($)</label>
+          <input
+            id="usage-budget"
+            type="number"
+            min={0}
+            step="any"
+            value={draft.monthlyBudget ?? ''}
+            onChange={(e) => handleBudgetChange(e.target.value)}
+            placeholder="No limit"
+            className="w-full bg-dark-bg rounded-xl py-2 px-3 text-sm text-text-light focus:outline-none focus:ring-2 focus:ring-accent/50"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-4">
+        {isSaved && <span className="text-sm text-green-400">Saved</span>}
+        <button
+          type="button"
+          onClick={handleResetPrices}
+          className="text-sm text-text-medium hover:text-accent"
+        >
+          Reset Prices
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="py-2 px-5 rounded-xl text-sm font-semibold text-dark-bg bg-accent hover:opacity-90 transition"
+        >
+          Save Prices & Budget
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { ScenePrompt, SceneVideo } from '../types';
+import { getVideoClip } from '../services/videoClips';
+import { LoadingSpinnerIcon, PlayIcon } from './icons';
+
+interface VideoClipsPanelProps {
+  prompts: ScenePrompt[];
+  videos: Record<number, SceneVideo>;
+  isGenerating: boolean;
+  onGenerateAll: () => void;
+  onRegenerate: (sceneNumber: number) => void;
+  onCancel: () => void;
+}
+
+// Loads stored clips as object URLs, revoking them when the clip ids change or the panel unmounts.
+const useClipUrls = (clipIds: string[]): Record<string, string> => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = clipIds.join(',');
+
+  useEffect(() => {
+    let isCancelled = false;
+    const created: string[] = [];
+    Promise.all(clipIds.map(async id => {
+      const clip = await getVideoClip(id);
+      if (!clip) return null;
+      const url = URL.createObjectURL(clip.blob);
+      created.push(url);
+      return [id, url] as const;
+    })).then(entries => {
+      if (!isCancelled) setUrls(Object.fromEntries(entries.filter((e): e is readonly [string, string] => e !== null)));
+    }).catch(e => console.error('Failed to load video clips:', e));
+
+    return () => {
+      isCancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [key]);
+
+  return urls;
+};
+
+export const VideoClipsPanel: React.FC<VideoClipsPanelProps> = ({ prompts, videos, isGenerating, onGenerateAll, onRegenerate, onCancel }) => {
+  const clipIds = prompts.map(p => videos[p.scene_number]?.clipId).filter((id): id is string => !!id);
+  const clipUrls = useClipUrls(clipIds);
+  const doneCount = prompts.filter(p => videos[p.scene_number]?.state === 'done').length;
+  const resumableCount = prompts.filter(p => ['pending', 'cancelled'].includes(videos[p.scene_number]?.state ?? '')).length;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-text-light">Video Clips ({doneCount}/{prompts.length})</h2>
+        {isGenerating ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold text-text-light bg-dark-bg shadow-soft-outset hover:text-accent transition"
+          >
+            <LoadingSpinnerIcon /> Cancel
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onGenerateAll}
+            disabled={doneCount === prompts.length}
+            className="flex items-center gap-2 py-2 px-4 rounded-xl text-sm font-semibold text-text-light bg-dark-bg shadow-soft-outset hover:text-accent disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            <PlayIcon className="w-4 h-4" />
+            {resumableCount > 0 ? `Resume ${resumableCount} Clip(s)` : doneCount === 0 ? 'Generate Clips' : `Generate ${prompts.length - doneCount} Missing`}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-text-medium mb-3">Clips render on the provider and can take a few minutes each. Cancelling stops waiting; the jobs can be resumed later.</p>
+
+      <div className="grid grid-cols-2 xl:grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto p-1 -m-1">
+        {prompts.map(p => {
+          const video = videos[p.scene_number];
+          const url = video?.clipId ? clipUrls[video.clipId] : undefined;
+          return (
+            <div key={p.scene_number} className="bg-dark-input rounded-xl shadow-soft-inset overflow-hidden">
+              <div className="aspect-video bg-dark-bg flex items-center justify-center">
+                {video?.state === 'done' && url ? (
+                  <video src={url} controls preload="metadata" className="w-full h-full object-cover" />
+                ) : video?.state === 'pending' ? (
+                  <div className="flex items-center text-xs text-text-medium">
+                    <LoadingSpinnerIcon /> Rendering{video.progress ? ` ${Math.round(video.progress)}%` : '...'}
+                  </div>
+                ) : video?.state === 'error' ? (
+                  <p className="text-xs text-red-400 p-2 text-center">{video.error}</p>
+                ) : video?.state === 'cancelled' ? (
+                  <p className="text-xs text-text-medium">Paused</p>
+                ) : (
+                  <PlayIcon className="w-8 h-8 text-text-medium/40" />
+                )}
+              </div>
+              <div className="flex items-center justify-between px-3 py-2">
+                <span className="text-xs text-accent font-semibold">Scene {p.scene_number}</span>
+                <button
+                  type="button"
+                  onClick={() => onRegenerate(p.scene_number)}
+                  disabled={isGenerating}
+                  className="text-xs text-text-medium hover:text-accent disabled:opacity-40"
+                >
+                  {video?.state === 'error' ? 'Retry' : video?.state === 'done' ? 'Regenerate' : 'Generate'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
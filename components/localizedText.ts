@@ -0,0 +1,16 @@
+import { getLanguage } from '../services/languages';
+
+// Nastaliq stacks letters diagonally, so it needs far more line height than other scripts.
+const scriptClassNames: Record<string, string> = {
+  ur: 'font-urdu leading-[2.4]',
+};
+
+/**
+ * Attributes for an element showing text in the given language: its direction, the lang attribute (so the
+ * browser shapes and breaks the text correctly) and the font for its script.
+ */
+export const localizedTextProps = (languageCode: string): { dir?: 'rtl'; lang: string; className?: string } => ({
+  dir: getLanguage(languageCode).rtl ? 'rtl' : undefined,
+  lang: languageCode,
+  className: scriptClassNames[languageCode],
+});
@@ -0,0 +1,191 @@
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+    generateStoryAndPrompts,
+    repairScenePrompt,
+    regenerateScenePrompt,
+    generateVoiceoverScript,
+    enhanceVoiceoverScript,
+    generateDialogueScript,
+    translateScriptToEnglish,
+    translateLinesToEnglish,
+    transliterateLines,
+    generateAudioFromScript,
+    generateThumbnailsAndTitles,
+    generateStandaloneThumbnail,
+    generateSceneFrame,
+    generateCharacterPortrait,
+    startSceneVideo,
+    checkSceneVideos,
+    type CallOptions,
+} from '../services/geminiService';
+import { setGeminiApiKey } from '../services/providers';
+import type { UsageEntry, UsageScope } from '../services/usageTracking';
+import { createRateLimiter } from './rateLimiter';
+import {
+    InvalidRequestError,
+    asCharacterSheet,
+    asGenerateOptions,
+    asList,
+    asNumber,
+    asOptionalReferenceImage,
+    asOptionalString,
+    asPromptIssue,
+    asReferenceImages,
+    asScenePrompt,
+    asString,
+    asStringList,
+} from './requestValidation';
+
+const PORT = Number(process.env.PORT || 8787);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE || 20);
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const STATIC_DIR = path.resolve(process.cwd(), 'dist');
+
+// The proxy mirrors the public generation functions one-to-one: POST /api/<name> with { "args": [...] }. Each entry
+// checks the arguments it was sent before calling the function, and passes on the request's call options.
+const endpoints: Record<string, (args: unknown[], options: CallOptions) => Promise<unknown>> = {
+    generateStoryAndPrompts: (args, options) => generateStoryAndPrompts(asGenerateOptions(args[0], 'options'), options),
+    repairScenePrompt: (args, options) => repairScenePrompt(
+        asString(args[0], 'scenePrompt'), asList(args[1], 'issues', asPromptIssue), asString(args[2], 'videoStyle'), asList(args[3], 'sheets', asCharacterSheet), options),
+    regenerateScenePrompt: (args, options) => regenerateScenePrompt(
+        asList(args[0], 'scenes', asScenePrompt), asNumber(args[1], 'index'), asOptionalString(args[2], 'storyScript'), asString(args[3], 'videoStyle'), asString(args[4], 'characters'), options),
+    generateVoiceoverScript: (args, options) => generateVoiceoverScript(asString(args[0], 'storyScript'), asNumber(args[1], 'targetCharacterCount'), asString(args[2], 'language'), options),
+    enhanceVoiceoverScript: (args, options) => enhanceVoiceoverScript(asString(args[0], 'script'), options),
+    generateDialogueScript: (args, options) => generateDialogueScript(
+        asString(args[0], 'storyScript'), asStringList(args[1], 'speakers'), asNumber(args[2], 'targetCharacterCount'), asString(args[3], 'language'), options),
+    translateScriptToEnglish: (args, options) => translateScriptToEnglish(asString(args[0], 'script'), asString(args[1], 'fromLanguage'), options),
+    translateLinesToEnglish: (args, options) => translateLinesToEnglish(asStringList(args[0], 'lines'), asString(args[1], 'fromLanguage'), options),
+    transliterateLines: (args, options) => transliterateLines(asStringList(args[0], 'lines'), asString(args[1], 'fromLanguage'), asString(args[2], 'toLanguage'), options),
+    generateAudioFromScript: (args, options) => generateAudioFromScript(asString(args[0], 'script'), asString(args[1], 'voiceName'), asOptionalString(args[2], 'instructions'), options),
+    generateThumbnailsAndTitles: (args, options) => generateThumbnailsAndTitles(
+        asString(args[0], 'characterSheet'), asOptionalString(args[1], 'storyScript'), asReferenceImages(args[2], 'referenceImages'), options),
+    generateStandaloneThumbnail: (args, options) => generateStandaloneThumbnail(asString(args[0], 'userPrompt'), options),
+    generateSceneFrame: (args, options) => generateSceneFrame(asString(args[0], 'scenePrompt'), asReferenceImages(args[1], 'referenceImages'), options),
+    generateCharacterPortrait: (args, options) => generateCharacterPortrait(asString(args[0], 'name'), asString(args[1], 'appearance'), asString(args[2], 'videoStyle'), options),
+    startSceneVideo: (args, options) => startSceneVideo(
+        asString(args[0], 'scenePrompt'), asNumber(args[1], 'durationSeconds'), asOptionalReferenceImage(args[2], 'startFrame'), options),
+    checkSceneVideos: args => checkSceneVideos(asStringList(args[0], 'operationIds')),
+};
+
+const contentTypes: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.json': 'application/json',
+};
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+    console.error('GEMINI_API_KEY must be set for the proxy server.');
+    process.exit(1);
+}
+setGeminiApiKey(apiKey);
+
+const rateLimiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+
+const usageEntries = (scope: UsageScope): UsageEntry[] =>
+    scope.records.map(({ operation, kind, inputTokens, outputTokens, images, audioSeconds, videoSeconds }) =>
+        ({ operation, kind, inputTokens, outputTokens, images, audioSeconds, videoSeconds }));
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new Error('Request body is too large.');
+        }
+        chunks.push(chunk);
+    }
+    return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : {};
+}
+
+async function handleApi(req: http.IncomingMessage, res: http.ServerResponse, name: string) {
+    const endpoint = endpoints[name];
+    if (!endpoint) {
+        sendJson(res, 404, { error: `Unknown endpoint "${name}".` });
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendJson(res, 405, { error: 'Only POST is supported.' }, { Allow: 'POST' });
+        return;
+    }
+
+    // The proxy has no sign-in, so the limit is per client address: anything the client sends could be changed
+    // on every request to dodge it.
+    const clientAddress = req.socket.remoteAddress ?? 'unknown';
+    const retryAfter = rateLimiter.take(clientAddress);
+    if (retryAfter > 0) {
+        sendJson(res, 429, { error: 'Rate limit exceeded.' }, { 'Retry-After': String(retryAfter) });
+        return;
+    }
+
+    let args: unknown[];
+    try {
+        const body = await readJsonBody(req);
+        const bodyArgs = body !== null && typeof body === 'object' ? (body as { args?: unknown }).args : undefined;
+        args = Array.isArray(bodyArgs) ? bodyArgs : [];
+    } catch (e) {
+        sendJson(res, 400, { error: e instanceof Error ? e.message : 'Invalid request body.' });
+        return;
+    }
+
+    // Requests from several users run at once, so each one's usage is collected in its own scope and sent back with
+    // the response, for the user's browser to file under its project.
+    const usage: UsageScope = { attribution: {}, records: [] };
+    try {
+        const result = await endpoint(args, { usage });
+        sendJson(res, 200, { result, usage: usageEntries(usage) });
+    } catch (e) {
+        if (e instanceof InvalidRequestError) {
+            sendJson(res, 400, { error: e.message });
+            return;
+        }
+        // geminiService already turns API failures into user-facing messages. Calls made before the failure were
+        // still billed.
+        sendJson(res, 502, { error: e instanceof Error ? e.message : 'The generation request failed.', usage: usageEntries(usage) });
+    }
+}
+
+// Serves the built Vite app so the proxy can be deployed as a single process.
+async function serveStatic(req: http.IncomingMessage, res: http.ServerResponse) {
+    const urlPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    const filePath = path.join(STATIC_DIR, path.normalize(urlPath));
+    if (!filePath.startsWith(STATIC_DIR)) {
+        sendJson(res, 403, { error: 'Forbidden.' });
+        return;
+    }
+    for (const candidate of [filePath, path.join(STATIC_DIR, 'index.html')]) {
+        try {
+            const data = await fs.readFile(candidate);
+            res.writeHead(200, { 'Content-Type': contentTypes[path.extname(candidate)] || 'application/octet-stream' });
+            res.end(data);
+            return;
+        } catch {
+            // Fall through to the SPA entry point.
+        }
+    }
+    sendJson(res, 404, { error: 'Not found. Run "npm run build" to serve the app from this server.' });
+}
+
+const server = http.createServer((req, res) => {
+    const match = req.url?.match(/^\/api\/([A-Za-z]+)\/?(?:\?.*)?$/);
+    const handler = match ? handleApi(req, res, match[1]) : serveStatic(req, res);
+    handler.catch(e => {
+        console.error('Unhandled proxy error:', e);
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error.' });
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`Pikaza proxy listening on http://localhost:${PORT} (${RATE_LIMIT_PER_MINUTE} requests/minute per client address)`);
+});
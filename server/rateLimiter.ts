@@ -0,0 +1,23 @@
+/**
+ * A sliding-window limiter keyed by client: each client may make `limit` requests per `windowMs`.
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+    const requests = new Map<string, number[]>();
+
+    return {
+        /**
+         * Records a request for a client if it is within its allowance.
+         * @returns 0 when allowed, otherwise the number of seconds until the next request is allowed.
+         */
+        take(clientId: string, now = Date.now()): number {
+            const recent = (requests.get(clientId) ?? []).filter(time => now - time < windowMs);
+            if (recent.length >= limit) {
+                requests.set(clientId, recent);
+                return Math.ceil((recent[0] + windowMs - now) / 1000);
+            }
+            recent.push(now);
+            requests.set(clientId, recent);
+            return 0;
+        },
+    };
+}
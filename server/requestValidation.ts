@@ -0,0 +1,141 @@
+import type { GenerateOptions } from '../services/geminiService';
+import type { CharacterProfile, CharacterSheet, LanguageSettings, PromptIssue, ReferenceImage, ScenePrompt } from '../types';
+
+// Proxy request bodies come from anyone who can reach the server, so every argument is checked against the shape
+// the generation function expects before it is called.
+
+export class InvalidRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidRequestError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export function asString(value: unknown, name: string): string {
+    if (typeof value !== 'string') {
+        throw new InvalidRequestError(`"${name}" must be text.`);
+    }
+    return value;
+}
+
+export const asOptionalString = (value: unknown, name: string): string | undefined =>
+    value === undefined || value === null ? undefined : asString(value, name);
+
+export function asNumber(value: unknown, name: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new InvalidRequestError(`"${name}" must be a number.`);
+    }
+    return value;
+}
+
+export function asList<T>(value: unknown, name: string, item: (value: unknown, name: string) => T): T[] {
+    if (!Array.isArray(value)) {
+        throw new InvalidRequestError(`"${name}" must be a list.`);
+    }
+    return value.map((entry, i) => item(entry, `${name}[${i}]`));
+}
+
+export const asStringList = (value: unknown, name: string): string[] => asList(value, name, asString);
+
+function asOneOf<T extends string>(value: unknown, name: string, options: readonly T[]): T {
+    if (!options.includes(value as T)) {
+        throw new InvalidRequestError(`"${name}" must be one of ${options.join(', ')}.`);
+    }
+    return value as T;
+}
+
+function asRecord(value: unknown, name: string): Record<string, unknown> {
+    if (!isRecord(value)) {
+        throw new InvalidRequestError(`"${name}" must be an object.`);
+    }
+    return value;
+}
+
+export function asReferenceImage(value: unknown, name: string): ReferenceImage {
+    const image = asRecord(value, name);
+    return { data: asString(image.data, `${name}.data`), mimeType: asString(image.mimeType, `${name}.mimeType`) };
+}
+
+export const asOptionalReferenceImage = (value: unknown, name: string): ReferenceImage | undefined =>
+    value === undefined || value === null ? undefined : asReferenceImage(value, name);
+
+export const asReferenceImages = (value: unknown, name: string): ReferenceImage[] =>
+    value === undefined || value === null ? [] : asList(value, name, asReferenceImage);
+
+export function asCharacterSheet(value: unknown, name: string): CharacterSheet {
+    const sheet = asRecord(value, name);
+    return {
+        name: asString(sheet.name, `${name}.name`),
+        age: asString(sheet.age, `${name}.age`),
+        face: asString(sheet.face, `${name}.face`),
+        hair: asString(sheet.hair, `${name}.hair`),
+        skin: asString(sheet.skin, `${name}.skin`),
+        attire: asString(sheet.attire, `${name}.attire`),
+        accessories: asStringList(sheet.accessories, `${name}.accessories`),
+        palette: asStringList(sheet.palette, `${name}.palette`),
+        negativeTraits: asStringList(sheet.negativeTraits, `${name}.negativeTraits`),
+    };
+}
+
+export function asCharacterProfile(value: unknown, name: string): CharacterProfile {
+    const profile = asRecord(value, name);
+    return {
+        name: asString(profile.name, `${name}.name`),
+        appearance: asString(profile.appearance, `${name}.appearance`),
+        sheet: asOptionalString(profile.sheet, `${name}.sheet`),
+        characterSheet: profile.characterSheet === undefined || profile.characterSheet === null
+            ? undefined
+            : asCharacterSheet(profile.characterSheet, `${name}.characterSheet`),
+        referenceImage: asOptionalReferenceImage(profile.referenceImage, `${name}.referenceImage`),
+    };
+}
+
+export function asScenePrompt(value: unknown, name: string): ScenePrompt {
+    const scene = asRecord(value, name);
+    return {
+        scene_number: asNumber(scene.scene_number, `${name}.scene_number`),
+        start_time_seconds: asNumber(scene.start_time_seconds, `${name}.start_time_seconds`),
+        end_time_seconds: asNumber(scene.end_time_seconds, `${name}.end_time_seconds`),
+        prompt: asString(scene.prompt, `${name}.prompt`),
+        narration: asOptionalString(scene.narration, `${name}.narration`),
+    };
+}
+
+const PROMPT_ISSUE_KINDS: PromptIssue['kind'][] = ['style', 'suffix', 'missingTrait', 'contradiction', 'unnamedCharacter'];
+
+export function asPromptIssue(value: unknown, name: string): PromptIssue {
+    const issue = asRecord(value, name);
+    return {
+        kind: asOneOf(issue.kind, `${name}.kind`, PROMPT_ISSUE_KINDS),
+        message: asString(issue.message, `${name}.message`),
+        character: asOptionalString(issue.character, `${name}.character`),
+    };
+}
+
+function asLanguageSettings(value: unknown, name: string): LanguageSettings {
+    const languages = asRecord(value, name);
+    return {
+        story: asString(languages.story, `${name}.story`),
+        voiceover: asString(languages.voiceover, `${name}.voiceover`),
+        prompts: asString(languages.prompts, `${name}.prompts`),
+    };
+}
+
+const STORY_MODES = ['detail', 'fromTitle', 'fromVoiceover'] as const;
+const STORY_LENGTHS = ['Short', 'Medium', 'Long'] as const;
+
+export function asGenerateOptions(value: unknown, name: string): GenerateOptions {
+    const options = asRecord(value, name);
+    return {
+        characters: asList(options.characters, `${name}.characters`, asCharacterProfile),
+        numPrompts: asNumber(options.numPrompts, `${name}.numPrompts`),
+        mode: asOneOf(options.mode, `${name}.mode`, STORY_MODES),
+        sceneOrTitleOrVoiceover: asString(options.sceneOrTitleOrVoiceover, `${name}.sceneOrTitleOrVoiceover`),
+        videoStyle: asString(options.videoStyle, `${name}.videoStyle`),
+        storyLength: asOneOf(options.storyLength, `${name}.storyLength`, STORY_LENGTHS),
+        languages: asLanguageSettings(options.languages, `${name}.languages`),
+    };
+}
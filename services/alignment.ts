@@ -0,0 +1,166 @@
+import type { ScenePrompt } from '../types';
+import { decodeVoiceover } from './audio';
+
+// Extra weight (in characters) for the pause a narrator makes at the end of a sentence or clause.
+const SENTENCE_PAUSE_WEIGHT = 8;
+const CLAUSE_PAUSE_WEIGHT = 3;
+const MIN_SCENE_SECONDS = 1.5;
+// Two subtitle lines of ~42 characters; longer sentences are broken at a clause or word boundary.
+const MAX_CUE_CHARS = 84;
+
+interface Word {
+    text: string;
+    weight: number;
+    endsSentence: boolean;
+    endsClause: boolean;
+}
+
+export interface TimedText {
+    text: string;
+    start: number;
+    end: number;
+}
+
+const splitWords = (script: string): Word[] =>
+    script.split(/\s+/).filter(Boolean).map(text => {
+        const endsSentence = /[.!?۔؟।]["')\]]*$/.test(text);
+        const endsClause = /[,;:،]["')\]]*$/.test(text);
+        return {
+            text,
+            // Speech time tracks spoken characters far better than word counts do.
+            weight: text.replace(/[^\p{L}\p{N}]/gu, '').length + 1 + (endsSentence ? SENTENCE_PAUSE_WEIGHT : endsClause ? CLAUSE_PAUSE_WEIGHT : 0),
+            endsSentence,
+            endsClause,
+        };
+    });
+
+/**
+ * Splits the narration into one segment per scene, preferring sentence boundaries, and estimates when each
+ * segment is spoken from the total audio duration.
+ * @param script The exact text that was sent to the speech model.
+ * @param sceneCount The number of segments to produce.
+ * @param durationSeconds The length of the spoken audio.
+ * @returns One segment per scene with its narration text and start/end times.
+ */
+export function segmentNarration(script: string, sceneCount: number, durationSeconds: number): TimedText[] {
+    const words = splitWords(script);
+    if (sceneCount <= 0) return [];
+    if (words.length === 0) {
+        return Array.from({ length: sceneCount }, (_, i) => ({ text: '', start: (i * durationSeconds) / sceneCount, end: ((i + 1) * durationSeconds) / sceneCount }));
+    }
+
+    const cumulative: number[] = [];
+    words.reduce((sum, word, i) => (cumulative[i] = sum + word.weight), 0);
+    const totalWeight = cumulative[cumulative.length - 1];
+
+    // Cut after word index `boundaries[i]` for scene i. Each cut lands on the sentence end nearest to the
+    // proportional target when one is close enough, otherwise on the nearest word.
+    const boundaries: number[] = [];
+    let previous = -1;
+    for (let scene = 1; scene < sceneCount; scene++) {
+        const target = (scene * totalWeight) / sceneCount;
+        const minIndex = previous + 1;
+        const maxIndex = words.length - 1 - (sceneCount - scene);
+        if (maxIndex < minIndex) {
+            boundaries.push(Math.min(minIndex, words.length - 1));
+            previous = boundaries[boundaries.length - 1];
+            continue;
+        }
+        const tolerance = totalWeight / sceneCount / 3;
+        let best = minIndex;
+        let bestScore = Infinity;
+        for (let i = minIndex; i <= maxIndex; i++) {
+            const distance = Math.abs(cumulative[i] - target);
+            if (distance > tolerance * 2 && cumulative[i] > target) break;
+            const score = words[i].endsSentence ? distance : distance + tolerance;
+            if (score < bestScore) {
+                best = i;
+                bestScore = score;
+            }
+        }
+        boundaries.push(best);
+        previous = best;
+    }
+    boundaries.push(words.length - 1);
+
+    const secondsPerWeight = durationSeconds / totalWeight;
+    let startIndex = 0;
+    return boundaries.map(endIndex => {
+        const segmentWords = endIndex >= startIndex ? words.slice(startIndex, endIndex + 1) : [];
+        const start = startIndex > 0 ? cumulative[startIndex - 1] * secondsPerWeight : 0;
+        const end = segmentWords.length > 0 ? cumulative[endIndex] * secondsPerWeight : start;
+        startIndex = Math.max(startIndex, endIndex + 1);
+        return { text: segmentWords.map(w => w.text).join(' '), start, end };
+    });
+}
+
+/**
+ * Estimates when each sentence of a narration is spoken, breaking long sentences into subtitle-sized pieces.
+ * @param script The narration text.
+ * @param durationSeconds How long the narration takes.
+ * @param offsetSeconds When the narration starts.
+ * @returns The timed sentences, in order.
+ */
+export function timeSentences(script: string, durationSeconds: number, offsetSeconds = 0): TimedText[] {
+    const words = splitWords(script);
+    const totalWeight = words.reduce((sum, word) => sum + word.weight, 0);
+    if (totalWeight === 0) return [];
+
+    const secondsPerWeight = durationSeconds / totalWeight;
+    const sentences: TimedText[] = [];
+    let current: Word[] = [];
+    let elapsedWeight = 0;
+    let startWeight = 0;
+    words.forEach((word, i) => {
+        current.push(word);
+        elapsedWeight += word.weight;
+        const length = current.reduce((sum, w) => sum + w.text.length + 1, 0);
+        const next = words[i + 1];
+        const isLongEnoughToBreak = length >= MAX_CUE_CHARS * 0.6 && word.endsClause;
+        if (word.endsSentence || !next || isLongEnoughToBreak || length + next.text.length >= MAX_CUE_CHARS) {
+            sentences.push({
+                text: current.map(w => w.text).join(' '),
+                start: offsetSeconds + startWeight * secondsPerWeight,
+                end: offsetSeconds + elapsedWeight * secondsPerWeight,
+            });
+            current = [];
+            startWeight = elapsedWeight;
+        }
+    });
+    return sentences;
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * Re-times scene prompts so each scene covers the part of the voiceover that narrates it.
+ * Scene count and order are kept; only the timings (and the narration attached to each scene) change.
+ * @param prompts The scenes, in order.
+ * @param script The exact text that was sent to the speech model.
+ * @param voiceoverAudio The base64 24 kHz PCM voiceover.
+ * @returns The re-timed scenes.
+ */
+export async function alignScenesToVoiceover(prompts: ScenePrompt[], script: string, voiceoverAudio: string): Promise<ScenePrompt[]> {
+    if (prompts.length === 0) return prompts;
+    const { duration } = await decodeVoiceover(voiceoverAudio);
+    const segments = segmentNarration(script, prompts.length, duration);
+
+    // Very short segments make unusable shots, so they borrow time from the following scene. Every scene after the
+    // current one keeps at least the minimum length, or an even share of the time left when that is too short.
+    let start = 0;
+    return prompts.map((prompt, i) => {
+        const remaining = prompts.length - 1 - i;
+        const minLength = Math.min(MIN_SCENE_SECONDS, (duration - start) / (remaining + 1));
+        const end = remaining === 0
+            ? duration
+            : Math.min(duration - remaining * minLength, Math.max(segments[i].end, start + minLength));
+        const aligned: ScenePrompt = {
+            ...prompt,
+            start_time_seconds: roundTime(start),
+            end_time_seconds: roundTime(end),
+            narration: segments[i].text,
+        };
+        start = end;
+        return aligned;
+    });
+}
@@ -0,0 +1,64 @@
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+const STORAGE_KEY = 'pikaza.encryptedApiKey';
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedApiKey {
+    salt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+}
+
+export const hasStoredApiKey = (): boolean => localStorage.getItem(STORAGE_KEY) !== null;
+
+export const clearStoredApiKey = (): void => localStorage.removeItem(STORAGE_KEY);
+
+/**
+ * Encrypts an API key with a passphrase-derived AES-GCM key and stores it in this browser.
+ * The passphrase itself is never stored.
+ * @param apiKey The API key to protect.
+ * @param passphrase The user's passphrase.
+ */
+export async function storeApiKey(apiKey: string, passphrase: string): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+    const record: EncryptedApiKey = {
+        salt: bytesToBase64(salt),
+        iv: bytesToBase64(iv),
+        ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+}
+
+/**
+ * Decrypts the stored API key.
+ * @param passphrase The passphrase the key was stored with.
+ * @returns The decrypted API key.
+ */
+export async function unlockApiKey(passphrase: string): Promise<string> {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+        throw new Error('No API key is stored in this browser.');
+    }
+    const record = JSON.parse(stored) as EncryptedApiKey;
+    const key = await deriveKey(passphrase, base64ToBytes(record.salt));
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(record.iv) }, key, base64ToBytes(record.ciphertext));
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        throw new Error('Incorrect passphrase. Please try again.');
+    }
+}
@@ -0,0 +1,171 @@
+// The shared request layer for every provider call: classifies failures, retries the transient ones with
+// exponential backoff and jitter, enforces timeouts, and tells the UI while a request is waiting to be retried.
+
+export type ApiErrorKind = 'quota' | 'safety' | 'invalidKey' | 'timeout' | 'malformedJson' | 'invalidResponse' | 'transient' | 'aborted' | 'budget' | 'other';
+
+export class ApiError extends Error {
+    constructor(readonly kind: ApiErrorKind, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Kinds worth asking again: the same request may well succeed a little later, or answer with valid JSON
+// that matches its schema.
+const RETRYABLE_KINDS: ApiErrorKind[] = ['quota', 'timeout', 'malformedJson', 'invalidResponse', 'transient'];
+
+export const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1_000;
+// Quota errors mean "slow down", so they back off from a longer base delay.
+const QUOTA_BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 60_000;
+
+const errorText = (error: unknown) => {
+    if (!(error instanceof Error)) return String(error);
+    const status = (error as { status?: unknown }).status;
+    return status === undefined ? error.message : `${status} ${error.message}`;
+};
+
+/**
+ * Works out what kind of failure an error from a provider or SDK is, from its type, status code and message.
+ * @param error The error thrown by the request.
+ */
+export function classifyApiError(error: unknown): ApiErrorKind {
+    if (error instanceof ApiError) return error.kind;
+    if (error instanceof SyntaxError) return 'malformedJson';
+    if (error instanceof Error && error.name === 'AbortError') return 'aborted';
+    const text = errorText(error);
+    if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED|\b(401|403)\b|No Gemini API key/i.test(text)) return 'invalidKey';
+    if (/\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(text)) return 'quota';
+    if (/blocked|SAFETY|PROHIBITED_CONTENT/i.test(text)) return 'safety';
+    if (/timed? ?out|DEADLINE_EXCEEDED|\b504\b/i.test(text)) return 'timeout';
+    if (/\b(500|502|503)\b|UNAVAILABLE|INTERNAL|overloaded|Failed to fetch|fetch failed|network|ECONNRESET/i.test(text)) return 'transient';
+    return 'other';
+}
+
+export const isRetryableApiError = (error: unknown) => RETRYABLE_KINDS.includes(classifyApiError(error));
+
+export interface RetryStatus {
+    id: number;
+    context: string; // the operation being retried, e.g. 'voiceover generation'
+    kind: ApiErrorKind; // why the last attempt failed
+    attempt: number; // the attempt about to be made, from 2
+    maxAttempts: number;
+    retryAt: number; // epoch ms
+}
+
+type RetryStatusListener = (statuses: RetryStatus[]) => void;
+
+const activeRetries = new Map<number, RetryStatus>();
+const retryListeners = new Set<RetryStatusListener>();
+let nextRequestId = 1;
+
+const publishRetries = () => {
+    const statuses = [...activeRetries.values()];
+    retryListeners.forEach(listener => listener(statuses));
+};
+
+/**
+ * Subscribes to the requests that are waiting to be retried. The listener is called with all of them each time one
+ * starts or stops waiting.
+ * @returns A function that unsubscribes the listener.
+ */
+export function subscribeRetryStatus(listener: RetryStatusListener): () => void {
+    retryListeners.add(listener);
+    return () => { retryListeners.delete(listener); };
+}
+
+/**
+ * The wait before a retry: exponential in the number of failed attempts, capped, with "full jitter" so that
+ * parallel requests hitting the same limit do not all come back at once.
+ * @param failedAttempts How many attempts have failed so far, from 1.
+ */
+export function backoffDelay(failedAttempts: number, kind: ApiErrorKind): number {
+    const base = kind === 'quota' ? QUOTA_BASE_DELAY_MS : BASE_DELAY_MS;
+    const ceiling = Math.min(MAX_DELAY_MS, base * 2 ** (failedAttempts - 1));
+    return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+const wait = (ms: number, signal: AbortSignal | undefined) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new ApiError('aborted', 'The request was cancelled.'));
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new ApiError('aborted', 'The request was cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RequestOptions {
+    signal?: AbortSignal; // cancels the request and any retry still to come
+    // How long an attempt may go without progress before it is abandoned and retried.
+    timeoutMs?: number;
+    maxAttempts?: number;
+    // False for work that aborting does not stop (e.g. a job the backend may already have accepted): an abandoned
+    // attempt could still be billed, so a timeout is not retried.
+    retryTimeouts?: boolean;
+}
+
+/**
+ * Makes one request, retrying it while it fails in a retryable way. Each attempt gets its own abort signal, which
+ * fires on timeout or when the caller's signal does, and must be passed on to the provider call so a timed-out attempt
+ * stops instead of running (and being billed) alongside the next one. Attempts that can report progress (e.g.
+ * streams) call `keepAlive` to restart their timeout.
+ * @param context The operation, used in retry statuses and logs, e.g. 'voiceover generation'.
+ * @param attempt Makes the request and checks its response; throwing a SyntaxError asks again.
+ * @returns What the first successful attempt returned.
+ * @throws ApiError with the failure's kind once the attempts run out or the failure is not retryable.
+ */
+export async function requestWithRetry<T>(
+    context: string,
+    attempt: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+    { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxAttempts = DEFAULT_MAX_ATTEMPTS, retryTimeouts = true }: RequestOptions = {},
+): Promise<T> {
+    const id = nextRequestId++;
+    try {
+        for (let attemptNumber = 1; ; attemptNumber++) {
+            const controller = new AbortController();
+            const onAbort = () => controller.abort();
+            signal?.addEventListener('abort', onAbort, { once: true });
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            let rejectTimeout: (error: ApiError) => void = () => {};
+            const timedOut = new Promise<never>((_, reject) => { rejectTimeout = reject; });
+            const keepAlive = () => {
+                clearTimeout(timer);
+                timer = setTimeout(() => {
+                    controller.abort();
+                    rejectTimeout(new ApiError('timeout', `The request took longer than ${Math.round(timeoutMs / 1000)} seconds.`));
+                }, timeoutMs);
+            };
+            keepAlive();
+            try {
+                return await Promise.race([attempt(controller.signal, keepAlive), timedOut]);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                const kind = classifyApiError(error);
+                if (!RETRYABLE_KINDS.includes(kind) || (kind === 'timeout' && !retryTimeouts) || attemptNumber >= maxAttempts) {
+                    throw error instanceof ApiError ? error : new ApiError(kind, errorText(error));
+                }
+                const delay = backoffDelay(attemptNumber, kind);
+                console.warn(`Retrying ${context} in ${Math.round(delay)}ms after a ${kind} failure:`, error);
+                activeRetries.set(id, { id, context, kind, attempt: attemptNumber + 1, maxAttempts, retryAt: Date.now() + delay });
+                publishRetries();
+                await wait(delay, signal);
+            } finally {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            }
+            activeRetries.delete(id);
+            publishRetries();
+        }
+    } finally {
+        if (activeRetries.delete(id)) publishRetries();
+    }
+}
@@ -0,0 +1,84 @@
+import { base64ToBytes } from './encoding';
+
+// Every speech provider is normalised to raw 24 kHz, 16-bit, mono PCM.
+export const VOICEOVER_SAMPLE_RATE = 24000;
+
+export async function decodeAudioData(
+    data: Uint8Array,
+    ctx: BaseAudioContext,
+    sampleRate: number,
+    numChannels: number,
+): Promise<AudioBuffer> {
+    const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+    const frameCount = dataInt16.length / numChannels;
+    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+    for (let channel = 0; channel < numChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < frameCount; i++) {
+            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+        }
+    }
+    return buffer;
+}
+
+const writeString = (view: DataView, offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+        view.setUint8(offset + i, string.charCodeAt(i));
+    }
+};
+
+export const createWavFile = (pcmData: Uint8Array, sampleRate: number, numChannels: number, bitsPerSample: number): Blob => {
+    const dataSize = pcmData.length;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    // RIFF chunk descriptor
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+    // "fmt " sub-chunk
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numChannels * (bitsPerSample / 8), true);
+    view.setUint16(32, numChannels * (bitsPerSample / 8), true);
+    view.setUint16(34, bitsPerSample, true);
+    // "data" sub-chunk
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const pcm = new Uint8Array(pcmData);
+    for (let i = 0; i < dataSize; i++) {
+        view.setUint8(44 + i, pcm[i]);
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+};
+
+/**
+ * Decodes the base64 PCM voiceover and resamples it, e.g. to a rate an encoder accepts.
+ * @param pcmB64 The base64 24 kHz, 16-bit, mono PCM voiceover.
+ * @param targetSampleRate The sample rate of the returned buffer.
+ */
+export async function decodeVoiceover(pcmB64: string, targetSampleRate = VOICEOVER_SAMPLE_RATE): Promise<AudioBuffer> {
+    const bytes = base64ToBytes(pcmB64);
+    const frameCount = Math.floor(bytes.byteLength / 2);
+    const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil(frameCount * targetSampleRate / VOICEOVER_SAMPLE_RATE)), targetSampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = await decodeAudioData(bytes, ctx, VOICEOVER_SAMPLE_RATE, 1);
+    source.connect(ctx.destination);
+    source.start();
+    return ctx.startRendering();
+}
+
+/**
+ * The length of a base64 PCM voiceover, computed from its size without decoding it.
+ */
+export const pcmDurationSeconds = (pcmB64: string): number => {
+    const padding = pcmB64.endsWith('==') ? 2 : pcmB64.endsWith('=') ? 1 : 0;
+    const byteLength = Math.floor((pcmB64.length * 3) / 4) - padding;
+    return byteLength / 2 / VOICEOVER_SAMPLE_RATE;
+};
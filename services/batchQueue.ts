@@ -0,0 +1,215 @@
+import type { BatchEpisode, CharacterProfile, EpisodeStep, GeneratedResult, ProjectInputs } from '../types';
+import { makeThumbnails, voiceVoiceover, writeStory, writeVoiceover } from './episodeSteps';
+import { createProject, getProject, saveProjectVersion } from './projectStore';
+import { selectReferenceImages } from './referenceImages';
+import { runWithConcurrency } from './concurrency';
+import { trackUsage } from './usageTracking';
+import { VOICES } from './voices';
+
+export const EPISODE_STEPS: EpisodeStep[] = ['story', 'voiceover', 'audio', 'thumbnail'];
+
+export const EPISODE_STEP_LABELS: Record<EpisodeStep, string> = {
+    story: 'Story',
+    voiceover: 'Voiceover',
+    audio: 'Audio',
+    thumbnail: 'Thumbnails',
+};
+
+const STORY_LENGTHS: BatchEpisode['storyLength'][] = ['Short', 'Medium', 'Long'];
+
+// Header names accepted for each column of an imported CSV, lowercased.
+const COLUMN_NAMES = {
+    title: ['title', 'episode', 'story title'],
+    videoStyle: ['style', 'video style'],
+    storyLength: ['length', 'story length'],
+    voice: ['voice', 'narrator'],
+};
+
+export type EpisodeDefaults = Pick<BatchEpisode, 'videoStyle' | 'storyLength' | 'voice'>;
+
+/**
+ * Splits CSV text into rows of fields. Quoted fields may contain commas, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+const matchStoryLength = (value: string | undefined) =>
+    STORY_LENGTHS.find(length => length.toLowerCase() === value?.trim().toLowerCase());
+
+const matchVoice = (value: string | undefined) => {
+    const wanted = value?.trim().toLowerCase();
+    return wanted ? VOICES.find(voice => voice.id.toLowerCase() === wanted || voice.name.toLowerCase() === wanted)?.id : undefined;
+};
+
+export function createEpisode(title: string, settings: EpisodeDefaults): BatchEpisode {
+    return {
+        id: crypto.randomUUID(),
+        title: title.trim(),
+        ...settings,
+        steps: { story: 'pending', voiceover: 'pending', audio: 'pending', thumbnail: 'pending' },
+    };
+}
+
+/**
+ * Turns pasted or imported text into queue entries. Text whose first row names a "title" column is read as CSV
+ * with optional style, length and voice columns; anything else is one title per line, commas included.
+ * Missing or unrecognised values fall back to the defaults.
+ * @param text The pasted list or CSV file contents.
+ * @param defaults The style, length and voice for rows that do not set their own.
+ * @returns One episode per non-empty title.
+ */
+export function parseEpisodeList(text: string, defaults: EpisodeDefaults): BatchEpisode[] {
+    const rows = parseCsv(text);
+    const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const column = (names: string[]) => header.findIndex(cell => names.includes(cell));
+    const titleColumn = column(COLUMN_NAMES.title);
+    if (titleColumn < 0) {
+        return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(title => createEpisode(title, defaults));
+    }
+
+    const [styleColumn, lengthColumn, voiceColumn] = [column(COLUMN_NAMES.videoStyle), column(COLUMN_NAMES.storyLength), column(COLUMN_NAMES.voice)];
+    return rows.slice(1)
+        .filter(cells => cells[titleColumn]?.trim())
+        .map(cells => createEpisode(cells[titleColumn], {
+            videoStyle: cells[styleColumn]?.trim() || defaults.videoStyle,
+            storyLength: matchStoryLength(cells[lengthColumn]) ?? defaults.storyLength,
+            voice: matchVoice(cells[voiceColumn]) ?? defaults.voice,
+        }));
+}
+
+export const isEpisodeFinished = (episode: BatchEpisode) => EPISODE_STEPS.every(step => episode.steps[step] === 'done');
+
+/**
+ * The inputs an episode starts from. Only settings shared by every episode are taken from the editor; its own
+ * characters, scene description, voiceover script and voice casting belong to the project open there.
+ */
+function episodeInputs(episode: BatchEpisode, base: ProjectInputs): ProjectInputs {
+    const { videoLengthMinutes, libraryCharacterIds, voiceoverMode, languages, includeNativeScript, speechMode, pronunciationNotes } = base;
+    return {
+        characterProfiles: [],
+        storyScene: '',
+        storyTitle: episode.title,
+        storyMode: 'fromTitle',
+        storyLength: episode.storyLength,
+        videoLengthMinutes,
+        videoStyle: episode.videoStyle,
+        selectedVoice: episode.voice,
+        voiceoverScriptInput: '',
+        editableVoiceoverScript: '',
+        libraryCharacterIds,
+        voiceoverMode,
+        languages,
+        includeNativeScript,
+        speechMode,
+        pronunciationNotes,
+    };
+}
+
+interface EpisodeRunOptions {
+    baseInputs: ProjectInputs; // the editor's inputs; only the settings in episodeInputs carry over to an episode
+    libraryProfiles: CharacterProfile[];
+    shouldStop: () => boolean;
+    onUpdate: (episode: BatchEpisode) => void;
+}
+
+/**
+ * Produces one episode from its title, skipping the steps that are already done, so a paused or failed episode
+ * picks up where it stopped. The project is saved after every step. A failed step stops the episode.
+ * @returns The episode as it was left.
+ */
+export async function runEpisode(episode: BatchEpisode, { baseInputs, libraryProfiles, shouldStop, onUpdate }: EpisodeRunOptions): Promise<BatchEpisode> {
+    let current = { ...episode, error: undefined };
+    const update = (changes: Partial<BatchEpisode>) => {
+        current = { ...current, ...changes };
+        onUpdate(current);
+    };
+
+    const saved = current.projectId ? await getProject(current.projectId).catch(() => undefined) : undefined;
+    if (current.projectId && !saved) {
+        update({ error: 'The episode\'s project could not be found. It may have been deleted.' });
+        return current;
+    }
+    let result: GeneratedResult | null = saved?.result ?? null;
+    let inputs: ProjectInputs = saved?.inputs ?? episodeInputs(current, baseInputs);
+
+    for (const step of EPISODE_STEPS) {
+        if (current.steps[step] === 'done') continue;
+        if (shouldStop()) break;
+        update({ steps: { ...current.steps, [step]: 'running' } });
+        try {
+            // Each step's usage is filed under the episode's project, which the story step creates.
+            await trackUsage({ projectId: current.projectId, projectName: current.title, step }, async usage => {
+                if (step === 'story') {
+                    result = await writeStory(inputs, libraryProfiles, { usage });
+                    const project = await createProject(current.title, inputs, result, 'story');
+                    usage.attribution.projectId = project.id;
+                    update({ projectId: project.id });
+                } else {
+                    if (!result || !current.projectId) {
+                        throw new Error('The episode has no story yet.');
+                    }
+                    if (step === 'voiceover') {
+                        result = await writeVoiceover(result, inputs, libraryProfiles, { usage });
+                        inputs = { ...inputs, editableVoiceoverScript: result.voiceover ?? '' };
+                    } else if (step === 'audio') {
+                        const voiced = await voiceVoiceover(result, inputs, undefined, { usage });
+                        result = voiced.result;
+                        inputs = { ...inputs, voiceCasting: voiced.voiceCasting };
+                    } else {
+                        result = await makeThumbnails(result, selectReferenceImages(result.characterSheet, [...(result.characters ?? []), ...libraryProfiles]), { usage });
+                    }
+                    await saveProjectVersion(current.projectId, step, result, inputs);
+                }
+            });
+            update({ steps: { ...current.steps, [step]: 'done' } });
+        } catch (e) {
+            console.error(`Batch episode "${current.title}" failed at ${step}:`, e);
+            update({ steps: { ...current.steps, [step]: 'error' }, error: e instanceof Error ? e.message : `The ${EPISODE_STEP_LABELS[step].toLowerCase()} step failed.` });
+            break;
+        }
+    }
+    return current;
+}
+
+/**
+ * Runs every unfinished episode, a few at a time. Pausing (via `shouldStop`) lets running steps finish and starts
+ * no new ones; running the queue again resumes each episode at its next step.
+ * @param concurrency How many episodes are produced at once.
+ * @returns The episodes as they were left, in order.
+ */
+export async function runBatch(episodes: BatchEpisode[], concurrency: number, options: EpisodeRunOptions): Promise<BatchEpisode[]> {
+    const results = await runWithConcurrency(episodes, concurrency, async (episode: BatchEpisode) =>
+        isEpisodeFinished(episode) ? episode : runEpisode(episode, options));
+    return results.map((r, i) => r.status === 'fulfilled' ? r.value : episodes[i]);
+}
@@ -0,0 +1,112 @@
+import type { CharacterProfile, GeneratedCharacter, GeneratedResult, LibraryCharacter } from '../types';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { characterSheetToMarkdown, findCharacterSheet } from './characterSheets';
+
+export type LibraryCharacterInput = Pick<LibraryCharacter, 'name' | 'appearance' | 'sheet' | 'characterSheet' | 'referenceImage' | 'tags' | 'source'>;
+
+export const parseTags = (value: string): string[] =>
+    Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+/**
+ * Lists every saved character, alphabetically by name.
+ */
+export async function listLibraryCharacters(): Promise<LibraryCharacter[]> {
+    const characters = await getAllRecords<LibraryCharacter>(STORES.characters);
+    return characters.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createLibraryCharacter(input: LibraryCharacterInput): Promise<LibraryCharacter> {
+    if (!input.name.trim() || !input.appearance.trim()) {
+        throw new Error('A library character needs both a name and appearance details.');
+    }
+    const now = Date.now();
+    return putRecord(STORES.characters, {
+        ...input,
+        id: crypto.randomUUID(),
+        name: input.name.trim(),
+        createdAt: now,
+        updatedAt: now,
+    });
+}
+
+export async function updateLibraryCharacter(id: string, changes: Partial<LibraryCharacterInput>): Promise<LibraryCharacter> {
+    const existing = await getRecord<LibraryCharacter>(STORES.characters, id);
+    if (!existing) {
+        throw new Error('The character could not be found in the library.');
+    }
+    return putRecord(STORES.characters, { ...existing, ...changes, updatedAt: Date.now() });
+}
+
+export async function deleteLibraryCharacter(id: string): Promise<void> {
+    await deleteRecord(STORES.characters, id);
+}
+
+/**
+ * Filters library characters by a free-text query (name, tags, appearance) and required tags.
+ * @param characters The characters to search.
+ * @param query The free-text search query.
+ * @param tags Tags that every returned character must carry.
+ * @returns The matching characters.
+ */
+export function searchLibraryCharacters(characters: LibraryCharacter[], query: string, tags: string[] = []): LibraryCharacter[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return characters.filter(character => {
+        if (!tags.every(tag => character.tags.includes(tag))) return false;
+        const haystack = `${character.name} ${character.tags.join(' ')} ${character.appearance}`.toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+}
+
+/**
+ * Pulls a single character's section out of a combined Markdown character sheet.
+ * The section starts at the first heading mentioning the character and ends at the next heading of the same or higher level.
+ * @param characterSheet The combined Markdown character sheet.
+ * @param name The character's name.
+ * @returns The character's section, or undefined if no heading mentions the character.
+ */
+export function extractCharacterSection(characterSheet: string, name: string): string | undefined {
+    const lines = characterSheet.split('\n');
+    const headingLevel = (line: string) => line.match(/^(#{1,6})\s/)?.[1].length ?? 0;
+    const start = lines.findIndex(line => headingLevel(line) > 0 && line.toLowerCase().includes(name.toLowerCase()));
+    if (start === -1) return undefined;
+
+    const level = headingLevel(lines[start]);
+    let end = lines.length;
+    for (let i = start + 1; i < lines.length; i++) {
+        const nextLevel = headingLevel(lines[i]);
+        if (nextLevel > 0 && nextLevel <= level) {
+            end = i;
+            break;
+        }
+    }
+    return lines.slice(start, end).join('\n').trim();
+}
+
+/**
+ * Prepares a generated character for the library, keeping its structured sheet when the result has one and
+ * falling back to its section of the Markdown sheet for older results.
+ */
+export function generatedCharacterToLibraryInput(
+    character: GeneratedCharacter,
+    result: Pick<GeneratedResult, 'characterSheet' | 'characterSheets'>,
+    tags: string[] = [],
+): LibraryCharacterInput {
+    const characterSheet = findCharacterSheet(result.characterSheets, character.name);
+    return {
+        name: character.name,
+        appearance: character.description,
+        sheet: characterSheet ? characterSheetToMarkdown(characterSheet) : extractCharacterSection(result.characterSheet, character.name),
+        characterSheet,
+        referenceImage: character.referenceImage,
+        tags,
+        source: 'generated',
+    };
+}
+
+export const libraryCharacterToProfile = (character: LibraryCharacter): CharacterProfile => ({
+    name: character.name,
+    appearance: character.appearance,
+    sheet: character.sheet,
+    characterSheet: character.characterSheet,
+    referenceImage: character.referenceImage,
+});
@@ -0,0 +1,86 @@
+import type { CharacterSheet } from '../types';
+import { escapeRegExp } from './text';
+
+export const CHARACTER_SHEET_TRAITS: { key: Exclude<keyof CharacterSheet, 'name'>; label: string; list?: boolean }[] = [
+    { key: 'age', label: 'Age' },
+    { key: 'face', label: 'Face' },
+    { key: 'hair', label: 'Hair' },
+    { key: 'skin', label: 'Skin' },
+    { key: 'attire', label: 'Attire' },
+    { key: 'accessories', label: 'Accessories', list: true },
+    { key: 'palette', label: 'Color Palette', list: true },
+    { key: 'negativeTraits', label: 'Never Show', list: true },
+];
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+const asList = (value: unknown): string[] => Array.isArray(value) ? value.map(asText).filter(Boolean) : [];
+
+/**
+ * Turns a model response (possibly partial or missing fields) into a complete sheet.
+ */
+export function normalizeCharacterSheet(raw: unknown): CharacterSheet {
+    const sheet: Partial<Record<keyof CharacterSheet, unknown>> = raw !== null && typeof raw === 'object' ? raw : {};
+    return {
+        name: asText(sheet.name),
+        age: asText(sheet.age),
+        face: asText(sheet.face),
+        hair: asText(sheet.hair),
+        skin: asText(sheet.skin),
+        attire: asText(sheet.attire),
+        accessories: asList(sheet.accessories),
+        palette: asList(sheet.palette),
+        negativeTraits: asList(sheet.negativeTraits),
+    };
+}
+
+export const findCharacterSheet = (sheets: CharacterSheet[] | undefined, name: string): CharacterSheet | undefined =>
+    sheets?.find(sheet => sheet.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+export function characterSheetToMarkdown(sheet: CharacterSheet): string {
+    const lines = CHARACTER_SHEET_TRAITS
+        .map(({ key, label }) => {
+            const value = sheet[key];
+            const text = Array.isArray(value) ? value.join(', ') : value;
+            return text ? `**${label}:** ${text}` : '';
+        })
+        .filter(Boolean);
+    return [`### ${sheet.name || 'Unnamed'}`, ...lines].join('\n');
+}
+
+/**
+ * Renders the structured sheets as the Markdown document the rest of the app (downloads, thumbnails) works with.
+ */
+export const characterSheetsToMarkdown = (sheets: CharacterSheet[]): string =>
+    `## Character Sheets\n\n${sheets.map(characterSheetToMarkdown).join('\n\n')}\n`;
+
+/**
+ * Condenses a sheet into the description that is put into image and video prompts whenever the character appears.
+ */
+export function characterPromptText(sheet: CharacterSheet): string {
+    const details = [
+        sheet.age,
+        sheet.face,
+        sheet.hair && `hair: ${sheet.hair}`,
+        sheet.skin && `skin: ${sheet.skin}`,
+        sheet.attire && `wearing ${sheet.attire}`,
+        sheet.accessories.length > 0 && `with ${sheet.accessories.join(', ')}`,
+        sheet.palette.length > 0 && `colors: ${sheet.palette.join(', ')}`,
+        sheet.negativeTraits.length > 0 && `never shown with ${sheet.negativeTraits.join(', ')}`,
+    ].filter(Boolean);
+    return `${sheet.name} (${details.join('; ')})`;
+}
+
+/**
+ * Appends the sheet description of every character a prompt mentions by name, so a prompt always shows the
+ * current look even after a trait was edited. A trailing "--ar" parameter stays at the end.
+ * @param prompt The scene prompt.
+ * @param sheets The project's character sheets.
+ * @returns The prompt with a "Character details" paragraph, or unchanged when it mentions nobody.
+ */
+export function withCharacterDetails(prompt: string, sheets: CharacterSheet[] | undefined): string {
+    const mentioned = (sheets ?? []).filter(sheet =>
+        sheet.name.trim() && new RegExp(`\\b${escapeRegExp(sheet.name.trim())}\\b`, 'i').test(prompt));
+    if (mentioned.length === 0) return prompt;
+    const [, body, aspectRatio = ''] = prompt.match(/^([\s\S]*?)(\s*--ar\s*\d+:\d+\s*)?$/)!;
+    return `${body}\nCharacter details: ${mentioned.map(characterPromptText).join(' ')}${aspectRatio}`;
+}
@@ -0,0 +1,30 @@
+/**
+ * Runs a worker over every item with at most `limit` workers in flight at once.
+ * Failures are reported per item instead of rejecting the whole batch.
+ * @param items The items to process.
+ * @param limit The maximum number of concurrent workers.
+ * @param worker The async function to run for each item.
+ * @returns One settled result per item, in input order.
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+    return results;
+}
@@ -0,0 +1,71 @@
+const DB_NAME = 'pikaza';
+const DB_VERSION = 4;
+
+export const STORES = {
+    projects: 'projects',
+    characters: 'characters',
+    clips: 'clips',
+    usage: 'usage',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily upgrades) the browser database shared by all local stores.
+ * @returns A promise resolving to the open database connection.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const storeName of Object.values(STORES)) {
+                if (!db.objectStoreNames.contains(storeName)) {
+                    db.createObjectStore(storeName, { keyPath: 'id' });
+                }
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open the local database.'));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('A local database request failed.'));
+    });
+}
+
+export async function getAllRecords<T>(storeName: string): Promise<T[]> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return requestToPromise(store.getAll() as IDBRequest<T[]>);
+}
+
+export async function getRecord<T>(storeName: string, id: string): Promise<T | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return requestToPromise(store.get(id) as IDBRequest<T | undefined>);
+}
+
+export async function putRecord<T>(storeName: string, record: T): Promise<T> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await requestToPromise(store.put(record));
+    return record;
+}
+
+export async function deleteRecord(storeName: string, id: string): Promise<void> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await requestToPromise(store.delete(id));
+}
@@ -0,0 +1,125 @@
+import type { DialogueLine, DialogueSegment } from '../types';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { VOICEOVER_SAMPLE_RATE } from './audio';
+import { runWithConcurrency } from './concurrency';
+import { generateAudioFromScript, type CallOptions } from './geminiService';
+import { VOICES } from './voices';
+import { ENGLISH } from './languages';
+import { buildSpeechInstructions } from './pronunciation';
+
+export const NARRATOR = 'Narrator';
+
+const LINE_GAP_SECONDS = 0.3;
+const SPEECH_CONCURRENCY = 3;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Parses a speaker-tagged script ("Name: line" per line). Untagged lines continue the previous speaker,
+ * or belong to the narrator at the start.
+ */
+export function parseDialogueScript(script: string): DialogueLine[] {
+    const lines: DialogueLine[] = [];
+    for (const rawLine of script.split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        const match = line.match(/^([^:：]{1,40})[:：]\s*(.+)$/);
+        // Names are short; a long prefix before a colon is narration such as "Then he said: ...".
+        if (match && match[1].trim().split(/\s+/).length <= 4) {
+            lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+        } else if (lines.length > 0) {
+            lines[lines.length - 1].text += ` ${line}`;
+        } else {
+            lines.push({ speaker: NARRATOR, text: line });
+        }
+    }
+    return lines;
+}
+
+export const formatDialogueScript = (lines: DialogueLine[]): string =>
+    lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+
+export const listSpeakers = (lines: DialogueLine[]): string[] => Array.from(new Set(lines.map(line => line.speaker)));
+
+/**
+ * Fills in voices for speakers that have not been cast yet: the narrator keeps the selected narrator voice and
+ * everyone else gets the next voice not already in use, so characters are distinguishable.
+ */
+export function castVoices(speakers: string[], casting: Record<string, string>, narratorVoice: string): Record<string, string> {
+    const next = { ...casting };
+    const used = new Set(Object.values(next));
+    for (const speaker of speakers) {
+        if (next[speaker]) continue;
+        if (speaker.toLowerCase() === NARRATOR.toLowerCase()) {
+            next[speaker] = narratorVoice;
+        } else {
+            const voice = VOICES.find(v => !used.has(v.id) && v.id !== narratorVoice) ?? VOICES[used.size % VOICES.length];
+            next[speaker] = voice.id;
+        }
+        used.add(next[speaker]);
+    }
+    return next;
+}
+
+/**
+ * Voices every line with its speaker's cast voice and stitches the lines into one track with short pauses.
+ * Lines are synthesised individually because multi-speaker speech configs only support two speakers.
+ * @param lines The dialogue, in order; `text` must be what should actually be spoken.
+ * @param casting Speaker name -> voice id.
+ * @param options The language the lines are written in and pronunciation notes for it, plus a progress callback
+ *     called with the number of lines voiced so far; the rest is passed on to every speech call.
+ * @returns The stitched 24 kHz PCM audio and when each line is spoken in it.
+ */
+export async function synthesizeDialogue(
+    lines: DialogueLine[],
+    casting: Record<string, string>,
+    { language = ENGLISH, pronunciationNotes = '', onProgress, ...callOptions }: CallOptions & {
+        language?: string;
+        pronunciationNotes?: string;
+        onProgress?: (done: number, total: number) => void;
+    } = {},
+): Promise<{ audioB64: string; segments: DialogueSegment[] }> {
+    let done = 0;
+    const results = await runWithConcurrency(lines, SPEECH_CONCURRENCY, async (line: DialogueLine) => {
+        const voice = casting[line.speaker] ?? VOICES[0].id;
+        const audio = base64ToBytes(await generateAudioFromScript(line.text, voice, buildSpeechInstructions(line.text, language, pronunciationNotes), callOptions));
+        onProgress?.(++done, lines.length);
+        return audio;
+    });
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) {
+        throw failed.reason;
+    }
+    const clips = results.map(r => (r as PromiseFulfilledResult<Uint8Array>).value);
+
+    const gapBytes = Math.round(LINE_GAP_SECONDS * VOICEOVER_SAMPLE_RATE) * BYTES_PER_SAMPLE;
+    const totalBytes = clips.reduce((sum, clip) => sum + clip.length - (clip.length % BYTES_PER_SAMPLE), 0) + gapBytes * Math.max(0, clips.length - 1);
+    const mix = new Uint8Array(totalBytes);
+    const segments: DialogueSegment[] = [];
+    let offset = 0;
+    clips.forEach((clip, i) => {
+        const length = clip.length - (clip.length % BYTES_PER_SAMPLE);
+        mix.set(clip.subarray(0, length), offset);
+        segments.push({
+            ...lines[i],
+            start: offset / BYTES_PER_SAMPLE / VOICEOVER_SAMPLE_RATE,
+            end: (offset + length) / BYTES_PER_SAMPLE / VOICEOVER_SAMPLE_RATE,
+        });
+        offset += length + gapBytes;
+    });
+    return { audioB64: bytesToBase64(mix), segments };
+}
+
+/**
+ * Extracts one speaker's stem: the full-length track with every other speaker silenced, so stems line up
+ * with the mix in an editor.
+ */
+export function buildSpeakerStem(audioB64: string, segments: DialogueSegment[], speaker: string): Uint8Array {
+    const mix = base64ToBytes(audioB64);
+    const stem = new Uint8Array(mix.length);
+    for (const segment of segments.filter(s => s.speaker === speaker)) {
+        const start = Math.round(segment.start * VOICEOVER_SAMPLE_RATE) * BYTES_PER_SAMPLE;
+        const end = Math.min(mix.length, Math.round(segment.end * VOICEOVER_SAMPLE_RATE) * BYTES_PER_SAMPLE);
+        stem.set(mix.subarray(start, end), start);
+    }
+    return stem;
+}
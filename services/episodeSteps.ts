@@ -0,0 +1,201 @@
+import type { CharacterProfile, GeneratedResult, ProjectInputs, ReferenceImage } from '../types';
+import { generateStoryAndPrompts, generateVoiceoverScript, generateDialogueScript, generateAudioFromScript, generateThumbnailsAndTitles, translateScriptToEnglish, translateLinesToEnglish, type CallOptions } from './geminiService';
+import { alignScenesToVoiceover } from './alignment';
+import { castVoices, formatDialogueScript, listSpeakers, parseDialogueScript, synthesizeDialogue } from './dialogue';
+import { transliterateDialogue, transliterateScript } from './transliteration';
+import { buildSpeechInstructions } from './pronunciation';
+import { chooseSpokenLanguages, type SpokenTrack } from './voiceoverTracks';
+import { DEFAULT_LANGUAGES, ENGLISH, getLanguage } from './languages';
+import { SCENE_DURATION_SECONDS } from './scenePlanning';
+
+// The steps of producing an episode, shared by the editor and the batch queue. Each takes the project's inputs
+// and the result so far and returns the result with its step's artefacts; saving the result is up to the caller.
+
+/**
+ * Writes the character sheet, story and scene prompts for the inputs' story mode.
+ * @param inputs The project inputs; the mode-specific text (scene, title or voiceover) must be filled in.
+ * @param libraryProfiles The library characters selected for the project.
+ * @param streamOptions Receives partial results as they arrive; the signal cancels the request. Also passed on to
+ *     the native-script call.
+ * @returns The new result.
+ */
+export async function writeStory(
+    inputs: ProjectInputs,
+    libraryProfiles: CharacterProfile[],
+    streamOptions: Parameters<typeof generateStoryAndPrompts>[1] = {},
+): Promise<GeneratedResult> {
+    const { storyMode, characterProfiles } = inputs;
+    const result = await generateStoryAndPrompts({
+        characters: storyMode === 'detail'
+            ? [...characterProfiles.filter(c => c.appearance.trim()), ...libraryProfiles]
+            : libraryProfiles,
+        numPrompts: Math.ceil((inputs.videoLengthMinutes * 60) / SCENE_DURATION_SECONDS),
+        mode: storyMode,
+        sceneOrTitleOrVoiceover: storyMode === 'detail' ? inputs.storyScene
+            : storyMode === 'fromTitle' ? inputs.storyTitle
+            : inputs.voiceoverScriptInput,
+        videoStyle: inputs.videoStyle,
+        storyLength: inputs.storyLength,
+        languages: inputs.languages ?? DEFAULT_LANGUAGES,
+    }, streamOptions);
+    // Generated characters inherit the portrait of the input character they were written from.
+    const referenceSources = [...characterProfiles, ...libraryProfiles].filter(c => c.referenceImage);
+    result.characters = result.characters?.map(character => {
+        const source = referenceSources.find(c => c.name.trim().toLowerCase() === character.name.trim().toLowerCase());
+        return source ? { ...character, referenceImage: source.referenceImage } : character;
+    });
+    const storyLanguage = result.storyLanguage;
+    const nativeScript = storyLanguage && getLanguage(storyLanguage).nativeScript;
+    if (inputs.includeNativeScript && storyLanguage && nativeScript && result.storyScripts?.[storyLanguage]) {
+        try {
+            result.storyScripts[nativeScript] = await transliterateScript(result.storyScripts[storyLanguage], storyLanguage, nativeScript, { signal: streamOptions.signal, usage: streamOptions.usage });
+        } catch (e) {
+            if (streamOptions.signal?.aborted) throw e;
+            // The story itself is fine; the native script can still be written from the story panel.
+            console.error('Failed to write the story in its native script:', e);
+        }
+    }
+    return result;
+}
+
+/**
+ * Picks the story text a voiceover is written from: the story as written in the voiceover language, then the
+ * original, then the English translation.
+ */
+export function voiceoverSourceScript(result: GeneratedResult | null, voiceoverLanguage: string): string | undefined {
+    const storyScripts = result?.storyScripts ?? {};
+    return storyScripts[voiceoverLanguage]
+        || (result?.storyLanguage ? storyScripts[result.storyLanguage] : undefined)
+        || result?.storyScript;
+}
+
+/**
+ * Writes the voiceover script for the story, as narration or as dialogue depending on the inputs.
+ * Any audio of an earlier voiceover is dropped, since it no longer matches.
+ * @param result The result with the story.
+ * @param inputs The project inputs.
+ * @param libraryProfiles The library characters selected for the project, who may speak in a dialogue.
+ * @returns The result with the new voiceover script.
+ * @throws Error if the result has no story.
+ */
+export async function writeVoiceover(result: GeneratedResult, inputs: ProjectInputs, libraryProfiles: CharacterProfile[], options: CallOptions = {}): Promise<GeneratedResult> {
+    const languages = inputs.languages ?? DEFAULT_LANGUAGES;
+    const scriptToUse = voiceoverSourceScript(result, languages.voiceover);
+    if (!scriptToUse) {
+        throw new Error('There is no story to write a voiceover from.');
+    }
+    const targetCharacterCount = inputs.videoLengthMinutes * 1000;
+    const speakers = Array.from(new Set([
+        ...(result.characters ?? []).map(c => c.name),
+        ...inputs.characterProfiles.map(c => c.name),
+        ...libraryProfiles.map(c => c.name),
+    ].map(name => name.trim()).filter(Boolean)));
+    const voiceover = inputs.voiceoverMode === 'dialogue'
+        ? await generateDialogueScript(scriptToUse, speakers, targetCharacterCount, languages.voiceover, options)
+        : await generateVoiceoverScript(scriptToUse, targetCharacterCount, languages.voiceover, options);
+    return { ...result, voiceover, voiceoverLanguage: languages.voiceover, voiceoverAudio: undefined, voiceoverTranslations: undefined, voiceoverSegments: undefined, voiceoverAudioLanguage: undefined, voiceoverAudioTracks: undefined };
+}
+
+/**
+ * Speaks the inputs' edited voiceover script in every language the speech mode asks for, translating it first
+ * where needed, and re-times the scenes to the main track.
+ * @param result The result to add the audio to, or null for a standalone voiceover.
+ * @param inputs The project inputs; `editableVoiceoverScript` is what gets spoken.
+ * @param onTranslating Told when a translation starts and ends, for progress display.
+ * @param options Passed on to every generation call.
+ * @returns The result with the audio, and the voice casting with any newly cast dialogue speakers.
+ */
+export async function voiceVoiceover(
+    result: GeneratedResult | null,
+    inputs: ProjectInputs,
+    onTranslating?: (isTranslating: boolean) => void,
+    options: CallOptions = {},
+): Promise<{ result: GeneratedResult; voiceCasting: Record<string, string> }> {
+    const script = inputs.editableVoiceoverScript;
+    const pronunciationNotes = inputs.pronunciationNotes ?? '';
+    const voiceoverLanguage = result?.voiceoverLanguage ?? (inputs.languages ?? DEFAULT_LANGUAGES).voiceover;
+    const { nativeScript } = getLanguage(voiceoverLanguage);
+    const spokenLanguages = chooseSpokenLanguages(voiceoverLanguage, inputs.speechMode ?? 'auto');
+    const needsTranslation = voiceoverLanguage !== ENGLISH && spokenLanguages.includes(ENGLISH);
+    const voiceoverTranslations: Record<string, string> = {};
+    // Every spoken version with the plain text it reads, the main audio first.
+    const spokenTracks: (SpokenTrack & { text: string })[] = [];
+    let voiceCasting = inputs.voiceCasting ?? {};
+    if (inputs.voiceoverMode === 'dialogue') {
+        const lines = parseDialogueScript(script);
+        let englishLines = lines;
+        if (needsTranslation) {
+            onTranslating?.(true);
+            const translated = await translateLinesToEnglish(lines.map(line => line.text), voiceoverLanguage, options);
+            englishLines = lines.map((line, i) => ({ ...line, text: translated[i] }));
+            voiceoverTranslations[ENGLISH] = formatDialogueScript(englishLines);
+            onTranslating?.(false);
+        }
+        voiceCasting = castVoices(listSpeakers(lines), voiceCasting, inputs.selectedVoice);
+        for (const language of spokenLanguages) {
+            const spokenLines = language === voiceoverLanguage ? lines : englishLines;
+            const { audioB64, segments } = await synthesizeDialogue(spokenLines, voiceCasting, { ...options, language, pronunciationNotes });
+            spokenTracks.push({ language, audio: audioB64, segments, text: spokenLines.map(line => line.text).join('\n') });
+        }
+    } else {
+        let englishScript = script;
+        if (needsTranslation) {
+            onTranslating?.(true);
+            englishScript = await translateScriptToEnglish(script, voiceoverLanguage, options);
+            voiceoverTranslations[ENGLISH] = englishScript;
+            onTranslating?.(false);
+        }
+        for (const language of spokenLanguages) {
+            const text = language === voiceoverLanguage ? script : englishScript;
+            const audio = await generateAudioFromScript(text, inputs.selectedVoice, buildSpeechInstructions(text, language, pronunciationNotes), options);
+            spokenTracks.push({ language, audio, text });
+        }
+    }
+    const [primaryTrack, ...extraTracks] = spokenTracks;
+    const voiceoverAudioTracks = extraTracks.length > 0
+        ? Object.fromEntries(extraTracks.map(({ language, audio, segments }) => [language, { audio, segments }]))
+        : undefined;
+    if (inputs.includeNativeScript && nativeScript) {
+        try {
+            voiceoverTranslations[nativeScript] = inputs.voiceoverMode === 'dialogue'
+                ? await transliterateDialogue(script, voiceoverLanguage, nativeScript, options)
+                : await transliterateScript(script, voiceoverLanguage, nativeScript, options);
+        } catch (e) {
+            if (options.signal?.aborted) throw e;
+            console.error('Failed to write the voiceover in its native script:', e);
+        }
+    }
+    // Scene timings were estimated before any audio existed; re-time them to what was actually narrated.
+    let alignedPrompts = result?.prompts;
+    if (alignedPrompts?.length) {
+        try {
+            alignedPrompts = await alignScenesToVoiceover(alignedPrompts, primaryTrack.text, primaryTrack.audio);
+        } catch (e) {
+            console.error('Failed to align scenes to the voiceover:', e);
+        }
+    }
+    const audio = {
+        voiceover: script,
+        voiceoverLanguage,
+        voiceoverTranslations,
+        voiceoverAudio: primaryTrack.audio,
+        voiceoverSegments: primaryTrack.segments,
+        voiceoverAudioLanguage: primaryTrack.language,
+        voiceoverAudioTracks,
+    };
+    return {
+        result: result
+            ? { ...result, prompts: alignedPrompts, ...audio }
+            // Without a story, the audio becomes a minimal standalone result.
+            : { characterSheet: '', storyScript: '', prompts: [], ...audio },
+        voiceCasting,
+    };
+}
+
+/**
+ * Designs the two thumbnails and writes the title options for the story.
+ * @param referenceImages Portraits of the characters, so the thumbnails show them as they look in the scenes.
+ */
+export async function makeThumbnails(result: GeneratedResult, referenceImages: ReferenceImage[], options: CallOptions = {}): Promise<GeneratedResult> {
+    return { ...result, ...await generateThumbnailsAndTitles(result.characterSheet, result.storyScript, referenceImages, options) };
+}
@@ -1,75 +1,369 @@
+import { Type, type Schema } from "@google/genai";
+import type { CharacterProfile, CharacterSheet, GeneratedCharacter, GeneratedResult, LanguageSettings, PromptIssue, ReferenceImage, ScenePrompt } from '../types';
+import { getProvider, type TextGenerationRequest, type TextGenerationResult, type VideoJobStatus } from './providers';
+import { ApiError, classifyApiError, requestWithRetry, type ApiErrorKind } from './apiRequests';
+import { conformResponse, type ValidationOptions } from './responseValidation';
+import { assertWithinBudget, recordUsage, type UsageScope } from './usageTracking';
+import { pcmDurationSeconds } from './audio';
+import { ENGLISH, getLanguage } from './languages';
+import { callProxy, isProxyEnabled } from './proxyClient';
+import { parsePartialJson } from './partialJson';
+import { characterPromptText, characterSheetToMarkdown, characterSheetsToMarkdown, findCharacterSheet, normalizeCharacterSheet } from './characterSheets';
+import { chunkSceneRange, findMissingSceneRanges, normalizeScenes, type SceneRange } from './scenePlanning';
 
-import { GoogleGenAI, Type, GenerateContentResponse, HarmCategory, HarmBlockThreshold, Modality } from "@google/genai";
-import type { CharacterProfile, GeneratedResult } from '../types';
-
-// This global instance is used for operations not requiring user-specific API keys.
-const aiGlobal = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const safetySettings = [
-  {
-    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-];
+// What to tell the user for failures whose raw message would not help them; the rest keep their own message.
+const apiErrorMessages: Partial<Record<ApiErrorKind, (context: string) => string>> = {
+    invalidKey: () => 'The provided API key is not valid. Please check your credentials.',
+    quota: context => `The API quota or rate limit was reached during ${context}, and retrying did not help. Please wait a few minutes or check your plan's limits, then try again.`,
+    timeout: context => `The AI took too long to answer during ${context}, even after retrying. Please try again.`,
+    malformedJson: () => 'The AI returned a malformed response that could not be understood. Please try again.',
+};
 
 /**
  * Parses API errors to provide a cleaner, more user-friendly message.
- * @param error The error caught from the API call.
+ * @param error The error caught from the API call, usually after the request layer gave up retrying it.
  * @param context A string describing the operation that failed (e.g., 'story generation').
- * @returns A formatted Error object.
+ * @returns An ApiError with the failure's kind and a formatted message.
  */
 function handleApiError(error: unknown, context: string): Error {
     console.error(`Error in ${context}:`, error);
+    const kind = classifyApiError(error);
+    const message = apiErrorMessages[kind];
+    if (message) {
+        return new ApiError(kind, message(context));
+    }
     if (error instanceof Error) {
-        // The API error message might already be user-friendly.
-        if (error.message.includes('API key not valid')) {
-            return new Error('The provided API key is not valid. Please check your credentials.');
-        }
         if (error.message.includes('Requested entity was not found.')) {
-            return new Error('Requested entity was not found.');
+            return new ApiError(kind, 'Requested entity was not found.');
         }
-        return new Error(`Failed during ${context}: ${error.message}`);
+        return new ApiError(kind, `Failed during ${context}: ${error.message}`);
     }
-    return new Error(`An unknown error occurred during ${context}.`);
+    return new ApiError(kind, `An unknown error occurred during ${context}.`);
+}
+
+// Speech for a long script can take minutes to render.
+const SPEECH_TIMEOUT_MS = 300_000;
+// Streams only time out when no new text arrives for this long, however long the whole response takes.
+const STREAM_IDLE_TIMEOUT_MS = 90_000;
+
+// Options every public generation function takes last.
+export interface CallOptions {
+    signal?: AbortSignal; // cancels the call, including any retry still to come
+    usage?: UsageScope; // the work the call's usage is filed under
+}
+
+const recordTextUsage = (context: string, { usage }: TextGenerationResult, scope: UsageScope | undefined) => {
+    if (usage) recordUsage({ operation: context, kind: 'text', ...usage }, scope);
+};
+
+/**
+ * Asks the text model through the shared request layer, which retries transient failures.
+ * @param context The operation, for retry statuses and usage records, e.g. 'voiceover generation'.
+ */
+const generateText = (context: string, request: TextGenerationRequest, usage?: UsageScope) =>
+    requestWithRetry(context, async signal => {
+        const response = await getProvider('text').generateText({ ...request, signal });
+        recordTextUsage(context, response, usage);
+        return response;
+    }, { signal: request.signal });
+
+/**
+ * Asks the text model for a structured response, parses it and checks it against the request's schema, repairing
+ * what can be repaired. Responses that are empty, not valid JSON or do not match the schema are asked for again by
+ * the request layer.
+ * @param context The operation, for retry statuses and messages, e.g. 'title generation'.
+ * @returns The parsed, validated response.
+ * @throws ApiError if the request was blocked, or still fails or returns an unusable response after retrying.
+ */
+function generateJson<T>(context: string, request: TextGenerationRequest, usage?: UsageScope): Promise<T> {
+    return requestWithRetry(context, async signal => {
+        const response = await getProvider('text').generateText({ ...request, signal });
+        recordTextUsage(context, response, usage);
+        const jsonText = response.text?.trim();
+        if (!jsonText) {
+            if (response.blockReason) {
+                throw new ApiError('safety', `The request was blocked due to ${response.blockReason}.`);
+            }
+            throw new SyntaxError('The AI returned an empty response.');
+        }
+        const parsed = JSON.parse(jsonText);
+        return request.schema ? conformResponse<T>(parsed, request.schema, context) : parsed as T;
+    }, { signal: request.signal });
 }
 
-interface GenerateOptions {
+export interface GenerateOptions {
   characters: CharacterProfile[];
   numPrompts: number;
   mode: 'detail' | 'fromTitle' | 'fromVoiceover';
   sceneOrTitleOrVoiceover: string;
   videoStyle: string;
   storyLength: 'Short' | 'Medium' | 'Long';
+  languages: LanguageSettings;
+}
+
+interface StreamOptions extends CallOptions {
+  // Called with the result so far each time more of the response arrives.
+  onPartial?: (partial: Partial<GeneratedResult>) => void;
+}
+
+const SCENE_CHUNK_SIZE = 20;
+// Scenes already written just before a chunk, shown to the model so the chunk continues them seamlessly.
+const SCENE_CONTEXT_OVERLAP = 2;
+const MAX_SCENE_CHUNK_ATTEMPTS = 3;
+
+const sceneSchema = {
+    type: Type.OBJECT,
+    properties: {
+        scene_number: { type: Type.INTEGER, description: "The chronological order of the scene, starting from 1." },
+        start_time_seconds: { type: Type.INTEGER, description: "The start time of this scene in the video, in seconds." },
+        end_time_seconds: { type: Type.INTEGER, description: "The end time of this scene in the video, in seconds. This should be 8 seconds after the start time." },
+        prompt: { type: Type.STRING, description: "A highly detailed, self-contained prompt for an AI image generator, including video style, character descriptions, action, and environment. End with '--ar 16:9'." }
+    },
+    required: ['scene_number', 'start_time_seconds', 'end_time_seconds', 'prompt']
+};
+
+const characterSheetSchema = {
+    type: Type.OBJECT,
+    properties: {
+        name: { type: Type.STRING, description: "The character's name." },
+        age: { type: Type.STRING, description: "Apparent age and build, e.g. 'about 8 years old, small and wiry'." },
+        face: { type: Type.STRING, description: "Face shape, eyes, nose, expression and other facial features." },
+        hair: { type: Type.STRING, description: "Hair color, length and style." },
+        skin: { type: Type.STRING, description: "Skin tone and texture, or fur/scales for non-human characters." },
+        attire: { type: Type.STRING, description: "The outfit the character always wears, garment by garment." },
+        accessories: { type: Type.ARRAY, description: "Items the character always carries or wears.", items: { type: Type.STRING } },
+        palette: { type: Type.ARRAY, description: "The character's 3-5 signature colors.", items: { type: Type.STRING } },
+        negativeTraits: { type: Type.ARRAY, description: "Things the character must never be shown with, to keep image generators from drifting (e.g. 'glasses', 'beard').", items: { type: Type.STRING } }
+    },
+    required: ['name', 'age', 'face', 'hair', 'skin', 'attire', 'accessories', 'palette', 'negativeTraits']
+};
+
+/**
+ * Streams a structured response, parses it and checks it against the schema, repairing what can be repaired.
+ * A failed, malformed or invalid stream is started over by the request layer, so `onPartial` may go back to an
+ * earlier state.
+ * @param context The operation, for retry statuses, e.g. 'story and prompt generation'.
+ * @param onPartial Called with what has been parsed so far each time more of the response arrives. Partial
+ *   responses are not validated, so their fields still need narrowing.
+ * @param validation Which lists the caller completes itself, so their broken items are dropped instead of re-asked.
+ * @returns The parsed, validated response.
+ * @throws ApiError if the request was blocked, or the response is still unusable after retrying.
+ */
+async function streamJson<T>(context: string, prompt: string, schema: Schema, { signal, usage }: CallOptions, onPartial?: (partial: Record<string, unknown>) => void, validation?: ValidationOptions): Promise<T> {
+    return requestWithRetry(context, async (attemptSignal, keepAlive) => {
+        let jsonText = '';
+        let blockReason: string | undefined;
+        let tokens: TextGenerationResult['usage'];
+        for await (const chunk of getProvider('text').streamText({ prompt, schema, signal: attemptSignal })) {
+            keepAlive();
+            jsonText += chunk.text ?? '';
+            blockReason = chunk.blockReason ?? blockReason;
+            tokens = chunk.usage ?? tokens;
+            if (!onPartial || !chunk.text) continue;
+            try {
+                const partial = parsePartialJson(jsonText);
+                if (partial && typeof partial === 'object' && !Array.isArray(partial)) {
+                    onPartial(partial as Record<string, unknown>);
+                }
+            } catch {
+                // Malformed so far; the final parse below reports it if it stays that way.
+            }
+        }
+        recordTextUsage(context, { usage: tokens }, usage);
+
+        if (!jsonText || jsonText.trim() === '') {
+            if (blockReason) {
+                throw new ApiError('safety', `Request was blocked due to ${blockReason}. Please adjust your prompt to be safer.`);
+            }
+            throw new SyntaxError("The AI returned an empty response.");
+        }
+        return conformResponse<T>(JSON.parse(jsonText.trim()), schema, context, validation);
+    }, { signal, timeoutMs: STREAM_IDLE_TIMEOUT_MS });
+}
+
+interface SceneContext {
+    source: string; // the story, or the scene description in detail mode
+    characters: string; // the description to use for each character, one per line
+    outline: string[]; // one summary per scene; empty when the scenes were not planned up front
+    videoStyle: string;
+    promptLanguage: string;
+}
+
+/**
+ * Writes the prompts for one range of scenes, continuing from the scenes written before it. Scenes the model skips
+ * or misnumbers are asked for again, a few times at most.
+ * @param written The scenes written so far, for continuity.
+ * @param onPartial Receives the range's scenes as they arrive.
+ * @returns The range's scenes that could be written, in order.
+ */
+async function generateSceneChunk(
+    context: SceneContext,
+    range: SceneRange,
+    written: ScenePrompt[],
+    options: CallOptions,
+    onPartial: (scenes: ScenePrompt[]) => void,
+): Promise<ScenePrompt[]> {
+    const scenes: ScenePrompt[] = [];
+    for (let attempt = 0; attempt < MAX_SCENE_CHUNK_ATTEMPTS; attempt++) {
+        const missing = findMissingSceneRanges(scenes, range[1]).filter(([, last]) => last >= range[0]);
+        if (missing.length === 0) break;
+        const first = Math.max(range[0], missing[0][0]);
+        const last = missing[missing.length - 1][1];
+        const previous = [...written, ...scenes].filter(p => p.scene_number < first).slice(-SCENE_CONTEXT_OVERLAP);
+        const outline = context.outline
+            .map((summary, i) => ({ summary, sceneNumber: i + 1 }))
+            .filter(({ sceneNumber }) => sceneNumber >= first - SCENE_CONTEXT_OVERLAP && sceneNumber <= last + SCENE_CONTEXT_OVERLAP);
+        const prompt = `
+            You are an expert prompt engineer writing the image prompts for a long kids' video, a few scenes at a time.
+            The final output must be a JSON object matching the provided schema.
+            Desired Video Style: ${context.videoStyle}
+
+            **Story:**
+            ---
+            ${context.source}
+            ---
+
+            **Characters:**
+            ---
+            ${context.characters}
+            ---
+            ${outline.length > 0 ? `
+            **Scene Outline (around the scenes to write):**
+            ${outline.map(({ summary, sceneNumber }) => `${sceneNumber}. ${summary}`).join('\n            ')}
+            ` : ''}${previous.length > 0 ? `
+            **The Scenes Just Before (already written; continue from them, do not repeat them):**
+            ${previous.map(p => `${p.scene_number}. ${p.prompt}`).join('\n            ')}
+            ` : ''}
+            **Task:** Write scenes ${first} to ${last}, exactly ${last - first + 1} JSON prompt objects numbered ${first} to ${last}${outline.length > 0 ? ', each following its outline summary' : ', continuing the story in order'}.
+            -   \`start_time_seconds\` and \`end_time_seconds\`: Each scene lasts 8 seconds (scene ${first} is ${(first - 1) * 8}-${first * 8}s).
+            -   \`prompt\`: This string MUST begin with "${context.videoStyle}". Then, for **ANY** character mentioned by name, you **MUST** include their description from the character list above, word for word, to maintain consistency. This is followed by a description of the action, environment, lighting, and mood. The prompt string MUST end with "--ar 16:9".
+            -   Write every prompt in **${context.promptLanguage}**.
+        `;
+        const schema = {
+            type: Type.OBJECT,
+            properties: {
+                prompts: { type: Type.ARRAY, description: `Exactly ${last - first + 1} scenes, numbered ${first} to ${last}.`, items: sceneSchema }
+            },
+            required: ['prompts']
+        };
+        const response = await streamJson<{ prompts: ScenePrompt[] }>('scene writing', prompt, schema, options,
+            partial => onPartial([...scenes, ...normalizeScenes(partial.prompts, [first, last])]),
+            { completedByCaller: ['$.prompts'] });
+        const known = new Set(scenes.map(p => p.scene_number));
+        scenes.push(...normalizeScenes(response.prompts, [first, last]).filter(p => !known.has(p.scene_number)));
+        scenes.sort((a, b) => a.scene_number - b.scene_number);
+    }
+    return scenes;
+}
+
+const isGeneratedCharacter = (value: unknown): value is GeneratedCharacter =>
+    typeof value === 'object' && value !== null
+    && typeof (value as GeneratedCharacter).name === 'string' && typeof (value as GeneratedCharacter).description === 'string';
+
+/**
+ * Keeps the fields a mode is meant to produce, files the localized story under its language and renders the
+ * character sheets. Works on partial responses too, so streamed previews look like the final result.
+ * @param response The parsed response, narrowed field by field since partial responses are not validated.
+ * @param numPrompts The number of scenes asked for; scenes outside it are dropped.
+ * @param savedSheets Sheets of recurring characters; they replace whatever the model wrote for those characters.
+ */
+function shapeStoryResult(
+    response: Record<string, unknown>,
+    mode: GenerateOptions['mode'],
+    storyLanguage: string,
+    numPrompts: number,
+    savedSheets: CharacterSheet[],
+): GeneratedResult {
+    const characterSheets = Array.isArray(response.characterSheets)
+        ? response.characterSheets.map(sheet => {
+            const normalized = normalizeCharacterSheet(sheet);
+            return findCharacterSheet(savedSheets, normalized.name) ?? normalized;
+        })
+        : undefined;
+    const result: GeneratedResult = {
+        characterSheet: characterSheets ? characterSheetsToMarkdown(characterSheets) : '',
+        ...(characterSheets ? { characterSheets } : {}),
+    };
+    if (mode !== 'detail') {
+        if (typeof response.storyScript === 'string') {
+            result.storyScript = response.storyScript;
+        }
+        if (Array.isArray(response.characters)) {
+            result.characters = response.characters.filter(isGeneratedCharacter);
+        }
+        result.storyLanguage = storyLanguage;
+        if (typeof response.localizedStoryScript === 'string' && response.localizedStoryScript) {
+            result.storyScripts = { [storyLanguage]: response.localizedStoryScript };
+        }
+    }
+    if (mode !== 'fromTitle' && response.prompts !== undefined) {
+        result.prompts = normalizeScenes(response.prompts, [1, numPrompts]);
+    }
+    return result;
 }
 
+/**
+ * Writes the character sheet, story and scene prompts for a new project. The response is streamed, so callers can
+ * show it while it is being written. Long videos are planned as a scene outline first and their prompts written in
+ * chunks from it; any scenes still missing are requested again until the list is complete.
+ * @param options What to generate from and in which languages.
+ * @param streamOptions Receives partial results as they arrive; the signal cancels the request.
+ * @returns The complete result.
+ */
 export async function generateStoryAndPrompts(
-  options: GenerateOptions
+  options: GenerateOptions,
+  { onPartial, ...callOptions }: StreamOptions = {}
 ): Promise<GeneratedResult> {
+  // The proxy answers in one piece, so there is nothing to preview in proxy mode.
+  if (isProxyEnabled()) return callProxy('generateStoryAndPrompts', [options], callOptions.signal, callOptions.usage);
   
-  const { characters, numPrompts, mode, sceneOrTitleOrVoiceover, videoStyle, storyLength } = options;
+  const { characters, numPrompts, mode, sceneOrTitleOrVoiceover, videoStyle, storyLength, languages } = options;
+  const storyLanguage = getLanguage(languages.story);
+  const promptLanguage = getLanguage(languages.prompts);
+  const isStoryTranslated = storyLanguage.code !== ENGLISH;
+
+  // The story is always returned in English too, since thumbnails and titles are generated from it.
+  const localizedStoryProperty = (source: string) => isStoryTranslated ? {
+    localizedStoryScript: {
+        type: Type.STRING,
+        description: `The full story script, originally written in ${storyLanguage.promptName} based on the provided ${source}.`
+    }
+  } : {};
+  const localizedStoryRequired = isStoryTranslated ? ['localizedStoryScript'] : [];
+  const englishStoryDescription = isStoryTranslated
+    ? `The full story script, written out as a narrative in English, translated from the original ${storyLanguage.label} version.`
+    : "The full story script, written out as a narrative in English.";
+
+  // Long videos only get a scene outline here; the prompts are written from it in chunks afterwards.
+  const isChunked = mode !== 'fromTitle' && numPrompts > SCENE_CHUNK_SIZE;
+  const scenesProperty = isChunked ? {
+    sceneOutline: {
+        type: Type.ARRAY,
+        description: `Exactly ${numPrompts} one-sentence scene summaries, in order: what happens, who is in it and where.`,
+        items: { type: Type.STRING },
+        maxItems: String(numPrompts)
+    }
+  } : {
+    prompts: {
+        type: Type.ARRAY,
+        description: `A list of exactly ${numPrompts} JSON objects, each representing a scene for image generation.`,
+        items: sceneSchema
+    }
+  };
+  const scenesRequired = isChunked ? ['sceneOutline'] : ['prompts'];
+  const scenesField = isChunked ? 'sceneOutline' : 'prompts';
 
   const fromTitleSchema = {
     type: Type.OBJECT,
     properties: {
-        characterSheet: {
-            type: Type.STRING,
-            description: "A single Markdown document containing the detailed, reusable character sheets for all characters invented by the AI."
+        characterSheets: {
+            type: Type.ARRAY,
+            description: "One detailed, reusable character sheet for each of all characters invented by the AI.",
+            items: characterSheetSchema
         },
         storyScript: {
             type: Type.STRING,
-            description: "The full story script, written out as a narrative in English, translated from the original Roman Urdu version."
+            description: englishStoryDescription
         },
         characters: {
             type: Type.ARRAY,
@@ -83,49 +377,35 @@ export async function generateStoryAndPrompts(
                 required: ['name', 'description']
             }
         },
-        storyScriptRomanUrdu: {
-            type: Type.STRING,
-            description: "The full story script, originally written in Roman Urdu based on the provided title."
-        }
+        ...localizedStoryProperty('title')
     },
-    required: ['characterSheet', 'storyScript', 'characters', 'storyScriptRomanUrdu']
+    required: ['characterSheets', 'storyScript', 'characters', ...localizedStoryRequired]
   };
 
   const detailSchema = {
     type: Type.OBJECT,
     properties: {
-      characterSheet: {
-        type: Type.STRING,
-        description: "A single Markdown document containing the detailed, reusable character sheets for all characters."
-      },
-      prompts: {
+      characterSheets: {
         type: Type.ARRAY,
-        description: `A list of exactly ${numPrompts} JSON objects, each representing a scene for image generation.`,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            scene_number: { type: Type.INTEGER, description: "The chronological order of the scene, starting from 1." },
-            start_time_seconds: { type: Type.INTEGER, description: "The start time of this scene in the video, in seconds." },
-            end_time_seconds: { type: Type.INTEGER, description: "The end time of this scene in the video, in seconds. This should be 8 seconds after the start time." },
-            prompt: { type: Type.STRING, description: "A highly detailed, self-contained prompt for an AI image generator, including video style, character descriptions, action, and environment. End with '--ar 16:9'." }
-          },
-          required: ['scene_number', 'start_time_seconds', 'end_time_seconds', 'prompt']
-        }
-      }
+        description: "One detailed, reusable character sheet for each of the characters.",
+        items: characterSheetSchema
+      },
+      ...scenesProperty
     },
-    required: ['characterSheet', 'prompts']
+    required: ['characterSheets', ...scenesRequired]
   };
 
   const fromVoiceoverSchema = {
     type: Type.OBJECT,
     properties: {
-        characterSheet: {
-            type: Type.STRING,
-            description: "A single Markdown document containing the detailed, reusable character sheets for all characters identified from the voiceover script (those mentioned more than once)."
+        characterSheets: {
+            type: Type.ARRAY,
+            description: "One detailed, reusable character sheet for each of all characters identified from the voiceover script (those mentioned more than once).",
+            items: characterSheetSchema
         },
         storyScript: {
             type: Type.STRING,
-            description: "The full story script, written as a narrative in English, translated from the original Roman Urdu version."
+            description: englishStoryDescription
         },
         characters: {
             type: Type.ARRAY,
@@ -139,55 +419,59 @@ export async function generateStoryAndPrompts(
                 required: ['name', 'description']
             }
         },
-        prompts: {
-          type: Type.ARRAY,
-          description: `A list of exactly ${numPrompts} JSON objects, each representing a scene for image generation.`,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              scene_number: { type: Type.INTEGER, description: "The chronological order of the scene, starting from 1." },
-              start_time_seconds: { type: Type.INTEGER, description: "The start time of this scene in the video, in seconds." },
-              end_time_seconds: { type: Type.INTEGER, description: "The end time of this scene in the video, in seconds. This should be 8 seconds after the start time." },
-              prompt: { type: Type.STRING, description: "A highly detailed, self-contained prompt for an AI image generator, including video style, character descriptions, action, and environment. End with '--ar 16:9'." }
-            },
-            required: ['scene_number', 'start_time_seconds', 'end_time_seconds', 'prompt']
-          }
-        },
-        storyScriptRomanUrdu: {
-            type: Type.STRING,
-            description: "The full story script, originally written in Roman Urdu based on the provided voiceover script."
-        }
+        ...scenesProperty,
+        ...localizedStoryProperty('voiceover script')
     },
-    required: ['characterSheet', 'storyScript', 'characters', 'prompts', 'storyScriptRomanUrdu']
+    required: ['characterSheets', 'storyScript', 'characters', ...scenesRequired, ...localizedStoryRequired]
 };
   
   let schema;
   let masterPrompt;
   
-  const characterDetails = characters.map(c => `- Name: ${c.name || 'Unnamed'}\n  - Key Physical Appearance Details: ${c.appearance}`).join('\n');
+  const characterDetails = characters.map(c =>
+      `- Name: ${c.name || 'Unnamed'}\n  - Key Physical Appearance Details: ${c.appearance}` +
+      (c.characterSheet ? `\n  - Saved Character Sheet:\n${characterSheetToMarkdown(c.characterSheet)}` : c.sheet ? `\n  - Saved Character Sheet:\n${c.sheet}` : '')
+  ).join('\n');
+
+  // Characters from the library must keep their saved look, so modes that invent characters are told to reuse them verbatim.
+  const recurringCharacters = characters.length > 0 ? `
+          - Recurring Characters (already established in earlier episodes):
+            ${characterDetails}
+          - **CRITICAL:** Reuse every recurring character above with EXACTLY the appearance described. Do not change their look, clothing or colors. Copy their details into the character sheet and character descriptions unchanged.
+  ` : '';
+
+  const sheetInstructions = `Fill in every trait of each sheet separately (age, face, hair, skin, attire, accessories, color palette, and traits the character must never be shown with) as one entry of 'characterSheets'.`;
+
+  const translateStep = (step: number) => isStoryTranslated
+    ? `${step}.  **Translate Story to English:** Translate the entire ${storyLanguage.label} story script into English.`
+    : `${step}.  **English Story:** The story is already in English, so no translation is needed.`;
+  const storyFields = isStoryTranslated
+    ? `'storyScript' (the English translation)`
+    : `'storyScript' (the English story)`;
+  const localizedStoryField = isStoryTranslated ? `, and 'localizedStoryScript' (the original ${storyLanguage.label} story)` : '';
 
   switch (mode) {
     case 'fromVoiceover':
         schema = fromVoiceoverSchema;
         masterPrompt = `
-          You are an expert prompt engineer and a creative storyteller for kids, specializing in Roman Urdu content. Your task is to generate content based on a provided voiceover script.
+          You are an expert prompt engineer and a creative storyteller for kids, specializing in ${storyLanguage.label} content. Your task is to generate content based on a provided voiceover script.
           The final output must be a JSON object matching the provided schema.
           Desired Video Style for any visual descriptions: ${videoStyle}
   
           **Mode: From Voiceover**
           - Voiceover Script Provided: "${sceneOrTitleOrVoiceover}"
           - Number of Image Prompts to Generate: ${numPrompts}
-  
+          ${recurringCharacters}
           1.  **Analyze Script & Identify Characters:** Read the voiceover script carefully. Identify all characters that are mentioned more than one time.
-          2.  **Invent & Create Character Sheets:** For each identified character, invent a detailed visual appearance. Write a highly descriptive "Character Sheet" in **English** for **EACH** invented character. This is crucial for visual consistency for an AI image generator. Combine all character sheets into a single markdown string.
-          3.  **Write Story Script in Roman Urdu:** Based on the voiceover, write a full narrative story script in **Roman Urdu** that expands on the events. This is the primary story.
-          4.  **Translate Story to English:** Translate the entire Roman Urdu story script into English.
-          5.  **Generate Character Descriptions:** For each character you invented, create a separate JSON object in **English** containing their name and a detailed, self-contained, prompt-style description of their appearance.
-          6.  **Generate Video Prompts:** Break down the story into ${numPrompts} sequential scenes. For each scene, create a JSON prompt object. The prompts must be in **English**.
+          2.  **Invent & Create Character Sheets:** For each identified character that is not a recurring character, invent a detailed visual appearance. Write a highly descriptive "Character Sheet" in **${promptLanguage.promptName}** for **EACH** invented character. This is crucial for visual consistency for an AI image generator. ${sheetInstructions}
+          3.  **Write Story Script in ${storyLanguage.label}:** Based on the voiceover, write a full narrative story script in **${storyLanguage.promptName}** that expands on the events. This is the primary story.
+          ${translateStep(4)}
+          5.  **Generate Character Descriptions:** For each character you invented, create a separate JSON object in **${promptLanguage.promptName}** containing their name and a detailed, self-contained, prompt-style description of their appearance.
+          ${isChunked ? `6.  **Plan the Scenes:** Break down the story into exactly ${numPrompts} sequential 8-second scenes and write a one-sentence summary of each in 'sceneOutline'. The detailed prompts are written later from this outline.` : `6.  **Generate Video Prompts:** Break down the story into ${numPrompts} sequential scenes. For each scene, create a JSON prompt object. The prompts must be in **${promptLanguage.promptName}**.
           7.  **CRITICAL RULE for each prompt object:**
               -   \`scene_number\`, \`start_time_seconds\`, \`end_time_seconds\`: Calculate these based on an 8-second duration for each scene (e.g., scene 1 is 0-8s, scene 2 is 8-16s, etc.).
-              -   \`prompt\`: This string MUST begin with "${videoStyle}". Then, for **ANY** character mentioned by name, you **MUST** include their detailed appearance from their character sheet to maintain consistency. This is followed by a description of the action, environment, lighting, and mood. The prompt string MUST end with "--ar 16:9".
-          8.  **Final JSON:** Populate all fields: 'characterSheet', 'storyScript' (the English translation), 'characters', 'prompts', and 'storyScriptRomanUrdu' (the original Roman Urdu story).
+              -   \`prompt\`: This string MUST begin with "${videoStyle}". Then, for **ANY** character mentioned by name, you **MUST** include their detailed appearance from their character sheet to maintain consistency. This is followed by a description of the action, environment, lighting, and mood. The prompt string MUST end with "--ar 16:9".`}
+          8.  **Final JSON:** Populate all fields: 'characterSheets', ${storyFields}, 'characters', '${scenesField}'${localizedStoryField}.
         `;
         break;
     case 'fromTitle': {
@@ -199,7 +483,7 @@ export async function generateStoryAndPrompts(
         const characterCount = storyLengthToCharCount[storyLength];
         schema = fromTitleSchema;
         masterPrompt = `
-            You are an expert prompt engineer and a creative storyteller for kids, specializing in Roman Urdu content.
+            You are an expert prompt engineer and a creative storyteller for kids, specializing in ${storyLanguage.label} content.
             Your task is to generate content based on user input.
             The final output must be a JSON object matching the provided schema.
             Desired Video Style for any visual descriptions: ${videoStyle}
@@ -207,13 +491,13 @@ export async function generateStoryAndPrompts(
             **Mode: From Title**
             - Story Title: "${sceneOrTitleOrVoiceover}"
             - Desired Story Length: ${storyLength}
-        
-            1.  **Invent Characters:** Based on the story title, invent at least two compelling characters that fit the theme.
-            2.  **Create Character Sheets:** Write a highly detailed, descriptive "Character Sheet" in **English** for **EACH** invented character. This is crucial for visual consistency for an AI image generator. Combine all character sheets into a single markdown string.
-            3.  **Write Story Script in Roman Urdu:** Write a compelling story in **Roman Urdu** based on the title and the characters you invented. **CRITICAL:** The story script must be approximately ${characterCount} characters long. This is the primary story.
-            4.  **Translate Story to English:** Translate the entire Roman Urdu story script into English.
-            5.  **Generate Character Descriptions:** For each character you invented, create a separate JSON object in **English** containing their name and a detailed, self-contained, prompt-style description of their appearance.
-            6.  **Final JSON:** Populate all fields: 'characterSheet', 'storyScript' (the English translation), 'characters', and 'storyScriptRomanUrdu' (the original Roman Urdu story). Do NOT generate 'prompts'.
+            ${recurringCharacters}
+            1.  **Invent Characters:** Based on the story title, invent at least two compelling characters that fit the theme. If recurring characters are provided, cast them as the main characters and only invent additional characters the story needs.
+            2.  **Create Character Sheets:** Write a highly detailed, descriptive "Character Sheet" in **${promptLanguage.promptName}** for **EACH** invented character. This is crucial for visual consistency for an AI image generator. ${sheetInstructions}
+            3.  **Write Story Script in ${storyLanguage.label}:** Write a compelling story in **${storyLanguage.promptName}** based on the title and the characters you invented. **CRITICAL:** The story script must be approximately ${characterCount} characters long. This is the primary story.
+            ${translateStep(4)}
+            5.  **Generate Character Descriptions:** For each character you invented, create a separate JSON object in **${promptLanguage.promptName}** containing their name and a detailed, self-contained, prompt-style description of their appearance.
+            6.  **Final JSON:** Populate all fields: 'characterSheets', ${storyFields}, 'characters'${localizedStoryField}. Do NOT generate 'prompts'.
         `;
         break;
     }
@@ -233,110 +517,222 @@ export async function generateStoryAndPrompts(
             - Number of Image Prompts to Generate: ${numPrompts}
             - Assumed scene duration: 8 seconds.
             
-            1.  First, create a highly detailed, descriptive "Character Sheet" for **EACH** character based on the details provided. This sheet is crucial for visual consistency. Use specific keywords for an AI image generator. Break it down into logical categories (e.g., 'Face', 'Hair', 'Attire'). Combine all character sheets into a single markdown string under a main "Character Sheets" heading.
-            2.  Then, based on the scene description, generate ${numPrompts} distinct, sequential JSON prompt objects that depict the unfolding action within that scene. Imagine it as a short storyboard.
+            1.  First, create a highly detailed, descriptive "Character Sheet" for **EACH** character based on the details provided. This sheet is crucial for visual consistency. Use specific keywords for an AI image generator. ${sheetInstructions}
+            ${isChunked ? `2.  Then, based on the scene description, plan exactly ${numPrompts} distinct, sequential 8-second scenes that depict the unfolding action within that scene, and write a one-sentence summary of each in 'sceneOutline'. The detailed prompts are written later from this outline.
+            3.  Write the character sheet in **${promptLanguage.promptName}**.` : `2.  Then, based on the scene description, generate ${numPrompts} distinct, sequential JSON prompt objects that depict the unfolding action within that scene. Imagine it as a short storyboard.
             3.  **CRITICAL RULE for each JSON prompt object:**
                 -   \`scene_number\`: The chronological order of the scene, starting from 1.
                 -   \`start_time_seconds\` and \`end_time_seconds\`: Calculate these based on an 8-second duration for each scene (e.g., scene 1 is 0-8s, scene 2 is 8-16s, etc.).
                 -   \`prompt\`: This string MUST begin with the video style: "${videoStyle}". Then, for **ANY** character mentioned by name, you **MUST** include their detailed appearance from their character sheet to maintain consistency. This should be followed by a description of the action, environment, lighting, and mood. The prompt string MUST end with "--ar 16:9".
-            4.  Populate the 'characterSheet' and 'prompts' fields in the JSON output. Do not generate a 'storyScript' or 'characters'.
+            4.  Write the character sheet and every prompt in **${promptLanguage.promptName}**.`}
+            5.  Populate the 'characterSheets' and '${scenesField}' fields in the JSON output. Do not generate a 'storyScript' or 'characters'.
         `;
         break;
   }
 
   try {
-    const response: GenerateContentResponse = await aiGlobal.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: masterPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        safetySettings: safetySettings,
-      },
-    });
-    
-    const jsonText = response.text;
-
-    if (!jsonText || jsonText.trim() === '') {
-        const blockReason = response.promptFeedback?.blockReason;
-        if (blockReason) {
-            throw new Error(`Request was blocked due to ${blockReason}. Please adjust your prompt to be safer.`);
-        }
-        throw new Error("The AI returned an empty or invalid response. Please try again.");
+    const savedSheets = characters.flatMap(c => c.characterSheet ? [c.characterSheet] : []);
+    const shape = (response: Record<string, unknown>) => shapeStoryResult(response, mode, storyLanguage.code, numPrompts, savedSheets);
+    // Missing or broken scenes are written again below, so they do not make the whole story be asked for again.
+    const response = await streamJson<Record<string, unknown>>('story and prompt generation', masterPrompt, schema, callOptions, partial => onPartial?.(shape(partial)),
+        { completedByCaller: ['$.prompts'] });
+    const outline = Array.isArray(response.sceneOutline)
+        ? response.sceneOutline.filter((summary): summary is string => typeof summary === 'string')
+        : [];
+    const result = shape(response);
+    if (mode === 'fromTitle') {
+        return result;
     }
 
-    const result = JSON.parse(jsonText.trim());
-
-    if(mode === 'detail') {
-        if (result.storyScript) delete result.storyScript;
-        if (result.characters) delete result.characters;
+    // Long lists come back short or cut off, so every scene is checked and missing ones are written in chunks.
+    const prompts = [...result.prompts ?? []];
+    const context: SceneContext = {
+        source: result.storyScript || sceneOrTitleOrVoiceover,
+        characters: result.characterSheets?.length
+            ? result.characterSheets.map(characterPromptText).join('\n')
+            : result.characterSheet,
+        outline,
+        videoStyle,
+        promptLanguage: promptLanguage.promptName,
+    };
+    for (const range of findMissingSceneRanges(prompts, numPrompts)) {
+        for (const chunk of chunkSceneRange(range, SCENE_CHUNK_SIZE)) {
+            const scenes = await generateSceneChunk(context, chunk, prompts, callOptions,
+                partialScenes => onPartial?.({ ...result, prompts: [...prompts, ...partialScenes] }));
+            prompts.push(...scenes);
+            prompts.sort((a, b) => a.scene_number - b.scene_number);
+        }
     }
-    if (mode === 'fromTitle' && result.prompts) {
-        delete result.prompts;
+    const stillMissing = findMissingSceneRanges(prompts, numPrompts);
+    if (stillMissing.length > 0) {
+        throw new Error(`The AI could not write scenes ${stillMissing.map(([first, last]) => first === last ? first : `${first}-${last}`).join(', ')}. Please try again.`);
     }
-    
-    return result;
+    return { ...result, prompts };
 
   } catch (error) {
-    if (error instanceof SyntaxError) {
-        throw new Error("The AI returned a malformed response that could not be understood. Please try again.");
-    }
     throw handleApiError(error, 'story and prompt generation');
   }
 }
 
-export async function generateVoiceoverScript(storyScript: string, targetCharacterCount: number, isUrdu: boolean): Promise<string> {
-  const prompt = isUrdu
-    ? `
-    You are a creative storyteller for children. Your task is to rewrite the following Roman Urdu story script into a captivating voiceover script in Roman Urdu for a kids' video.
+const withAspectRatioSuffix = (scenePrompt: string) =>
+    /--ar\s*\d+:\d+\s*$/.test(scenePrompt) ? scenePrompt : `${scenePrompt} --ar 16:9`;
 
-    **Instructions:**
-    1.  **Engaging Hook:** Start with a hook! Ask a question or present a mysterious statement in Roman Urdu to make kids curious and want to watch the whole video.
-    2.  **Simple Language:** Use simple, easy-to-understand Roman Urdu words that a young child can follow. Keep sentences short and clear.
-    3.  **Kid-Friendly Tone:** The tone should be friendly, warm, and exciting.
-    4.  **Character Limit:** **CRITICAL REQUIREMENT:** The final voiceover script MUST NOT exceed ${targetCharacterCount} characters. You must be concise.
-    5.  **Core Story:** Preserve the main events and feelings of the story.
-    6.  **Format:** Write it as a single, flowing paragraph in Roman Urdu ready for a voice actor to read. Do not include any headings or scene numbers.
+/**
+ * Rewrites one scene prompt so it follows the scene prompt rules again, keeping what the scene shows.
+ * @param scenePrompt The current prompt.
+ * @param issues What the consistency check found wrong with it.
+ * @param videoStyle The project's video style, which the prompt must start with.
+ * @param sheets The project's character sheets, for the characters' exact looks.
+ * @returns The repaired prompt, ending with "--ar 16:9".
+ */
+export async function repairScenePrompt(scenePrompt: string, issues: PromptIssue[], videoStyle: string, sheets: CharacterSheet[], { signal, usage }: CallOptions = {}): Promise<string> {
+    if (isProxyEnabled()) return callProxy('repairScenePrompt', [scenePrompt, issues, videoStyle, sheets], signal, usage);
 
-    **Original Roman Urdu Story:**
-    ---
-    ${storyScript}
-    ---
+    const prompt = `
+        You are fixing one scene prompt for an AI image and video generator. Keep the scene's action, environment,
+        lighting, mood and language exactly as they are; only fix the problems listed below.
+
+        **Rules every scene prompt follows:**
+        - It begins with "${videoStyle}".
+        - Every character mentioned by name is described exactly as in their character sheet below, word for word.
+        - People in the scene are referred to by their character names, not as "a boy" or "a girl".
+        - No colour or item contradicts a character's sheet, and nothing on their "never shown with" list appears.
+        - It ends with "--ar 16:9".
+
+        **Character Sheets:**
+        ---
+        ${sheets.length > 0 ? sheets.map(characterPromptText).join('\n') : 'None.'}
+        ---
+
+        **Problems Found:**
+        ${issues.map(issue => `- ${issue.message}`).join('\n        ')}
+
+        **Current Prompt:**
+        ---
+        ${scenePrompt}
+        ---
+
+        Output ONLY the fixed prompt text, no explanations.
+
+        **Fixed Prompt:**`;
+
+    try {
+        const response = await generateText('scene repair', { prompt, signal }, usage);
+        const repaired = response.text?.trim();
+        if (!repaired) {
+            if (response.blockReason) {
+                throw new Error(`Scene repair was blocked due to ${response.blockReason}.`);
+            }
+            throw new Error("The AI returned an empty response for the scene repair.");
+        }
+        return withAspectRatioSuffix(repaired);
+    } catch (error) {
+        throw handleApiError(error, 'scene repair');
+    }
+}
+
+const NEIGHBOUR_SCENES = 2;
+
+/**
+ * Writes a new prompt for one scene so it fits between the scenes around it.
+ * @param scenes All scenes, in order.
+ * @param index The position of the scene to rewrite; its current prompt is given to the model as a starting point.
+ * @param storyScript The story, when the project has one.
+ * @param videoStyle The project's video style.
+ * @param characters The description to use for each character, one per line.
+ * @returns The new prompt, ending with "--ar 16:9".
+ */
+export async function regenerateScenePrompt(scenes: ScenePrompt[], index: number, storyScript: string | undefined, videoStyle: string, characters: string, { signal, usage }: CallOptions = {}): Promise<string> {
+    if (isProxyEnabled()) return callProxy('regenerateScenePrompt', [scenes, index, storyScript, videoStyle, characters], signal, usage);
+
+    const scene = scenes[index];
+    const describe = (list: ScenePrompt[]) => list.length > 0
+        ? list.map(p => `Scene ${p.scene_number}: ${p.prompt}`).join('\n')
+        : 'None.';
+    const prompt = `
+        You are rewriting one scene of a storyboard for an AI image and video generator. The scenes before and after
+        it stay as they are, so the new scene must continue the one before it and lead into the one after it.
+
+        ${storyScript ? `**Story:**\n        ---\n        ${storyScript}\n        ---` : ''}
+
+        **Characters:**
+        ---
+        ${characters || 'None.'}
+        ---
+
+        **Scenes Before:**
+        ${describe(scenes.slice(Math.max(0, index - NEIGHBOUR_SCENES), index))}
+
+        **Scenes After:**
+        ${describe(scenes.slice(index + 1, index + 1 + NEIGHBOUR_SCENES))}
 
-    **Kids' Voiceover Script in Roman Urdu (MAX ${targetCharacterCount} characters):**
-  `
-    : `
-    You are a creative storyteller for children. Your task is to rewrite the following story script into a captivating voiceover script for a kids' video.
+        **Scene To Rewrite (current version, may be empty or rough):**
+        ${scene?.prompt || 'Empty.'}
+        ${scene?.narration ? `\n        Narration spoken over this scene: "${scene.narration}"` : ''}
+
+        **Rules:**
+        - Write in the same language as the other scene prompts.
+        - Begin with "${videoStyle}".
+        - For ANY character mentioned by name, include their description from the character list above, word for word.
+        - Then describe the action, environment, lighting, and mood.
+        - End with "--ar 16:9".
+
+        Output ONLY the new prompt text, no explanations.
+
+        **New Prompt:**`;
+
+    try {
+        const response = await generateText('scene regeneration', { prompt, signal }, usage);
+        const rewritten = response.text?.trim();
+        if (!rewritten) {
+            if (response.blockReason) {
+                throw new Error(`Scene regeneration was blocked due to ${response.blockReason}.`);
+            }
+            throw new Error("The AI returned an empty response for the scene.");
+        }
+        return withAspectRatioSuffix(rewritten);
+    } catch (error) {
+        throw handleApiError(error, 'scene regeneration');
+    }
+}
+
+/**
+ * Rewrites a story as a single-narrator kids' voiceover.
+ * @param storyScript The story, in any language.
+ * @param targetCharacterCount The maximum length of the voiceover.
+ * @param language The language code to write the voiceover in.
+ * @returns The voiceover script.
+ */
+export async function generateVoiceoverScript(storyScript: string, targetCharacterCount: number, language: string, { signal, usage }: CallOptions = {}): Promise<string> {
+  if (isProxyEnabled()) return callProxy('generateVoiceoverScript', [storyScript, targetCharacterCount, language], signal, usage);
+
+  const { label, promptName } = getLanguage(language);
+  const prompt = `
+    You are a creative storyteller for children. Your task is to rewrite the following story script into a captivating voiceover script in ${promptName} for a kids' video.
 
     **Instructions:**
-    1.  **Engaging Hook:** Start with a hook! Ask a question or present a mysterious statement to make kids curious and want to watch the whole video.
-    2.  **Simple Language:** Use simple, easy-to-understand words that a young child can follow. Keep sentences short and clear.
+    1.  **Engaging Hook:** Start with a hook! Ask a question or present a mysterious statement in ${label} to make kids curious and want to watch the whole video.
+    2.  **Simple Language:** Use simple, easy-to-understand ${label} words that a young child can follow. Keep sentences short and clear.
     3.  **Kid-Friendly Tone:** The tone should be friendly, warm, and exciting.
     4.  **Character Limit:** **CRITICAL REQUIREMENT:** The final voiceover script MUST NOT exceed ${targetCharacterCount} characters. You must be concise.
-    5.  **Core Story:** Preserve the main events and feelings of the story.
-    6.  **Format:** Write it as a single, flowing paragraph ready for a voice actor to read. Do not include any headings or scene numbers.
+    5.  **Core Story:** Preserve the main events and feelings of the story. If the story is written in another language, translate it as you go.
+    6.  **Format:** Write it as a single, flowing paragraph in ${label} ready for a voice actor to read. Do not include any headings or scene numbers.
 
     **Original Story:**
     ---
     ${storyScript}
     ---
 
-    **Kids' Voiceover Script (MAX ${targetCharacterCount} characters):**
+    **Kids' Voiceover Script in ${label} (MAX ${targetCharacterCount} characters):**
   `;
 
   try {
-    const response: GenerateContentResponse = await aiGlobal.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        safetySettings: safetySettings,
-      },
-    });
+    const response = await generateText('voiceover generation', { prompt, signal }, usage);
     
     const text = response.text;
 
     if (text === undefined || text === null) {
-        const blockReason = response.promptFeedback?.blockReason;
+        const blockReason = response.blockReason;
         if (blockReason) {
             throw new Error(`Voiceover generation was blocked due to ${blockReason}.`);
         }
@@ -349,7 +745,9 @@ export async function generateVoiceoverScript(storyScript: string, targetCharact
   }
 }
 
-export async function enhanceVoiceoverScript(script: string): Promise<string> {
+export async function enhanceVoiceoverScript(script: string, { signal, usage }: CallOptions = {}): Promise<string> {
+  if (isProxyEnabled()) return callProxy('enhanceVoiceoverScript', [script], signal, usage);
+
   const prompt = `
     You are an expert voiceover director. Your goal is to make the voice actor's performance sound like a calm, conversational, and mature storyteller. The delivery should have a natural flow, not be overly dramatic or deep-voiced.
     Your task is to subtly enhance the following script to guide the voice actor.
@@ -368,18 +766,12 @@ export async function enhanceVoiceoverScript(script: string): Promise<string> {
   `;
 
   try {
-    const response: GenerateContentResponse = await aiGlobal.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        safetySettings: safetySettings,
-      },
-    });
+    const response = await generateText('script enhancement', { prompt, signal }, usage);
     
     const text = response.text;
 
     if (text === undefined || text === null || text.trim() === '') {
-        const blockReason = response.promptFeedback?.blockReason;
+        const blockReason = response.blockReason;
         if (blockReason) {
             throw new Error(`Script enhancement was blocked due to ${blockReason}.`);
         }
@@ -392,9 +784,91 @@ export async function enhanceVoiceoverScript(script: string): Promise<string> {
   }
 }
 
-export async function translateScriptToEnglish(script: string): Promise<string> {
+/**
+ * Rewrites a story as a speaker-tagged dialogue voiceover: a narrator plus the story's characters speaking their own lines.
+ * @param storyScript The story, in any language.
+ * @param speakers The character names that may speak.
+ * @param targetCharacterCount The maximum length of the spoken text.
+ * @param language The language code to write the dialogue in.
+ * @returns The script with one "Speaker: line" per line.
+ */
+export async function generateDialogueScript(storyScript: string, speakers: string[], targetCharacterCount: number, language: string, { signal, usage }: CallOptions = {}): Promise<string> {
+    if (isProxyEnabled()) return callProxy('generateDialogueScript', [storyScript, speakers, targetCharacterCount, language], signal, usage);
+
+    const prompt = `
+        You are a creative storyteller for children. Rewrite the following story as a voiceover performed by several voice actors for a kids' video, written in simple ${getLanguage(language).promptName}.
+
+        **Instructions:**
+        1.  **Speakers:** Use "Narrator" for narration and ONLY these character names for spoken lines: ${speakers.length ? speakers.join(', ') : '(no named characters; use the Narrator only)'}.
+        2.  **Dialogue:** Let the characters say their important lines themselves; the Narrator links the scenes. Keep each line short.
+        3.  **Hook:** Start with an engaging hook from the Narrator.
+        4.  **Character Limit:** **CRITICAL REQUIREMENT:** The spoken text MUST NOT exceed ${targetCharacterCount} characters in total.
+        5.  **Core Story:** Preserve the main events and feelings of the story.
+
+        **Original Story:**
+        ---
+        ${storyScript}
+        ---
+    `;
+    try {
+        const lines = await generateJson<{ speaker: string; text: string }[]>('dialogue script generation', {
+            prompt,
+            signal,
+            schema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        speaker: { type: Type.STRING },
+                        text: { type: Type.STRING },
+                    },
+                    required: ['speaker', 'text'],
+                },
+            },
+        }, usage);
+        return lines.map(line => `${line.speaker.trim()}: ${line.text.trim()}`).join('\n');
+    } catch (error) {
+        throw handleApiError(error, 'dialogue script generation');
+    }
+}
+
+/**
+ * Translates dialogue lines to English one-to-one, so speaker tags and line order are kept.
+ * @param lines The lines to translate.
+ * @param fromLanguage The language code the lines are written in.
+ * @returns The English lines, in the same order.
+ */
+export async function translateLinesToEnglish(lines: string[], fromLanguage: string, { signal, usage }: CallOptions = {}): Promise<string[]> {
+    if (isProxyEnabled()) return callProxy('translateLinesToEnglish', [lines, fromLanguage], signal, usage);
+
+    const prompt = `
+        You are an expert translator. Translate each of the following lines from ${getLanguage(fromLanguage).promptName} to natural, fluent English.
+        - Preserve the tone and intent of every line.
+        - Return a JSON array with exactly ${lines.length} strings: one translation per input line, in the same order.
+
+        **Lines (JSON Array):**
+        ${JSON.stringify(lines)}
+    `;
+    try {
+        const translated = await generateJson<string[]>('dialogue translation', {
+            prompt,
+            signal,
+            schema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        }, usage);
+        if (translated.length !== lines.length) {
+            throw new Error(`Expected ${lines.length} translated lines but received ${translated.length}.`);
+        }
+        return translated;
+    } catch (error) {
+        throw handleApiError(error, 'dialogue translation');
+    }
+}
+
+export async function translateScriptToEnglish(script: string, fromLanguage: string, { signal, usage }: CallOptions = {}): Promise<string> {
+    if (isProxyEnabled()) return callProxy('translateScriptToEnglish', [script, fromLanguage], signal, usage);
+
     const prompt = `
-        You are an expert translator. Your task is to translate the following text from Roman Urdu to natural, fluent English.
+        You are an expert translator. Your task is to translate the following text from ${getLanguage(fromLanguage).promptName} to natural, fluent English.
         - Preserve the tone and intent of the original text.
         - If the text already appears to be in English, return it as-is without any changes or additional text.
         - Your output should ONLY be the translated English text.
@@ -407,14 +881,10 @@ export async function translateScriptToEnglish(script: string): Promise<string>
         **English Translation:**
     `;
     try {
-        const response = await aiGlobal.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: { safetySettings },
-        });
+        const response = await generateText('script translation', { prompt, signal }, usage);
         const translatedText = response.text;
         if (!translatedText?.trim()) {
-            const blockReason = response.promptFeedback?.blockReason;
+            const blockReason = response.blockReason;
             if (blockReason) {
                 throw new Error(`Translation was blocked due to ${blockReason}.`);
             }
@@ -426,32 +896,69 @@ export async function translateScriptToEnglish(script: string): Promise<string>
     }
 }
 
+/**
+ * Rewrites lines in another script of the same language (e.g. Roman Urdu to Urdu script) one-to-one,
+ * so paragraphs and dialogue lines stay aligned.
+ * @param lines The lines to rewrite.
+ * @param fromLanguage The language code the lines are written in.
+ * @param toLanguage The language code of the target script.
+ * @returns The rewritten lines, in the same order.
+ */
+export async function transliterateLines(lines: string[], fromLanguage: string, toLanguage: string, { signal, usage }: CallOptions = {}): Promise<string[]> {
+    if (isProxyEnabled()) return callProxy('transliterateLines', [lines, fromLanguage, toLanguage], signal, usage);
 
-export async function generateAudioFromScript(script: string, voiceName: string): Promise<string> {
+    const target = getLanguage(toLanguage);
+    const prompt = `
+        You are an expert ${target.label} editor. Rewrite each of the following ${getLanguage(fromLanguage).promptName} lines in ${target.promptName}.
+        - Keep the wording as it is; only change the script. Use correct spelling and punctuation for the target script.
+        - Write names of people and places the way they are normally spelled in ${target.label}.
+        - Keep English words that have no common ${target.label} equivalent, transliterated into the target script.
+        - Return a JSON array with exactly ${lines.length} strings: one line per input line, in the same order. Empty input lines stay empty.
+
+        **Lines (JSON Array):**
+        ${JSON.stringify(lines)}
+    `;
     try {
-        const response = await aiGlobal.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: script }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: voiceName },
-                    },
-                },
-                safetySettings: safetySettings,
-            },
-        });
+        const transliterated = await generateJson<string[]>('transliteration', {
+            prompt,
+            signal,
+            schema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        }, usage);
+        if (transliterated.length !== lines.length) {
+            throw new Error(`Expected ${lines.length} transliterated lines but received ${transliterated.length}.`);
+        }
+        return transliterated;
+    } catch (error) {
+        throw handleApiError(error, 'transliteration');
+    }
+}
+
 
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+/**
+ * Speaks a script with one of the prebuilt voices.
+ * @param script The text to speak.
+ * @param voiceName The voice id.
+ * @param instructions Optional delivery and pronunciation directions (see services/pronunciation).
+ * @returns The base64 24 kHz PCM audio.
+ */
+export async function generateAudioFromScript(script: string, voiceName: string, instructions?: string, { signal, usage }: CallOptions = {}): Promise<string> {
+    await assertWithinBudget('audio generation');
+    if (isProxyEnabled()) return callProxy('generateAudioFromScript', [script, voiceName, instructions], signal, usage);
+
+    try {
+        const response = await requestWithRetry('audio generation',
+            attemptSignal => getProvider('speech').synthesizeSpeech({ text: script, voiceName, instructions, signal: attemptSignal }), { signal, timeoutMs: SPEECH_TIMEOUT_MS });
+
+        const base64Audio = response.audioB64;
 
         if (!base64Audio) {
-             const blockReason = response.promptFeedback?.blockReason;
+             const blockReason = response.blockReason;
             if (blockReason) {
                 throw new Error(`Audio generation was blocked due to ${blockReason}.`);
             }
             throw new Error("The AI failed to generate audio. The response did not contain audio data.");
         }
+        recordUsage({ operation: 'audio generation', kind: 'speech', audioSeconds: pcmDurationSeconds(base64Audio) }, usage);
 
         return base64Audio;
     } catch (error) {
@@ -459,7 +966,7 @@ export async function generateAudioFromScript(script: string, voiceName: string)
     }
 }
 
-async function generateSimpleImagePrompt(characterSheet: string, storyScript: string | undefined, style: '3D Pixar-Style' | 'Realistic High-Quality Photo-Style'): Promise<string> {
+async function generateSimpleImagePrompt(characterSheet: string, storyScript: string | undefined, style: '3D Pixar-Style' | 'Realistic High-Quality Photo-Style', { signal, usage }: CallOptions): Promise<string> {
     const prompt = `
         You are an expert YouTube Thumbnail Designer for Islamic Kids Stories.
         Your task is to generate a single, high-CTR, kid-friendly image prompt for a thumbnail.
@@ -491,14 +998,10 @@ async function generateSimpleImagePrompt(characterSheet: string, storyScript: st
 
         **Image Prompt:**`;
 
-    const response = await aiGlobal.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: { safetySettings },
-    });
+    const response = await generateText('thumbnail prompt generation', { prompt, signal }, usage);
     const imagePrompt = response.text;
     if (!imagePrompt?.trim()) {
-        const blockReason = response.promptFeedback?.blockReason;
+        const blockReason = response.blockReason;
         if (blockReason) {
             throw new Error(`Thumbnail prompt generation was blocked due to ${blockReason}.`);
         }
@@ -507,33 +1010,29 @@ async function generateSimpleImagePrompt(characterSheet: string, storyScript: st
     return imagePrompt.trim();
 }
 
-async function generateImage(prompt: string): Promise<string> {
-    const response = await aiGlobal.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/jpeg',
-          aspectRatio: '16:9',
-        },
-    });
-    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
+async function generateImage(prompt: string, referenceImages: ReferenceImage[], { signal, usage }: CallOptions): Promise<string> {
+    const response = await requestWithRetry('thumbnail generation',
+        attemptSignal => getProvider('image').generateImage({ prompt, aspectRatio: '16:9', referenceImages, signal: attemptSignal }), { signal });
+    const base64ImageBytes = response.imageB64;
     if (!base64ImageBytes) {
         throw new Error("The AI failed to generate a thumbnail image.");
     }
+    recordUsage({ operation: 'thumbnail generation', kind: 'image', images: 1 }, usage);
     return base64ImageBytes;
 }
 
-async function generateTitles(storyScript: string | undefined): Promise<string[]> {
+const TITLE_COUNT = 3;
+
+async function generateTitles(storyScript: string | undefined, { signal, usage }: CallOptions): Promise<string[]> {
     const prompt = `
-        Based on the provided story script, generate exactly 3 short YouTube video title options suitable for Islamic kids stories (ages 4-10).
+        Based on the provided story script, generate exactly ${TITLE_COUNT} short YouTube video title options suitable for Islamic kids stories (ages 4-10).
 
         **Title Rules:**
         - Short, simple, kid-friendly (max 55 characters).
         - Add curiosity or a moral element.
         - Should attract kids and parents.
         - Examples: "Little Abdullah Learns to Share", "A Kindness Lesson at the Masjid", "The Lost Toy and a Beautiful Dua"
-        - The output should be a JSON array of 3 strings.
+        - The output should be a JSON array of ${TITLE_COUNT} strings.
 
         **Story Script:**
         ---
@@ -542,40 +1041,32 @@ async function generateTitles(storyScript: string | undefined): Promise<string[]
 
         **Titles (JSON Array):**`;
     
-    const response = await aiGlobal.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            },
-            safetySettings,
+    return generateJson<string[]>('title generation', {
+        prompt,
+        signal,
+        schema: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            minItems: String(TITLE_COUNT),
+            maxItems: String(TITLE_COUNT)
         },
-    });
-    const jsonText = response.text;
-    if (!jsonText?.trim()) {
-        const blockReason = response.promptFeedback?.blockReason;
-        if (blockReason) {
-            throw new Error(`Title generation was blocked due to ${blockReason}.`);
-        }
-        throw new Error("Failed to generate titles.");
-    }
-    return JSON.parse(jsonText.trim());
+    }, usage);
 }
 
-export async function generateThumbnailsAndTitles(characterSheet: string, storyScript: string | undefined): Promise<{ thumbnail3d: string; thumbnailRealistic: string; titles: string[]; thumbnail3dPrompt: string; thumbnailRealisticPrompt: string; }> {
+export async function generateThumbnailsAndTitles(characterSheet: string, storyScript: string | undefined, referenceImages: ReferenceImage[] = [], options: CallOptions = {}): Promise<{ thumbnail3d: string; thumbnailRealistic: string; titles: string[]; thumbnail3dPrompt: string; thumbnailRealisticPrompt: string; }> {
+    await assertWithinBudget('thumbnail and title generation');
+    if (isProxyEnabled()) return callProxy('generateThumbnailsAndTitles', [characterSheet, storyScript, referenceImages], options.signal, options.usage);
+
     try {
         const [prompt3d, promptRealistic, titles] = await Promise.all([
-            generateSimpleImagePrompt(characterSheet, storyScript, '3D Pixar-Style'),
-            generateSimpleImagePrompt(characterSheet, storyScript, 'Realistic High-Quality Photo-Style'),
-            generateTitles(storyScript)
+            generateSimpleImagePrompt(characterSheet, storyScript, '3D Pixar-Style', options),
+            generateSimpleImagePrompt(characterSheet, storyScript, 'Realistic High-Quality Photo-Style', options),
+            generateTitles(storyScript, options)
         ]);
 
         const [image3d, imageRealistic] = await Promise.all([
-            generateImage(prompt3d),
-            generateImage(promptRealistic)
+            generateImage(prompt3d, referenceImages, options),
+            generateImage(promptRealistic, referenceImages, options)
         ]);
 
         return {
@@ -590,7 +1081,10 @@ export async function generateThumbnailsAndTitles(characterSheet: string, storyS
     }
 }
 
-export async function generateStandaloneThumbnail(userPrompt: string): Promise<{ imageB64: string, prompt: string }> {
+export async function generateStandaloneThumbnail(userPrompt: string, { signal, usage }: CallOptions = {}): Promise<{ imageB64: string, prompt: string }> {
+    await assertWithinBudget('standalone thumbnail generation');
+    if (isProxyEnabled()) return callProxy('generateStandaloneThumbnail', [userPrompt], signal, usage);
+
     const finalPrompt = `
         High-quality YouTube thumbnail for a kids story, 3D Pixar Style, cinematic, vibrant colors, high detail, dramatic lighting, emotionally resonant.
         Subject: ${userPrompt}.
@@ -600,21 +1094,108 @@ export async function generateStandaloneThumbnail(userPrompt: string): Promise<{
     `;
 
     try {
-        const response = await aiGlobal.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: finalPrompt,
-            config: {
-              numberOfImages: 1,
-              outputMimeType: 'image/jpeg',
-              aspectRatio: '16:9',
-            },
-        });
-        const base64ImageBytes = response.generatedImages[0].image.imageBytes;
+        const response = await requestWithRetry('standalone thumbnail generation',
+            attemptSignal => getProvider('image').generateImage({ prompt: finalPrompt, aspectRatio: '16:9', signal: attemptSignal }), { signal });
+        const base64ImageBytes = response.imageB64;
         if (!base64ImageBytes) {
             throw new Error("The AI failed to generate a standalone thumbnail image.");
         }
+        recordUsage({ operation: 'standalone thumbnail generation', kind: 'image', images: 1 }, usage);
         return { imageB64: base64ImageBytes, prompt: finalPrompt };
     } catch (error) {
         throw handleApiError(error, 'standalone thumbnail generation');
     }
 }
+
+export async function generateSceneFrame(scenePrompt: string, referenceImages: ReferenceImage[] = [], { signal, usage }: CallOptions = {}): Promise<string> {
+    await assertWithinBudget('storyboard frame generation');
+    if (isProxyEnabled()) return callProxy('generateSceneFrame', [scenePrompt, referenceImages], signal, usage);
+
+    // The aspect ratio is passed as a parameter; the Midjourney-style suffix would only add noise to the prompt.
+    const prompt = scenePrompt.replace(/--ar\s*\d+:\d+\s*$/, '').trim();
+    try {
+        const response = await requestWithRetry('storyboard frame generation',
+            attemptSignal => getProvider('image').generateImage({ prompt, aspectRatio: '16:9', referenceImages, signal: attemptSignal }), { signal });
+        if (!response.imageB64) {
+            throw new Error("The AI failed to generate an image for this scene.");
+        }
+        recordUsage({ operation: 'storyboard frame generation', kind: 'image', images: 1 }, usage);
+        return response.imageB64;
+    } catch (error) {
+        throw handleApiError(error, 'storyboard frame generation');
+    }
+}
+
+export async function generateCharacterPortrait(name: string, appearance: string, videoStyle: string, { signal, usage }: CallOptions = {}): Promise<ReferenceImage> {
+    await assertWithinBudget('reference portrait generation');
+    if (isProxyEnabled()) return callProxy('generateCharacterPortrait', [name, appearance, videoStyle], signal, usage);
+
+    const prompt = `
+        ${videoStyle} character reference portrait of ${name || 'the character'}.
+        Appearance: ${appearance}.
+        Front-facing, head and shoulders to mid-torso, neutral friendly expression, full outfit colors clearly visible.
+        Plain light-grey studio background, soft even lighting, no text, no other characters.
+    `;
+    try {
+        const response = await requestWithRetry('reference portrait generation',
+            attemptSignal => getProvider('image').generateImage({ prompt, aspectRatio: '1:1', signal: attemptSignal }), { signal });
+        if (!response.imageB64) {
+            throw new Error("The AI failed to generate a reference portrait.");
+        }
+        recordUsage({ operation: 'reference portrait generation', kind: 'image', images: 1 }, usage);
+        return { data: response.imageB64, mimeType: 'image/jpeg' };
+    } catch (error) {
+        throw handleApiError(error, 'reference portrait generation');
+    }
+}
+
+// Clip lengths every video provider accepts: Veo takes 4, 6 or 8 seconds and OpenAI-style endpoints 4, 8 or 12.
+const CLIP_LENGTHS_SECONDS = [4, 8];
+
+/**
+ * The clip length to request for a scene: the shortest accepted length that covers it, or the longest one.
+ * @param sceneSeconds The scene's length, which is fractional once scenes are aligned to the voiceover.
+ */
+const clipLengthSeconds = (sceneSeconds: number) =>
+    CLIP_LENGTHS_SECONDS.find(length => length >= sceneSeconds) ?? CLIP_LENGTHS_SECONDS[CLIP_LENGTHS_SECONDS.length - 1];
+
+/**
+ * Submits a scene prompt to the video model. The clip renders asynchronously; poll it with checkSceneVideos.
+ * @param scenePrompt The scene prompt (an optional trailing "--ar" parameter is ignored).
+ * @param durationSeconds The length of the scene; the clip is requested, and billed, at an accepted length near it.
+ * @param startFrame The scene's storyboard frame, used as the clip's first frame when available.
+ * @returns The provider's job id.
+ */
+export async function startSceneVideo(scenePrompt: string, durationSeconds: number, startFrame?: ReferenceImage, { signal, usage }: CallOptions = {}): Promise<string> {
+    await assertWithinBudget('video clip submission');
+    if (isProxyEnabled()) return callProxy('startSceneVideo', [scenePrompt, durationSeconds, startFrame], signal, usage);
+
+    const prompt = `${scenePrompt.replace(/--ar\s*\d+:\d+\s*$/, '').trim()} Smooth cinematic camera motion, consistent characters, no text or subtitles.`;
+    const clipSeconds = clipLengthSeconds(durationSeconds);
+    try {
+        // A submission that timed out may still have started a job, so it is not submitted again.
+        const operationId = await requestWithRetry('video clip submission',
+            attemptSignal => getProvider('video').startVideoGeneration({ prompt, aspectRatio: '16:9', durationSeconds: clipSeconds, image: startFrame, signal: attemptSignal }),
+            { signal, retryTimeouts: false });
+        // Clips are billed by length, and once submitted they render (and are charged) whether or not anyone watches.
+        recordUsage({ operation: 'video clip submission', kind: 'video', videoSeconds: clipSeconds }, usage);
+        return operationId;
+    } catch (error) {
+        throw handleApiError(error, 'video clip submission');
+    }
+}
+
+/**
+ * Checks several video jobs at once, so a whole storyboard costs one request per polling round.
+ * @param operationIds The job ids returned by startSceneVideo.
+ * @returns One status per id, in the same order.
+ */
+export async function checkSceneVideos(operationIds: string[]): Promise<VideoJobStatus[]> {
+    if (isProxyEnabled()) return callProxy('checkSceneVideos', [operationIds]);
+
+    try {
+        return await Promise.all(operationIds.map(id => requestWithRetry('video clip status check', () => getProvider('video').getVideoGeneration(id))));
+    } catch (error) {
+        throw handleApiError(error, 'video clip status check');
+    }
+}
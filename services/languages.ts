@@ -0,0 +1,33 @@
+import type { LanguageSettings } from '../types';
+
+export interface Language {
+    code: string; // BCP 47 tag; localized result fields are keyed by it
+    label: string;
+    nativeName: string;
+    promptName: string; // how generation prompts name the language, including the script to write it in
+    rtl?: boolean;
+    speakable: boolean; // whether the speech model reads it natively; other languages are voiced from an English translation
+    nativeScript?: string; // for romanised languages, the language's own script, which can be written alongside
+}
+
+export const ENGLISH = 'en';
+
+export const LANGUAGES: Language[] = [
+    { code: ENGLISH, label: 'English', nativeName: 'English', promptName: 'English', speakable: true },
+    { code: 'ur-Latn', label: 'Roman Urdu', nativeName: 'Roman Urdu', promptName: 'Roman Urdu (Urdu written in the Latin alphabet)', speakable: false, nativeScript: 'ur' },
+    { code: 'ur', label: 'Urdu', nativeName: 'اردو', promptName: 'Urdu, written in Urdu script (Nastaliq)', rtl: true, speakable: false },
+    { code: 'ar', label: 'Arabic', nativeName: 'العربية', promptName: 'Modern Standard Arabic, written in Arabic script', rtl: true, speakable: true },
+    { code: 'hi', label: 'Hindi', nativeName: 'हिन्दी', promptName: 'Hindi, written in Devanagari script', speakable: true },
+    { code: 'bn', label: 'Bengali', nativeName: 'বাংলা', promptName: 'Bengali, written in Bengali script', speakable: true },
+    { code: 'tr', label: 'Turkish', nativeName: 'Türkçe', promptName: 'Turkish', speakable: true },
+    { code: 'id', label: 'Indonesian', nativeName: 'Bahasa Indonesia', promptName: 'Indonesian (Bahasa Indonesia)', speakable: true },
+];
+
+// Matches what the app produced before languages were configurable: Roman Urdu stories with English prompts.
+export const DEFAULT_LANGUAGES: LanguageSettings = { story: 'ur-Latn', voiceover: 'ur-Latn', prompts: ENGLISH };
+
+/**
+ * Looks up a language by code. Unknown codes (e.g. from a newer version of the app) fall back to the bare code.
+ */
+export const getLanguage = (code: string): Language =>
+    LANGUAGES.find(language => language.code === code) ?? { code, label: code, nativeName: code, promptName: code, speakable: false };
@@ -0,0 +1,113 @@
+interface ParsedValue {
+    value: unknown;
+    complete: boolean;
+}
+
+/**
+ * Parses the beginning of a JSON document that is still being written, e.g. a streamed model response.
+ * Strings that are cut off are returned as far as they go, so long text fields can be shown while they arrive;
+ * array elements only appear once they are complete, so list items are never shown half-written. Keys whose value
+ * has not started yet are left out, as are numbers and literals that may still grow.
+ * @param text The JSON received so far. Anything before the first `{` or `[` (such as a Markdown fence) is skipped.
+ * @returns The value parsed so far, or undefined when nothing usable has arrived yet.
+ * @throws SyntaxError if the text is not the beginning of a JSON document.
+ */
+export function parsePartialJson(text: string): unknown {
+    const start = text.search(/[{[]/);
+    if (start < 0) return undefined;
+    let pos = start;
+
+    const fail = (): never => {
+        throw new SyntaxError(`Unexpected character ${JSON.stringify(text[pos])} at position ${pos} in streamed JSON.`);
+    };
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const parseString = (): ParsedValue => {
+        const begin = pos++;
+        while (pos < text.length) {
+            if (text[pos] === '"') {
+                pos++;
+                return { value: JSON.parse(text.slice(begin, pos)), complete: true };
+            }
+            if (text[pos] === '\\') {
+                const escapeLength = text[pos + 1] === 'u' ? 6 : 2;
+                // An escape sequence that has not fully arrived is left out until it has.
+                if (pos + escapeLength > text.length) break;
+                pos += escapeLength;
+            } else {
+                pos++;
+            }
+        }
+        const partial = text.slice(begin, pos);
+        pos = text.length;
+        return { value: JSON.parse(`${partial}"`), complete: false };
+    };
+
+    const parseLiteral = (): ParsedValue | undefined => {
+        const match = text.slice(pos).match(/^[-+.\w]+/);
+        if (!match) return fail();
+        pos += match[0].length;
+        // The token may be cut off ("tr", "12" of "125"), so only trust it once something follows it.
+        if (pos >= text.length) return undefined;
+        return { value: JSON.parse(match[0]), complete: true };
+    };
+
+    const parseArray = (): ParsedValue => {
+        const items: unknown[] = [];
+        pos++;
+        while (true) {
+            skipWhitespace();
+            if (pos >= text.length) return { value: items, complete: false };
+            if (text[pos] === ']') {
+                pos++;
+                return { value: items, complete: true };
+            }
+            const item = parseValue();
+            if (!item?.complete) return { value: items, complete: false };
+            items.push(item.value);
+            skipWhitespace();
+            if (text[pos] === ',') pos++;
+            else if (pos < text.length && text[pos] !== ']') fail();
+        }
+    };
+
+    const parseObject = (): ParsedValue => {
+        const object: Record<string, unknown> = {};
+        pos++;
+        while (true) {
+            skipWhitespace();
+            if (pos >= text.length) return { value: object, complete: false };
+            if (text[pos] === '}') {
+                pos++;
+                return { value: object, complete: true };
+            }
+            if (text[pos] !== '"') fail();
+            const key = parseString();
+            skipWhitespace();
+            if (!key.complete || pos >= text.length) return { value: object, complete: false };
+            if (text[pos] !== ':') fail();
+            pos++;
+            const value = parseValue();
+            if (value) object[key.value as string] = value.value;
+            if (!value?.complete) return { value: object, complete: false };
+            skipWhitespace();
+            if (text[pos] === ',') pos++;
+            else if (pos < text.length && text[pos] !== '}') fail();
+        }
+    };
+
+    function parseValue(): ParsedValue | undefined {
+        skipWhitespace();
+        if (pos >= text.length) return undefined;
+        switch (text[pos]) {
+            case '{': return parseObject();
+            case '[': return parseArray();
+            case '"': return parseString();
+            default: return parseLiteral();
+        }
+    }
+
+    return parseValue()?.value;
+}
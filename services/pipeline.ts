@@ -0,0 +1,223 @@
+import type { CharacterProfile, GeneratedResult, PipelineStepId, PipelineStepStatus, ProjectInputs } from '../types';
+import { enhanceVoiceoverScript, type CallOptions } from './geminiService';
+import { makeThumbnails, voiceVoiceover, voiceoverSourceScript, writeStory, writeVoiceover } from './episodeSteps';
+import { selectReferenceImages } from './referenceImages';
+import { DEFAULT_LANGUAGES } from './languages';
+
+export interface PipelineContext {
+    result: GeneratedResult | null;
+    inputs: ProjectInputs;
+    libraryProfiles: CharacterProfile[];
+}
+
+// The signal stops the step's generation calls mid-way, not just the steps after it.
+export interface StepRunOptions extends CallOptions {
+    onPartial?: (partial: Partial<GeneratedResult>) => void;
+    onTranslating?: (isTranslating: boolean) => void;
+}
+
+export interface PipelineStep {
+    id: PipelineStepId;
+    label: string;
+    // Steps whose output this one is made from; when they are out of date, so is this one.
+    dependsOn: PipelineStepId[];
+    // Everything the output is computed from. A change to any of it after the step ran makes the step stale.
+    reads: { inputs: (keyof ProjectInputs)[]; result: (keyof GeneratedResult)[] };
+    // Optional steps run in "Run all", but are only re-run as stale once they have been used.
+    optional?: boolean;
+    hasOutput: (context: PipelineContext) => boolean;
+    // Why the step cannot run yet, if it cannot.
+    blockedBy: (context: PipelineContext) => string | undefined;
+    run: (context: PipelineContext, options: StepRunOptions) => Promise<PipelineContext>;
+}
+
+const withResult = (context: PipelineContext, result: GeneratedResult): PipelineContext => ({ ...context, result });
+
+/**
+ * The episode pipeline, in the order its steps run.
+ */
+export const PIPELINE: PipelineStep[] = [
+    {
+        id: 'story',
+        label: 'Story & Prompts',
+        dependsOn: [],
+        reads: {
+            inputs: ['storyMode', 'storyScene', 'storyTitle', 'voiceoverScriptInput', 'characterProfiles', 'libraryCharacterIds', 'storyLength', 'videoLengthMinutes', 'videoStyle', 'languages', 'includeNativeScript'],
+            result: [],
+        },
+        hasOutput: ({ result }) => !!result?.characterSheet || !!result?.prompts?.length,
+        blockedBy: ({ inputs, libraryProfiles }) => {
+            if (inputs.storyMode === 'detail') {
+                return (inputs.characterProfiles.some(c => c.appearance.trim()) || libraryProfiles.length > 0) && inputs.storyScene.trim()
+                    ? undefined
+                    : 'For "Detailed Scene" mode, please provide appearance details for at least one character (or select one from the library) and a story scene.';
+            }
+            if (inputs.storyMode === 'fromTitle') {
+                return inputs.storyTitle.trim() ? undefined : 'For "From Title" mode, please provide a story title.';
+            }
+            return inputs.voiceoverScriptInput.trim() ? undefined : 'For "From Voiceover" mode, please provide a voiceover script.';
+        },
+        run: async (context, { onPartial, signal, usage }) => ({
+            ...context,
+            result: await writeStory(context.inputs, context.libraryProfiles, { onPartial, signal, usage }),
+            inputs: { ...context.inputs, editableVoiceoverScript: '' },
+        }),
+    },
+    {
+        id: 'voiceover',
+        label: 'Voiceover Script',
+        dependsOn: ['story'],
+        reads: {
+            inputs: ['languages', 'voiceoverMode', 'videoLengthMinutes', 'characterProfiles', 'libraryCharacterIds'],
+            result: ['storyScript', 'storyScripts', 'storyLanguage'],
+        },
+        hasOutput: ({ result }) => !!result?.voiceover,
+        blockedBy: ({ result, inputs }) => voiceoverSourceScript(result, (inputs.languages ?? DEFAULT_LANGUAGES).voiceover)
+            ? undefined
+            : 'Generate a story first.',
+        run: async (context, { signal, usage }) => {
+            const result = await writeVoiceover(context.result!, context.inputs, context.libraryProfiles, { signal, usage });
+            return { ...context, result, inputs: { ...context.inputs, editableVoiceoverScript: result.voiceover ?? '' } };
+        },
+    },
+    {
+        id: 'enhance',
+        label: 'Enhance Script',
+        dependsOn: ['voiceover'],
+        // Enhancing rewrites the script it reads, so it only goes stale when a new voiceover is written;
+        // re-running stale steps never enhances the same script twice.
+        reads: { inputs: [], result: ['voiceover'] },
+        optional: true,
+        hasOutput: ({ result }) => !!result?.pipelineStamps?.enhance,
+        blockedBy: ({ inputs }) => inputs.editableVoiceoverScript.trim() ? undefined : 'Write or generate a voiceover script first.',
+        run: async (context, { signal, usage }) => ({
+            ...context,
+            inputs: { ...context.inputs, editableVoiceoverScript: await enhanceVoiceoverScript(context.inputs.editableVoiceoverScript, { signal, usage }) },
+        }),
+    },
+    {
+        id: 'audio',
+        label: 'Voiceover Audio',
+        dependsOn: ['voiceover', 'enhance'],
+        reads: {
+            inputs: ['editableVoiceoverScript', 'selectedVoice', 'voiceoverMode', 'voiceCasting', 'speechMode', 'pronunciationNotes', 'includeNativeScript'],
+            result: ['voiceoverLanguage'],
+        },
+        hasOutput: ({ result }) => !!result?.voiceoverAudio,
+        blockedBy: ({ inputs }) => inputs.editableVoiceoverScript.trim() ? undefined : 'Write or generate a voiceover script first.',
+        run: async (context, { onTranslating, signal, usage }) => {
+            const { result, voiceCasting } = await voiceVoiceover(context.result, context.inputs, onTranslating, { signal, usage });
+            return { ...context, result, inputs: { ...context.inputs, voiceCasting } };
+        },
+    },
+    {
+        id: 'thumbnail',
+        label: 'Thumbnails & Titles',
+        dependsOn: ['story'],
+        reads: { inputs: [], result: ['characterSheet', 'storyScript'] },
+        hasOutput: ({ result }) => !!result?.thumbnail3d,
+        blockedBy: ({ result }) => result?.characterSheet ? undefined : 'Generate a story first.',
+        run: async (context, { signal, usage }) => {
+            const { result, inputs, libraryProfiles } = context;
+            const references = [...(result!.characters ?? []), ...inputs.characterProfiles, ...libraryProfiles];
+            return withResult(context, await makeThumbnails(result!, selectReferenceImages(result!.characterSheet, references), { signal, usage }));
+        },
+    },
+];
+
+export const getPipelineStep = (id: PipelineStepId) => PIPELINE.find(step => step.id === id)!;
+
+// FNV-1a; fingerprints only need to notice changes, not resist collisions on purpose.
+function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+function fingerprint(step: PipelineStep, { inputs, result }: PipelineContext): string {
+    const read = {
+        inputs: step.reads.inputs.map(key => inputs[key] ?? null),
+        result: step.reads.result.map(key => result?.[key] ?? null),
+    };
+    return hashString(JSON.stringify(read));
+}
+
+/**
+ * Works out whether each step's output is missing, out of date or current. A step is stale when something it reads
+ * changed since it ran, or when a step it depends on is stale. Output from before steps were tracked counts as current.
+ */
+export function getPipelineStatuses(context: PipelineContext): Record<PipelineStepId, PipelineStepStatus> {
+    const statuses = {} as Record<PipelineStepId, PipelineStepStatus>;
+    for (const step of PIPELINE) {
+        const stamp = context.result?.pipelineStamps?.[step.id];
+        if (!stamp && !step.hasOutput(context)) {
+            statuses[step.id] = 'missing';
+        } else if ((stamp && stamp !== fingerprint(step, context)) || step.dependsOn.some(id => statuses[id] === 'stale')) {
+            statuses[step.id] = 'stale';
+        } else {
+            statuses[step.id] = 'fresh';
+        }
+    }
+    return statuses;
+}
+
+/**
+ * Applies a step's output to the result as it is now, which may have changed while the step ran (storyboard frames,
+ * clip states, scene edits). Only the fields the step changed are taken, unless they were changed in the meantime
+ * too; then the newer change is kept.
+ * @param latest The result as it is now.
+ * @param before The result the step started from.
+ * @param after The result the step returned.
+ * @returns The merged result; a step that started without a result (e.g. the story) replaces it.
+ */
+export function mergeStepResult(latest: GeneratedResult | null, before: GeneratedResult | null, after: GeneratedResult | null): GeneratedResult | null {
+    if (!latest || !before || !after) return after;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof GeneratedResult)[]);
+    const changed = [...keys].filter(key => key !== 'pipelineStamps' && after[key] !== before[key] && latest[key] === before[key]);
+    return {
+        ...latest,
+        ...Object.fromEntries(changed.map(key => [key, after[key]])),
+        pipelineStamps: { ...latest.pipelineStamps, ...after.pipelineStamps },
+    };
+}
+
+export interface PipelineRunOptions extends StepRunOptions {
+    steps: PipelineStepId[]; // the steps to consider, run in pipeline order
+    force: boolean; // run them even when they are current
+    onStepStart?: (step: PipelineStep) => void;
+    // Called with the context after each step, e.g. to show and save its output.
+    onStepDone?: (step: PipelineStep, context: PipelineContext) => Promise<void> | void;
+}
+
+/**
+ * Runs pipeline steps in order. Without `force`, only steps that are missing or stale at the time they come up run,
+ * so a re-run upstream step makes the steps after it run too. Each step's result is stamped with what it was made
+ * from, which is how staleness is detected later.
+ * @returns The context after the last step that ran.
+ * @throws Error if a step cannot run yet or fails, or is stopped by the signal while it runs; steps after it do not
+ *     run. Between steps, an aborted signal stops the run quietly.
+ */
+export async function runPipeline(context: PipelineContext, { steps, force, onStepStart, onStepDone, ...runOptions }: PipelineRunOptions): Promise<PipelineContext> {
+    let current = context;
+    for (const step of PIPELINE.filter(s => steps.includes(s.id))) {
+        if (runOptions.signal?.aborted) break;
+        const status = getPipelineStatuses(current)[step.id];
+        if (!force && (status === 'fresh' || (step.optional && status === 'missing'))) continue;
+        const blocked = step.blockedBy(current);
+        if (blocked) {
+            throw new Error(blocked);
+        }
+        onStepStart?.(step);
+        const next = await step.run(current, runOptions);
+        const result: GeneratedResult | null = next.result && {
+            ...next.result,
+            pipelineStamps: { ...next.result.pipelineStamps, [step.id]: fingerprint(step, next) },
+        };
+        current = { ...next, result };
+        await onStepDone?.(step, current);
+    }
+    return current;
+}
@@ -0,0 +1,148 @@
+import type { GeneratedResult, Project, ProjectInputs, ProjectStep, ProjectVersion } from '../types';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+
+// Every version holds a full copy of the result (including audio and images), so keep the history bounded.
+const MAX_VERSIONS = 30;
+
+// Fields of projects saved before results were keyed by language code, when Roman Urdu was the only other language.
+type LegacyResult = GeneratedResult & {
+    storyScriptRomanUrdu?: string;
+    storyScriptUrdu?: string;
+    voiceoverEnglish?: string;
+    voiceoverUrdu?: string;
+};
+type LegacyInputs = ProjectInputs & { includeUrduScript?: boolean };
+
+function migrateResult(result: LegacyResult): GeneratedResult {
+    if (result.storyLanguage || result.voiceoverLanguage) return result;
+    const { storyScriptRomanUrdu, storyScriptUrdu, voiceoverEnglish, voiceoverUrdu, ...rest } = result;
+    const migrated: GeneratedResult = { ...rest };
+    if (storyScriptRomanUrdu) {
+        migrated.storyLanguage = 'ur-Latn';
+        migrated.storyScripts = { 'ur-Latn': storyScriptRomanUrdu, ...(storyScriptUrdu ? { ur: storyScriptUrdu } : {}) };
+    }
+    if (result.voiceover) {
+        migrated.voiceoverLanguage = storyScriptRomanUrdu ? 'ur-Latn' : 'en';
+        const translations: Record<string, string> = {};
+        if (voiceoverEnglish) translations.en = voiceoverEnglish;
+        if (voiceoverUrdu) translations.ur = voiceoverUrdu;
+        if (Object.keys(translations).length > 0) migrated.voiceoverTranslations = translations;
+    }
+    return migrated;
+}
+
+// Projects are migrated as they are read and stored in the current shape the next time they are saved.
+function migrateProject(project: Project): Project {
+    const { includeUrduScript, ...inputs } = project.inputs as LegacyInputs;
+    return {
+        ...project,
+        inputs: includeUrduScript !== undefined ? { ...inputs, includeNativeScript: includeUrduScript } : inputs,
+        result: project.result && migrateResult(project.result),
+        versions: project.versions.map(version => ({
+            ...version,
+            step: (version.step as string) === 'urduScript' ? 'nativeScript' : version.step,
+            result: migrateResult(version.result),
+        })),
+    };
+}
+
+function createVersion(step: ProjectStep, result: GeneratedResult): ProjectVersion {
+    return {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        step,
+        result,
+    };
+}
+
+async function requireProject(id: string): Promise<Project> {
+    const project = await getRecord<Project>(STORES.projects, id);
+    if (!project) {
+        throw new Error('The project could not be found. It may have been deleted.');
+    }
+    return migrateProject(project);
+}
+
+/**
+ * Lists all saved projects, most recently updated first.
+ */
+export async function listProjects(): Promise<Project[]> {
+    const projects = await getAllRecords<Project>(STORES.projects);
+    return projects.map(migrateProject).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+    const project = await getRecord<Project>(STORES.projects, id);
+    return project && migrateProject(project);
+}
+
+/**
+ * Saves a new project with its first version.
+ * @param name The display name of the project.
+ * @param inputs The form inputs that produced the result.
+ * @param result The generated result to store.
+ * @param step The generation step that produced the result.
+ * @returns The stored project.
+ */
+export async function createProject(name: string, inputs: ProjectInputs, result: GeneratedResult | null, step: ProjectStep = 'story'): Promise<Project> {
+    const now = Date.now();
+    const project: Project = {
+        id: crypto.randomUUID(),
+        name: name.trim() || 'Untitled Project',
+        createdAt: now,
+        updatedAt: now,
+        inputs,
+        result,
+        versions: result ? [createVersion(step, result)] : [],
+    };
+    return putRecord(STORES.projects, project);
+}
+
+/**
+ * Replaces the current result of a project and appends it to the version history.
+ * @param id The project to update.
+ * @param step The generation step that rewrote the result.
+ * @param result The new result.
+ * @param inputs The form inputs at the time of the change.
+ * @returns The updated project.
+ */
+export async function saveProjectVersion(id: string, step: ProjectStep, result: GeneratedResult, inputs: ProjectInputs): Promise<Project> {
+    const project = await requireProject(id);
+    const versions = [...project.versions, createVersion(step, result)].slice(-MAX_VERSIONS);
+    return putRecord(STORES.projects, {
+        ...project,
+        inputs,
+        result,
+        versions,
+        updatedAt: Date.now(),
+    });
+}
+
+export async function renameProject(id: string, name: string): Promise<Project> {
+    const project = await requireProject(id);
+    return putRecord(STORES.projects, {
+        ...project,
+        name: name.trim() || project.name,
+        updatedAt: Date.now(),
+    });
+}
+
+const clipIdsOf = (project: Project): string[] =>
+    [project.result, ...project.versions.map(version => version.result)]
+        .flatMap(result => Object.values(result?.sceneVideos ?? {}))
+        .flatMap(video => video.clipId ? [video.clipId] : []);
+
+/**
+ * Deletes a project together with its video clips. Clips that another project also references are kept.
+ * @param id The project to delete.
+ */
+export async function deleteProject(id: string): Promise<void> {
+    const projects = await getAllRecords<Project>(STORES.projects);
+    const project = projects.find(p => p.id === id);
+    await deleteRecord(STORES.projects, id);
+    if (!project) return;
+
+    const kept = new Set(projects.filter(p => p.id !== id).flatMap(clipIdsOf));
+    const clipIds = new Set(clipIdsOf(project).filter(clipId => !kept.has(clipId)));
+    await Promise.all([...clipIds].map(clipId => deleteRecord(STORES.clips, clipId)));
+}
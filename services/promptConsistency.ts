@@ -0,0 +1,140 @@
+import type { CharacterSheet, PromptIssue, ScenePrompt } from '../types';
+import { escapeRegExp } from './text';
+
+const COLOURS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'violet', 'pink', 'brown', 'black', 'white', 'grey', 'beige', 'cream', 'gold', 'silver', 'maroon', 'navy', 'teal', 'turquoise', 'olive', 'blonde', 'auburn'];
+// Spellings folded onto one colour so "gray" and "grey" do not count as a contradiction.
+const COLOUR_ALIASES: Record<string, string> = { gray: 'grey', golden: 'gold', blond: 'blonde', ginger: 'auburn' };
+// How many words after a colour may still name the thing it colours ("green embroidered cotton kurta").
+const COLOUR_REACH = 3;
+// Words that end the phrase a colour belongs to ("green kurta with white topi").
+const PHRASE_BREAKS = new Set(['and', 'with', 'or', 'in', 'on', 'of', 'while', 'wearing', 'holding']);
+
+const PERSON_WORDS = new Set(['boy', 'girl', 'man', 'woman', 'child', 'kid', 'baby', 'mother', 'father', 'mom', 'dad', 'grandmother', 'grandfather', 'grandma', 'grandpa', 'brother', 'sister', 'uncle', 'aunt', 'teacher', 'friend', 'person', 'people']);
+const STOP_WORDS = new Set(['the', 'and', 'with', 'for', 'has', 'have', 'his', 'her', 'its', 'their', 'that', 'this', 'very', 'slightly', 'light', 'dark', 'bright', 'soft', 'always', 'wears', 'wearing', 'worn', 'over', 'under', 'from', 'into', 'onto', 'about', 'small', 'little', 'simple']);
+// A trait counts as present when at least this share of its distinctive words appears in the prompt.
+const TRAIT_COVERAGE = 0.5;
+
+const CHECKED_TRAITS: { key: 'face' | 'hair' | 'skin' | 'attire'; label: string }[] = [
+    { key: 'face', label: 'face' },
+    { key: 'hair', label: 'hair' },
+    { key: 'skin', label: 'skin' },
+    { key: 'attire', label: 'attire' },
+];
+
+const normalizeColour = (word: string) => COLOUR_ALIASES[word] ?? word;
+const isColour = (word: string) => COLOURS.includes(normalizeColour(word));
+
+const words = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+const keywords = (text: string): string[] =>
+    words(text).filter(word => word.length > 2 && !STOP_WORDS.has(word) && !isColour(word));
+
+const mentions = (prompt: string, name: string) =>
+    !!name.trim() && new RegExp(`(^|[^\\p{L}])${escapeRegExp(name.trim())}($|[^\\p{L}])`, 'iu').test(prompt);
+
+function coversTrait(promptWords: Set<string>, trait: string): boolean {
+    const traitWords = Array.from(new Set(keywords(trait)));
+    if (traitWords.length === 0) return true;
+    const found = traitWords.filter(word => promptWords.has(word)).length;
+    return found / traitWords.length >= TRAIT_COVERAGE;
+}
+
+/**
+ * Maps each thing a colour is given to ("kurta", "hair") to the colours it has in the text.
+ */
+function colouredThings(text: string): Map<string, Set<string>> {
+    const things = new Map<string, Set<string>>();
+    for (const clause of text.split(/[,.;:!?()\n]/)) {
+        const tokens = words(clause);
+        tokens.forEach((token, i) => {
+            if (!isColour(token)) return;
+            for (const next of tokens.slice(i + 1, i + 1 + COLOUR_REACH)) {
+                if (isColour(next) || PHRASE_BREAKS.has(next)) break;
+                if (STOP_WORDS.has(next) || next.length <= 2) continue;
+                if (!things.has(next)) things.set(next, new Set());
+                things.get(next)!.add(normalizeColour(token));
+            }
+        });
+    }
+    return things;
+}
+
+function sheetColours(sheet: CharacterSheet): Map<string, Set<string>> {
+    const things = colouredThings([sheet.hair, sheet.attire, ...sheet.accessories].join('. '));
+    // Sheets often say "black, shoulder-length" without repeating "hair".
+    const hairColours = words(sheet.hair).filter(isColour).map(normalizeColour);
+    if (hairColours.length > 0) {
+        things.set('hair', new Set([...(things.get('hair') ?? []), ...hairColours]));
+    }
+    return things;
+}
+
+/**
+ * Checks a scene prompt against the rules the story prompt sets for it: it starts with the video style, describes
+ * every named character as their sheet does and ends with "--ar 16:9".
+ * @param prompt The scene prompt.
+ * @param videoStyle The project's video style.
+ * @param sheets The project's character sheets; character checks are skipped when there are none.
+ * @returns The problems found, empty when the prompt is consistent.
+ */
+export function checkScenePrompt(prompt: string, videoStyle: string, sheets: CharacterSheet[] = []): PromptIssue[] {
+    const issues: PromptIssue[] = [];
+    const style = videoStyle.trim();
+    if (style && !prompt.trim().replace(/^["'“]/, '').toLowerCase().startsWith(style.toLowerCase())) {
+        issues.push({ kind: 'style', message: `Does not start with the video style "${style}".` });
+    }
+    if (!/--ar\s*16:9\s*$/.test(prompt)) {
+        issues.push({ kind: 'suffix', message: 'Does not end with "--ar 16:9".' });
+    }
+
+    const named = sheets.filter(sheet => mentions(prompt, sheet.name));
+    if (sheets.length > 0 && named.length === 0) {
+        const person = words(prompt).find(word => PERSON_WORDS.has(word));
+        if (person) {
+            issues.push({ kind: 'unnamedCharacter', message: `Shows a "${person}" without naming a character from the sheet, so their look is not pinned down.` });
+        }
+    }
+
+    const promptWords = new Set(words(prompt));
+    const promptColours = colouredThings(prompt);
+    for (const sheet of named) {
+        const missing = [
+            ...CHECKED_TRAITS.filter(({ key }) => !coversTrait(promptWords, sheet[key])).map(({ label }) => label),
+            ...sheet.accessories.filter(accessory => !coversTrait(promptWords, accessory)),
+        ];
+        if (missing.length > 0) {
+            issues.push({ kind: 'missingTrait', character: sheet.name, message: `${sheet.name}: missing ${missing.join(', ')}.` });
+        }
+
+        for (const [thing, colours] of sheetColours(sheet)) {
+            const used = promptColours.get(thing);
+            // Another named character may own the same kind of garment in that colour.
+            const wrong = Array.from(used ?? []).filter(colour =>
+                !colours.has(colour) && !named.some(other => other !== sheet && sheetColours(other).get(thing)?.has(colour)));
+            if (wrong.length > 0) {
+                issues.push({ kind: 'contradiction', character: sheet.name, message: `${sheet.name}: ${thing} is ${Array.from(colours).join('/')} in the sheet but ${wrong.join('/')} here.` });
+            }
+        }
+
+        for (const trait of sheet.negativeTraits) {
+            const pattern = new RegExp(`(^|[^\\p{L}])${escapeRegExp(trait.trim())}($|[^\\p{L}])`, 'iu');
+            const negated = new RegExp(`\\b(no|without|never|not)\\s+(\\S+\\s+)?${escapeRegExp(trait.trim())}`, 'i');
+            if (trait.trim() && pattern.test(prompt) && !negated.test(prompt)) {
+                issues.push({ kind: 'contradiction', character: sheet.name, message: `${sheet.name}: shows "${trait}", which the sheet rules out.` });
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * Checks every scene prompt; see checkScenePrompt.
+ * @returns The problems per scene number, for the scenes that have any.
+ */
+export function checkScenePrompts(prompts: ScenePrompt[], videoStyle: string, sheets: CharacterSheet[] = []): Record<number, PromptIssue[]> {
+    const issues: Record<number, PromptIssue[]> = {};
+    for (const scene of prompts) {
+        const found = checkScenePrompt(scene.prompt, videoStyle, sheets);
+        if (found.length > 0) issues[scene.scene_number] = found;
+    }
+    return issues;
+}
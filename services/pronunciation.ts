@@ -0,0 +1,75 @@
+import { getLanguage } from './languages';
+
+// Romanised spellings speech models tend to read as English. Keys are lower case; values say how the word sounds.
+const BUILT_IN_HINTS: Record<string, Record<string, string>> = {
+    'ur-Latn': {
+        acha: 'uch-CHAA, with a doubled ch',
+        achha: 'uch-CHAA, with a doubled ch',
+        ammi: 'UM-mee',
+        abbu: 'UB-boo',
+        bohat: 'buh-HUT',
+        dost: 'dohst, with a soft dental t',
+        ghar: 'gh as a throaty g, then "ur"',
+        hai: 'hay',
+        hain: 'hain, with a nasal n',
+        khana: 'KHAA-naa, kh from the back of the throat',
+        khush: 'khush, kh from the back of the throat',
+        kya: 'kyaa, one syllable',
+        nahi: 'na-HEEN, ending nasal',
+        nahin: 'na-HEEN, ending nasal',
+        qissa: 'QIS-saa, q deep in the throat',
+        shukriya: 'shuk-REE-yaa',
+        tha: 'taa with a breathy dental t, never the English "th"',
+        thi: 'tee with a breathy dental t, never the English "th"',
+        woh: 'voh',
+        zindagi: 'zin-da-GEE',
+    },
+};
+
+/**
+ * Parses user pronunciation notes, one "word = how it sounds" per line.
+ */
+export function parsePronunciationNotes(notes: string): Record<string, string> {
+    const hints: Record<string, string> = {};
+    for (const line of notes.split('\n')) {
+        const [word, ...rest] = line.split('=');
+        const hint = rest.join('=').trim();
+        if (word.trim() && hint) hints[word.trim().toLowerCase()] = hint;
+    }
+    return hints;
+}
+
+/**
+ * Picks the pronunciation hints that apply to a script: built-in hints for its language plus the user's own notes,
+ * which win on conflicts. Only words that actually occur in the script are returned.
+ */
+export function findPronunciationHints(script: string, languageCode: string, notes = ''): [string, string][] {
+    const hints = { ...BUILT_IN_HINTS[languageCode], ...parsePronunciationNotes(notes) };
+    const words = new Set(script.toLowerCase().match(/[\p{L}\p{M}']+/gu) ?? []);
+    return Object.entries(hints).filter(([word]) => words.has(word));
+}
+
+/**
+ * Builds the speech-model directions for speaking a script in its own language. Languages the model reads natively
+ * need none unless the user added notes; romanised ones are told which language they are and how to say tricky words.
+ * @param script The text to be spoken.
+ * @param languageCode The language the script is written in.
+ * @param notes The user's pronunciation notes ("word = how it sounds" per line).
+ * @returns The directions, or undefined when the script can be spoken as is.
+ */
+export function buildSpeechInstructions(script: string, languageCode: string, notes = ''): string | undefined {
+    const language = getLanguage(languageCode);
+    const hints = findPronunciationHints(script, languageCode, notes);
+    if (language.speakable && hints.length === 0) return undefined;
+
+    const lines = [
+        '### DIRECTOR\'S NOTES',
+        language.nativeScript
+            ? `The transcript is ${getLanguage(language.nativeScript).label} written in Latin letters (${language.label}). Speak it in natural ${getLanguage(language.nativeScript).label} as a native speaker would, never with English pronunciation.`
+            : `Speak the transcript in natural ${language.label} as a native speaker would.`,
+    ];
+    if (hints.length > 0) {
+        lines.push('Pronunciation:', ...hints.map(([word, hint]) => `- ${word}: ${hint}`));
+    }
+    return lines.join('\n');
+}
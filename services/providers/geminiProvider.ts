@@ -0,0 +1,197 @@
+import { GoogleGenAI, GenerateVideosOperation, HarmCategory, HarmBlockThreshold, Modality, type GenerateContentResponseUsageMetadata, type Schema } from "@google/genai";
+import type { AIProvider, TokenUsage } from './types';
+import { bytesToBase64 } from '../encoding';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+const VIDEO_MODEL = 'veo-3.0-generate-001';
+
+// The client is created per session from the key the signed-in user entered; no key is ever baked into the bundle.
+let sessionClient: GoogleGenAI | null = null;
+// Kept alongside the client because finished video files are downloaded from a URI that requires the key.
+let sessionApiKey: string | null = null;
+
+export function setGeminiApiKey(apiKey: string | null): void {
+  sessionClient = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  sessionApiKey = apiKey;
+}
+
+export const hasGeminiApiKey = (): boolean => sessionClient !== null;
+
+function getClient(): GoogleGenAI {
+  if (!sessionClient) {
+    throw new Error('No Gemini API key has been entered for this session. Please sign in with your API key.');
+  }
+  return sessionClient;
+}
+
+/**
+ * Checks an API key with a cheap metadata call that does not consume generation quota.
+ * @param apiKey The key to check.
+ */
+export async function validateGeminiApiKey(apiKey: string): Promise<void> {
+  await new GoogleGenAI({ apiKey }).models.get({ model: TEXT_MODEL });
+}
+
+const safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+];
+
+const textConfig = (schema: Schema | undefined, abortSignal: AbortSignal | undefined) => schema
+  ? { responseMimeType: "application/json", responseSchema: schema, safetySettings, abortSignal }
+  : { safetySettings, abortSignal };
+
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount ?? 0,
+  outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  async generateText({ prompt, schema, signal }) {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: textConfig(schema, signal),
+    });
+    return {
+      text: response.text,
+      blockReason: response.promptFeedback?.blockReason,
+      usage: toTokenUsage(response.usageMetadata),
+    };
+  },
+
+  async *streamText({ prompt, schema, signal }) {
+    const stream = await getClient().models.generateContentStream({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: textConfig(schema, signal),
+    });
+    for await (const chunk of stream) {
+      yield {
+        text: chunk.text,
+        blockReason: chunk.promptFeedback?.blockReason,
+        usage: toTokenUsage(chunk.usageMetadata),
+      };
+    }
+  },
+
+  async generateImage({ prompt, aspectRatio = '16:9', referenceImages, signal }) {
+    if (referenceImages?.length) {
+      // Imagen cannot take image inputs, so reference-guided frames go through the multimodal image model.
+      const response = await getClient().models.generateContent({
+        model: IMAGE_EDIT_MODEL,
+        contents: [{
+          parts: [
+            ...referenceImages.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+            { text: `Use the attached reference portraits as the exact appearance of the characters (face, hair, skin tone, clothing, colors). ${prompt}` },
+          ],
+        }],
+        config: {
+          responseModalities: [Modality.IMAGE],
+          imageConfig: { aspectRatio },
+          safetySettings,
+          abortSignal: signal,
+        },
+      });
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+      return { imageB64: imagePart?.inlineData?.data };
+    }
+
+    const response = await getClient().models.generateImages({
+      model: IMAGE_MODEL,
+      prompt,
+      config: {
+        numberOfImages: 1,
+        outputMimeType: 'image/jpeg',
+        aspectRatio,
+        abortSignal: signal,
+      },
+    });
+    return { imageB64: response.generatedImages?.[0]?.image?.imageBytes };
+  },
+
+  async synthesizeSpeech({ text, voiceName, instructions, signal }) {
+    // The TTS model takes directions as notes ahead of a marked transcript and only speaks the transcript.
+    const prompt = instructions ? `${instructions}\n\n#### TRANSCRIPT\n${text}` : text;
+    const response = await getClient().models.generateContent({
+      model: SPEECH_MODEL,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName },
+          },
+        },
+        safetySettings,
+        abortSignal: signal,
+      },
+    });
+    return {
+      audioB64: response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data,
+      blockReason: response.promptFeedback?.blockReason,
+    };
+  },
+
+  async startVideoGeneration({ prompt, aspectRatio = '16:9', durationSeconds, image, signal }) {
+    const operation = await getClient().models.generateVideos({
+      model: VIDEO_MODEL,
+      prompt,
+      ...(image ? { image: { imageBytes: image.data, mimeType: image.mimeType } } : {}),
+      config: {
+        numberOfVideos: 1,
+        aspectRatio,
+        ...(durationSeconds ? { durationSeconds } : {}),
+        abortSignal: signal,
+      },
+    });
+    if (!operation.name) {
+      throw new Error('The video model did not return a job id.');
+    }
+    return operation.name;
+  },
+
+  async getVideoGeneration(jobId) {
+    const operation = new GenerateVideosOperation();
+    operation.name = jobId;
+    const result = await getClient().operations.getVideosOperation({ operation });
+    if (!result.done) return { done: false };
+    if (result.error) {
+      return { done: true, error: String(result.error.message ?? 'The video generation failed.') };
+    }
+
+    const video = result.response?.generatedVideos?.[0]?.video;
+    if (video?.videoBytes) {
+      return { done: true, videoB64: video.videoBytes, mimeType: video.mimeType ?? 'video/mp4' };
+    }
+    if (!video?.uri) {
+      const reasons = result.response?.raiMediaFilteredReasons?.join(' ');
+      return { done: true, error: reasons || 'The video model returned no clip.' };
+    }
+    const response = await fetch(video.uri, { headers: { 'x-goog-api-key': sessionApiKey ?? '' } });
+    if (!response.ok) {
+      throw new Error(`Failed to download the generated clip (${response.status}).`);
+    }
+    return { done: true, videoB64: bytesToBase64(new Uint8Array(await response.arrayBuffer())), mimeType: video.mimeType ?? 'video/mp4' };
+  },
+};
@@ -0,0 +1,70 @@
+import type { AIProvider, AITask, ProviderId, ProviderSettings } from './types';
+import { geminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openaiCompatibleProvider';
+
+export { setGeminiApiKey, hasGeminiApiKey, validateGeminiApiKey } from './geminiProvider';
+export type { AIProvider, AITask, ProviderId, ProviderSettings, OpenAICompatibleSettings, TextGenerationRequest, TextGenerationResult, VideoJobStatus } from './types';
+
+const SETTINGS_KEY = 'pikaza.providerSettings';
+
+// Only the Gemini key is stored, encrypted (see apiKeyStore); the OpenAI-compatible key is kept in memory only,
+// so it is left out of the saved settings and has to be entered again after a reload.
+const withoutApiKey = (settings: ProviderSettings): ProviderSettings =>
+    ({ ...settings, openaiCompatible: { ...settings.openaiCompatible, apiKey: '' } });
+
+export const defaultProviderSettings: ProviderSettings = {
+    tasks: { text: 'gemini', image: 'gemini', speech: 'gemini', video: 'gemini' },
+    openaiCompatible: {
+        baseUrl: 'http://localhost:8080/v1',
+        apiKey: '',
+        textModel: 'gpt-4o-mini',
+        imageModel: 'gpt-image-1',
+        speechModel: 'gpt-4o-mini-tts',
+        videoModel: 'sora-2',
+    },
+};
+
+function loadProviderSettings(): ProviderSettings {
+    if (typeof localStorage === 'undefined') return defaultProviderSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        if (!stored) return defaultProviderSettings;
+        const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+        const loaded = withoutApiKey({
+            tasks: { ...defaultProviderSettings.tasks, ...parsed.tasks },
+            openaiCompatible: { ...defaultProviderSettings.openaiCompatible, ...parsed.openaiCompatible },
+        });
+        // Earlier versions saved the key in plain text; drop it from storage.
+        if (parsed.openaiCompatible?.apiKey) {
+            localStorage.setItem(SETTINGS_KEY, JSON.stringify(loaded));
+        }
+        return loaded;
+    } catch (e) {
+        console.error('Failed to read provider settings:', e);
+        return defaultProviderSettings;
+    }
+}
+
+let settings = loadProviderSettings();
+
+const providers: Record<ProviderId, AIProvider> = {
+    gemini: geminiProvider,
+    openaiCompatible: createOpenAICompatibleProvider(() => settings.openaiCompatible),
+};
+
+export const availableProviders: AIProvider[] = Object.values(providers);
+
+export const getProviderSettings = (): ProviderSettings => settings;
+
+export function setProviderSettings(next: ProviderSettings): void {
+    settings = next;
+    if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(withoutApiKey(next)));
+    }
+}
+
+/**
+ * Returns the provider currently selected for a task.
+ * @param task The kind of work to be done.
+ */
+export const getProvider = (task: AITask): AIProvider => providers[settings.tasks[task]];
@@ -0,0 +1,191 @@
+import type { Schema } from '@google/genai';
+import type { AIProvider, OpenAICompatibleSettings, TokenUsage } from './types';
+import { base64ToBytes, bytesToBase64 } from '../encoding';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts a Gemini response schema (upper-case `Type` values) into standard JSON Schema.
+ * @param schema The Gemini schema.
+ * @returns An equivalent JSON Schema object.
+ */
+export function toJsonSchema(schema: Schema): JsonSchema {
+    const jsonSchema: JsonSchema = {};
+    if (schema.type) jsonSchema.type = schema.type.toLowerCase();
+    if (schema.description) jsonSchema.description = schema.description;
+    if (schema.enum) jsonSchema.enum = schema.enum;
+    if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        jsonSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+        jsonSchema.required = schema.required ?? [];
+        jsonSchema.additionalProperties = false;
+    }
+    return jsonSchema;
+}
+
+const imageSizes = {
+    '16:9': '1792x1024',
+    '1:1': '1024x1024',
+    '9:16': '1024x1792',
+} as const;
+
+const videoSizes = {
+    '16:9': '1280x720',
+    '9:16': '720x1280',
+} as const;
+
+/**
+ * Creates an adapter for servers that implement the OpenAI REST API (vLLM, LocalAI, Ollama, LM Studio, stand-in mocks, ...).
+ * Settings are read on every call so changes in the UI apply without reloading.
+ * @param getSettings Returns the current connection settings.
+ */
+export function createOpenAICompatibleProvider(getSettings: () => OpenAICompatibleSettings): AIProvider {
+    const request = async (path: string, body?: unknown, signal?: AbortSignal): Promise<Response> => {
+        const { baseUrl, apiKey } = getSettings();
+        if (!baseUrl.trim()) {
+            throw new Error('No base URL is configured for the OpenAI-compatible provider.');
+        }
+        const isForm = body instanceof FormData;
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                ...(isForm || body === undefined ? {} : { 'Content-Type': 'application/json' }),
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+        }
+        return response;
+    };
+
+    const chatCompletionBody = (prompt: string, schema: Schema | undefined) => ({
+        model: getSettings().textModel,
+        messages: [{ role: 'user', content: prompt }],
+        ...(schema ? {
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: toJsonSchema(schema) },
+            },
+        } : {}),
+    });
+
+    const toTokenUsage = (usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage | undefined => usage && {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+    };
+
+    return {
+        id: 'openaiCompatible',
+        label: 'OpenAI-compatible / Local HTTP',
+
+        async generateText({ prompt, schema, signal }) {
+            const response = await request('/chat/completions', chatCompletionBody(prompt, schema), signal);
+            const data = await response.json();
+            const choice = data.choices?.[0];
+            return {
+                text: choice?.message?.content ?? undefined,
+                blockReason: choice?.finish_reason === 'content_filter' ? 'CONTENT_FILTER' : undefined,
+                usage: toTokenUsage(data.usage),
+            };
+        },
+
+        async *streamText({ prompt, schema, signal }) {
+            const response = await request('/chat/completions', { ...chatCompletionBody(prompt, schema), stream: true, stream_options: { include_usage: true } }, signal);
+            if (!response.body) {
+                throw new Error('The server did not return a response stream.');
+            }
+            // Server-sent events: one "data: <json>" line per chunk, ending with "data: [DONE]". The token counts
+            // arrive in a last chunk with no choices.
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffered = '';
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffered += value;
+                const lines = buffered.split('\n');
+                buffered = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.trim().replace(/^data:\s*/, '');
+                    if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+                    const parsed = JSON.parse(data);
+                    const choice = parsed.choices?.[0];
+                    yield {
+                        text: choice?.delta?.content ?? undefined,
+                        blockReason: choice?.finish_reason === 'content_filter' ? 'CONTENT_FILTER' : undefined,
+                        usage: toTokenUsage(parsed.usage ?? undefined),
+                    };
+                }
+            }
+        },
+
+        async generateImage({ prompt, aspectRatio = '16:9', referenceImages, signal }) {
+            const { imageModel } = getSettings();
+            if (referenceImages?.length) {
+                const form = new FormData();
+                form.append('model', imageModel);
+                form.append('prompt', prompt);
+                form.append('size', imageSizes[aspectRatio]);
+                referenceImages.forEach((image, index) => {
+                    form.append('image[]', new Blob([base64ToBytes(image.data)], { type: image.mimeType }), `reference_${index + 1}`);
+                });
+                const data = await (await request('/images/edits', form, signal)).json();
+                return { imageB64: data.data?.[0]?.b64_json };
+            }
+            const response = await request('/images/generations', {
+                model: imageModel,
+                prompt,
+                n: 1,
+                size: imageSizes[aspectRatio],
+                response_format: 'b64_json',
+            }, signal);
+            const data = await response.json();
+            return { imageB64: data.data?.[0]?.b64_json };
+        },
+
+        async synthesizeSpeech({ text, voiceName, instructions, signal }) {
+            const { speechModel } = getSettings();
+            // 'pcm' is raw 24 kHz, 16-bit, mono audio: the same format the Gemini TTS model returns.
+            const response = await request('/audio/speech', {
+                model: speechModel,
+                input: text,
+                voice: voiceName,
+                response_format: 'pcm',
+                ...(instructions ? { instructions } : {}),
+            }, signal);
+            return { audioB64: bytesToBase64(new Uint8Array(await response.arrayBuffer())) };
+        },
+
+        async startVideoGeneration({ prompt, aspectRatio = '16:9', durationSeconds, image, signal }) {
+            const { videoModel } = getSettings();
+            const form = new FormData();
+            form.append('model', videoModel);
+            form.append('prompt', prompt);
+            form.append('size', videoSizes[aspectRatio]);
+            if (durationSeconds) form.append('seconds', String(durationSeconds));
+            if (image) form.append('input_reference', new Blob([base64ToBytes(image.data)], { type: image.mimeType }), 'first_frame');
+            const data = await (await request('/videos', form, signal)).json();
+            if (!data.id) {
+                throw new Error('The video endpoint did not return a job id.');
+            }
+            return data.id;
+        },
+
+        async getVideoGeneration(jobId) {
+            const job = await (await request(`/videos/${encodeURIComponent(jobId)}`)).json();
+            if (job.status === 'failed') {
+                return { done: true, error: job.error?.message || 'The video generation failed.' };
+            }
+            if (job.status !== 'completed') {
+                return { done: false, progress: job.progress };
+            }
+            const content = await request(`/videos/${encodeURIComponent(jobId)}/content`);
+            return { done: true, videoB64: bytesToBase64(new Uint8Array(await content.arrayBuffer())), mimeType: 'video/mp4' };
+        },
+    };
+}
@@ -0,0 +1,99 @@
+import type { Schema } from '@google/genai';
+import type { ReferenceImage } from '../../types';
+
+export type AITask = 'text' | 'image' | 'speech' | 'video';
+
+export type ProviderId = 'gemini' | 'openaiCompatible';
+
+export interface TextGenerationRequest {
+  prompt: string;
+  // When set, the provider must answer with JSON matching this schema.
+  schema?: Schema;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // including any thinking tokens, which are billed as output
+}
+
+export interface TextGenerationResult {
+  text?: string;
+  blockReason?: string;
+  // What the request cost, when the backend reports it; on a stream, the latest chunk's count covers the whole response.
+  usage?: TokenUsage;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  aspectRatio?: '16:9' | '1:1' | '9:16';
+  // Canonical character portraits the image must stay consistent with; switches to an image-edit model.
+  referenceImages?: ReferenceImage[];
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationResult {
+  imageB64?: string; // base64 JPEG (PNG from reference-guided models)
+}
+
+export interface SpeechSynthesisRequest {
+  text: string;
+  voiceName: string;
+  // Delivery and pronunciation directions for the speaker; followed by the model but never spoken.
+  instructions?: string;
+  signal?: AbortSignal;
+}
+
+export interface SpeechSynthesisResult {
+  audioB64?: string; // base64 of raw 24 kHz, 16-bit, mono PCM
+  blockReason?: string;
+}
+
+export interface VideoGenerationRequest {
+  prompt: string;
+  aspectRatio?: '16:9' | '9:16';
+  durationSeconds?: number;
+  // Optional first frame (e.g. the scene's storyboard frame) the clip should start from.
+  image?: ReferenceImage;
+  // Aborts the submission only; a job the backend has already accepted keeps rendering.
+  signal?: AbortSignal;
+}
+
+export interface VideoJobStatus {
+  done: boolean;
+  progress?: number; // 0-100, when the backend reports it
+  error?: string;
+  videoB64?: string; // set once done and successful
+  mimeType?: string;
+}
+
+/**
+ * A backend that can serve one or more AI tasks. Every adapter normalises its vendor's response into these shapes
+ * so the generation functions in geminiService never depend on a specific SDK.
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  generateText(request: TextGenerationRequest): Promise<TextGenerationResult>;
+  // Yields the response as it is written; each chunk's text continues the previous one.
+  streamText(request: TextGenerationRequest): AsyncIterable<TextGenerationResult>;
+  generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+  synthesizeSpeech(request: SpeechSynthesisRequest): Promise<SpeechSynthesisResult>;
+  // Video models run as long-running jobs: start returns a job id that is polled until done.
+  startVideoGeneration(request: VideoGenerationRequest): Promise<string>;
+  getVideoGeneration(jobId: string): Promise<VideoJobStatus>;
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  apiKey: string;
+  textModel: string;
+  imageModel: string;
+  speechModel: string;
+  videoModel: string;
+}
+
+export interface ProviderSettings {
+  tasks: Record<AITask, ProviderId>;
+  openaiCompatible: OpenAICompatibleSettings;
+}
@@ -0,0 +1,39 @@
+import { recordUsage, type UsageEntry, type UsageScope } from './usageTracking';
+
+/**
+ * The base URL of the Pikaza proxy server, set at build time with VITE_PROXY_URL (e.g. "/api").
+ * When set, every generation call goes through the proxy and the browser never sees an API key.
+ */
+const proxyUrl: string | undefined = import.meta.env?.VITE_PROXY_URL;
+
+export const isProxyEnabled = (): boolean => !!proxyUrl;
+
+/**
+ * Invokes a generation function on the proxy server.
+ * @param name The name of the exported geminiService function.
+ * @param args The arguments to pass to it; they must be JSON-serialisable.
+ * @param signal Cancels the request.
+ * @param usage The work the call's usage is filed under.
+ * @returns The function's result as computed on the server.
+ */
+export async function callProxy<T>(name: string, args: unknown[], signal?: AbortSignal, usage?: UsageScope): Promise<T> {
+    const response = await fetch(`${proxyUrl!.replace(/\/+$/, '')}/${name}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ args }),
+        signal,
+    });
+    const payload = await response.json().catch(() => ({}));
+    // The server reports what the call used, so it is filed here like a direct call's usage.
+    if (Array.isArray(payload.usage)) {
+        (payload.usage as UsageEntry[]).forEach(entry => recordUsage(entry, usage));
+    }
+    if (!response.ok) {
+        if (response.status === 429) {
+            const retryAfter = response.headers.get('Retry-After');
+            throw new Error(`You have reached the request limit. Please wait${retryAfter ? ` ${retryAfter} seconds` : ''} and try again.`);
+        }
+        throw new Error(payload.error || `The proxy server returned ${response.status} ${response.statusText}.`);
+    }
+    return payload.result as T;
+}
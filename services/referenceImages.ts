@@ -0,0 +1,42 @@
+import type { ReferenceImage } from '../types';
+import { escapeRegExp } from './text';
+
+// Image-edit models degrade quickly with many inputs; a scene rarely needs more than its main cast.
+export const MAX_REFERENCE_IMAGES = 3;
+
+export interface ReferenceCharacter {
+    name: string;
+    referenceImage?: ReferenceImage;
+}
+
+/**
+ * Picks the reference portraits of the characters mentioned by name in a prompt.
+ * @param text The scene or thumbnail prompt.
+ * @param characters The characters that may appear, with their portraits.
+ * @returns Up to MAX_REFERENCE_IMAGES portraits, in order of first mention.
+ */
+export function selectReferenceImages(text: string, characters: ReferenceCharacter[]): ReferenceImage[] {
+    return characters
+        .filter(c => c.referenceImage && c.name.trim())
+        .map(c => ({ image: c.referenceImage!, index: text.search(new RegExp(`\\b${escapeRegExp(c.name.trim())}\\b`, 'i')) }))
+        .filter(match => match.index !== -1)
+        .sort((a, b) => a.index - b.index)
+        .map(match => match.image)
+        .slice(0, MAX_REFERENCE_IMAGES);
+}
+
+export function readImageFile(file: File): Promise<ReferenceImage> {
+    return new Promise((resolve, reject) => {
+        if (!file.type.startsWith('image/')) {
+            reject(new Error('Please choose an image file.'));
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => {
+            const dataUrl = String(reader.result);
+            resolve({ data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: file.type });
+        };
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read the image file.'));
+        reader.readAsDataURL(file);
+    });
+}
@@ -0,0 +1,163 @@
+import { Type, type Schema } from '@google/genai';
+import { ApiError } from './apiRequests';
+
+export interface ResponseIssue {
+    path: string; // where in the response, e.g. '$.prompts[3].scene_number'
+    message: string;
+    repaired: boolean;
+}
+
+export interface ValidationOptions {
+    // Arrays the caller completes itself (e.g. scenes it asks for again when missing): broken items are dropped
+    // and a short list is not an error.
+    completedByCaller?: string[];
+}
+
+// Issues listed in an error before the rest are summarised, so the message stays readable.
+const MAX_LISTED_ISSUES = 8;
+
+const describeValue = (value: unknown) => Array.isArray(value) ? 'a list' : value === null ? 'null' : typeof value;
+
+/**
+ * Checks a parsed response against the schema it was requested with and repairs what can be repaired without
+ * guessing: numbers sent as strings and the reverse, a single item where a list was expected, enum values in the
+ * wrong case, and lists longer than `maxItems`.
+ * @param value The parsed response.
+ * @param schema The schema the response was requested with.
+ * @returns The repaired response and everything that was wrong with it; issues that could not be repaired have
+ *   `repaired: false`.
+ */
+export function validateResponse<T>(value: unknown, schema: Schema, options: ValidationOptions = {}): { value: T; issues: ResponseIssue[] } {
+    const issues: ResponseIssue[] = [];
+    const completedByCaller = new Set(options.completedByCaller ?? []);
+    const issue = (path: string, message: string, repaired: boolean) => issues.push({ path, message, repaired });
+
+    const conform = (current: unknown, node: Schema, path: string): unknown => {
+        switch (node.type) {
+            case Type.STRING: {
+                if (typeof current === 'number' || typeof current === 'boolean') {
+                    issue(path, `should be text but is a ${typeof current}`, true);
+                    current = String(current);
+                } else if (typeof current !== 'string') {
+                    issue(path, `should be text but is ${describeValue(current)}`, false);
+                    return current;
+                }
+                if (node.enum && !node.enum.includes(current as string)) {
+                    const match = node.enum.find(option => option.toLowerCase() === (current as string).trim().toLowerCase());
+                    issue(path, `"${current}" is not one of ${node.enum.join(', ')}`, !!match);
+                    return match ?? current;
+                }
+                return current;
+            }
+            case Type.INTEGER:
+            case Type.NUMBER: {
+                const number = typeof current === 'string' && current.trim() !== '' ? Number(current) : current;
+                if (typeof number !== 'number' || !Number.isFinite(number)) {
+                    issue(path, `should be a number but is ${typeof current === 'string' ? `"${current}"` : describeValue(current)}`, false);
+                    return current;
+                }
+                const conformed = node.type === Type.INTEGER ? Math.round(number) : number;
+                if (conformed !== current) {
+                    issue(path, `should be ${node.type === Type.INTEGER ? 'a whole number' : 'a number'} but is ${JSON.stringify(current)}`, true);
+                }
+                return conformed;
+            }
+            case Type.BOOLEAN: {
+                if (typeof current === 'boolean') return current;
+                if (current === 'true' || current === 'false') {
+                    issue(path, 'should be true or false but is text', true);
+                    return current === 'true';
+                }
+                issue(path, `should be true or false but is ${describeValue(current)}`, false);
+                return current;
+            }
+            case Type.ARRAY: {
+                let list: unknown[];
+                if (Array.isArray(current)) {
+                    list = current;
+                } else if (current !== null && typeof current === 'object' || typeof current === 'string') {
+                    issue(path, 'should be a list but is a single item', true);
+                    list = [current];
+                } else {
+                    issue(path, `should be a list but is ${describeValue(current)}`, false);
+                    return current;
+                }
+                if (!node.items) return list;
+                if (completedByCaller.has(path)) {
+                    // Each item is checked on its own; broken ones are left out for the caller to ask for again.
+                    return list.flatMap((item, i) => {
+                        const itemPath = `${path}[${i}]`;
+                        const before = issues.length;
+                        const conformed = conform(item, node.items!, itemPath);
+                        const itemIssues = issues.splice(before);
+                        const broken = itemIssues.filter(found => !found.repaired);
+                        if (broken.length === 0) {
+                            issues.push(...itemIssues);
+                            return [conformed];
+                        }
+                        issue(itemPath, `was left out: ${broken.map(found => `${found.path} ${found.message}`).join(', ')}`, true);
+                        return [];
+                    });
+                }
+                let conformedList = list.map((item, i) => conform(item, node.items!, `${path}[${i}]`));
+                const maxItems = node.maxItems ? Number(node.maxItems) : Infinity;
+                const minItems = node.minItems ? Number(node.minItems) : 0;
+                if (conformedList.length > maxItems) {
+                    issue(path, `has ${conformedList.length} items but should have at most ${maxItems}; the extra ones were dropped`, true);
+                    conformedList = conformedList.slice(0, maxItems);
+                }
+                if (conformedList.length < minItems) {
+                    issue(path, `has ${conformedList.length} items but should have at least ${minItems}`, false);
+                }
+                return conformedList;
+            }
+            case Type.OBJECT: {
+                if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+                    issue(path, `should be an object but is ${describeValue(current)}`, false);
+                    return current;
+                }
+                const conformed: Record<string, unknown> = { ...current as Record<string, unknown> };
+                for (const [key, property] of Object.entries(node.properties ?? {})) {
+                    const propertyPath = `${path}.${key}`;
+                    if (conformed[key] === undefined || conformed[key] === null) {
+                        if (!node.required?.includes(key)) continue;
+                        if (property.type === Type.ARRAY && completedByCaller.has(propertyPath)) {
+                            issue(propertyPath, 'is missing; an empty list was used', true);
+                            conformed[key] = [];
+                        } else {
+                            issue(propertyPath, 'is missing', false);
+                        }
+                        continue;
+                    }
+                    conformed[key] = conform(conformed[key], property, propertyPath);
+                }
+                return conformed;
+            }
+            default:
+                return current;
+        }
+    };
+
+    return { value: conform(value, schema, '$') as T, issues };
+}
+
+/**
+ * Validates and repairs a response, logging the repairs.
+ * @param context The operation, for the log and the error, e.g. 'title generation'.
+ * @returns The repaired response.
+ * @throws ApiError of kind 'invalidResponse' listing every issue that could not be repaired.
+ */
+export function conformResponse<T>(value: unknown, schema: Schema, context: string, options?: ValidationOptions): T {
+    const { value: conformed, issues } = validateResponse<T>(value, schema, options);
+    const repaired = issues.filter(issue => issue.repaired);
+    if (repaired.length > 0) {
+        console.warn(`Repaired the response for ${context}:`, repaired.map(issue => `${issue.path} ${issue.message}`));
+    }
+    const broken = issues.filter(issue => !issue.repaired);
+    if (broken.length > 0) {
+        const listed = broken.slice(0, MAX_LISTED_ISSUES).map(issue => `${issue.path} ${issue.message}`);
+        const more = broken.length > MAX_LISTED_ISSUES ? `; and ${broken.length - MAX_LISTED_ISSUES} more` : '';
+        throw new ApiError('invalidResponse', `The AI's response did not match the expected format: ${listed.join('; ')}${more}.`);
+    }
+    return conformed;
+}
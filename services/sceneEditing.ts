@@ -0,0 +1,135 @@
+import type { GeneratedResult, ScenePrompt } from '../types';
+import { SCENE_DURATION_SECONDS } from './scenePlanning';
+
+// scene_number of a scene that did not exist before an edit; withEditedScenes numbers it.
+const NEW_SCENE = 0;
+const MAX_HISTORY = 50;
+
+export type SceneSnapshot = Pick<GeneratedResult, 'prompts' | 'sceneFrames' | 'sceneVideos'>;
+
+export interface SceneHistory {
+    undo: SceneSnapshot[];
+    redo: SceneSnapshot[];
+}
+
+export const EMPTY_SCENE_HISTORY: SceneHistory = { undo: [], redo: [] };
+
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+const durationOf = (scene: ScenePrompt) => Math.max(0, scene.end_time_seconds - scene.start_time_seconds) || SCENE_DURATION_SECONDS;
+
+/**
+ * Numbers scenes 1..n in order and lays them out back to back, each keeping its own duration
+ * (8 seconds, or whatever the voiceover alignment gave it).
+ */
+export function renumberScenes(scenes: ScenePrompt[]): ScenePrompt[] {
+    let start = 0;
+    return scenes.map((scene, i) => {
+        const end = start + durationOf(scene);
+        const renumbered = { ...scene, scene_number: i + 1, start_time_seconds: roundTime(start), end_time_seconds: roundTime(end) };
+        start = end;
+        return renumbered;
+    });
+}
+
+export const updateScenePrompt = (scenes: ScenePrompt[], index: number, prompt: string): ScenePrompt[] =>
+    scenes.map((scene, i) => i === index ? { ...scene, prompt } : scene);
+
+export const insertScene = (scenes: ScenePrompt[], index: number, prompt: string): ScenePrompt[] => [
+    ...scenes.slice(0, index),
+    { scene_number: NEW_SCENE, start_time_seconds: 0, end_time_seconds: SCENE_DURATION_SECONDS, prompt },
+    ...scenes.slice(index),
+];
+
+export const deleteScene = (scenes: ScenePrompt[], index: number): ScenePrompt[] => scenes.filter((_, i) => i !== index);
+
+export function moveScene(scenes: ScenePrompt[], from: number, to: number): ScenePrompt[] {
+    const next = [...scenes];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+}
+
+/**
+ * Splits a scene into two shots of half its length with the same prompt, dividing its narration at the word
+ * boundary nearest the middle. The first half keeps the scene's frame and clip.
+ */
+export function splitScene(scenes: ScenePrompt[], index: number): ScenePrompt[] {
+    const scene = scenes[index];
+    const half = roundTime(durationOf(scene) / 2);
+    const words = scene.narration?.split(/\s+/).filter(Boolean) ?? [];
+    const cut = Math.ceil(words.length / 2);
+    const narration = (part: string[]) => scene.narration !== undefined ? part.join(' ') : undefined;
+    return [
+        ...scenes.slice(0, index),
+        { ...scene, end_time_seconds: scene.start_time_seconds + half, narration: narration(words.slice(0, cut)) },
+        { ...scene, scene_number: NEW_SCENE, start_time_seconds: 0, end_time_seconds: half, narration: narration(words.slice(cut)) },
+        ...scenes.slice(index + 1),
+    ];
+}
+
+/**
+ * Merges a scene with the one after it into one shot covering both: the first scene's prompt, their combined
+ * length and both narrations.
+ */
+export function mergeScenes(scenes: ScenePrompt[], index: number): ScenePrompt[] {
+    const [first, second] = [scenes[index], scenes[index + 1]];
+    if (!second) return scenes;
+    const narration = [first.narration, second.narration].filter(Boolean).join(' ');
+    return [
+        ...scenes.slice(0, index),
+        { ...first, end_time_seconds: first.start_time_seconds + durationOf(first) + durationOf(second), narration: narration || undefined },
+        ...scenes.slice(index + 2),
+    ];
+}
+
+/**
+ * Replaces a result's scenes with an edited list, renumbering and retiming them. Storyboard frames and video clips
+ * move with their scene; scenes that are new or whose prompt changed lose them, since they no longer match.
+ * @param result The result the scenes were edited from.
+ * @param scenes The edited scenes, in order, still carrying their old scene numbers.
+ * @returns The result with the new scenes.
+ */
+export function withEditedScenes(result: GeneratedResult, scenes: ScenePrompt[]): GeneratedResult {
+    const previous = new Map((result.prompts ?? []).map(scene => [scene.scene_number, scene]));
+    const sceneFrames: Record<number, string> = {};
+    const sceneVideos: NonNullable<GeneratedResult['sceneVideos']> = {};
+    const claimed = new Set<number>();
+    const prompts = renumberScenes(scenes);
+    scenes.forEach((scene, i) => {
+        const old = previous.get(scene.scene_number);
+        if (!old || old.prompt !== scene.prompt || claimed.has(scene.scene_number)) return;
+        claimed.add(scene.scene_number);
+        const frame = result.sceneFrames?.[scene.scene_number];
+        const video = result.sceneVideos?.[scene.scene_number];
+        if (frame) sceneFrames[i + 1] = frame;
+        if (video) sceneVideos[i + 1] = video;
+    });
+    return { ...result, prompts, sceneFrames, sceneVideos };
+}
+
+export const takeSceneSnapshot = (result: GeneratedResult): SceneSnapshot =>
+    ({ prompts: result.prompts, sceneFrames: result.sceneFrames, sceneVideos: result.sceneVideos });
+
+/**
+ * Records the scenes as they were before an edit. A new edit drops whatever could have been redone.
+ */
+export const pushSceneHistory = (history: SceneHistory, before: GeneratedResult): SceneHistory =>
+    ({ undo: [...history.undo, takeSceneSnapshot(before)].slice(-MAX_HISTORY), redo: [] });
+
+/**
+ * Undoes or redoes one scene edit.
+ * @param history The edit history.
+ * @param current The result as it is now; its scenes become the opposite direction's next step.
+ * @returns The result with the restored scenes and the updated history, or null when there is nothing to restore.
+ */
+export function stepSceneHistory(history: SceneHistory, current: GeneratedResult, direction: 'undo' | 'redo'): { result: GeneratedResult; history: SceneHistory } | null {
+    const from = history[direction];
+    const restored = from[from.length - 1];
+    if (!restored) return null;
+    const remaining = from.slice(0, -1);
+    const opposite = [...history[direction === 'undo' ? 'redo' : 'undo'], takeSceneSnapshot(current)];
+    return {
+        result: { ...current, ...restored },
+        history: direction === 'undo' ? { undo: remaining, redo: opposite } : { undo: opposite, redo: remaining },
+    };
+}
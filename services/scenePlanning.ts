@@ -0,0 +1,59 @@
+import type { ScenePrompt } from '../types';
+
+export const SCENE_DURATION_SECONDS = 8;
+
+export type SceneRange = [first: number, last: number];
+
+/**
+ * Splits scenes first..last into consecutive ranges of at most `size` scenes.
+ */
+export function chunkSceneRange([first, last]: SceneRange, size: number): SceneRange[] {
+    const ranges: SceneRange[] = [];
+    for (let start = first; start <= last; start += size) {
+        ranges.push([start, Math.min(last, start + size - 1)]);
+    }
+    return ranges;
+}
+
+/**
+ * Lists the runs of scene numbers in 1..total that have no prompt yet.
+ */
+export function findMissingSceneRanges(prompts: ScenePrompt[], total: number): SceneRange[] {
+    const present = new Set(prompts.map(p => p.scene_number));
+    const ranges: SceneRange[] = [];
+    for (let n = 1; n <= total; n++) {
+        if (present.has(n)) continue;
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === n - 1) last[1] = n;
+        else ranges.push([n, n]);
+    }
+    return ranges;
+}
+
+const hasPromptText = (scene: unknown): scene is ScenePrompt =>
+    typeof scene === 'object' && scene !== null
+    && typeof (scene as ScenePrompt).prompt === 'string' && (scene as ScenePrompt).prompt.trim() !== '';
+
+/**
+ * Keeps the usable scenes a model returned for a range: numbered inside it, with a prompt, one per number.
+ * A complete list that is misnumbered (e.g. restarting from 1 for a later range) is renumbered in order.
+ * Timings are recomputed from the scene number, since models drift on long lists.
+ */
+export function normalizeScenes(prompts: unknown, [first, last]: SceneRange): ScenePrompt[] {
+    const withText = (Array.isArray(prompts) ? prompts : []).filter(hasPromptText);
+    const numbers = new Set(withText.map(p => Number(p.scene_number)));
+    const isMisnumbered = withText.length === last - first + 1
+        && Array.from({ length: withText.length }, (_, i) => first + i).some(n => !numbers.has(n));
+    const byNumber = new Map<number, ScenePrompt>();
+    for (const [i, p] of withText.entries()) {
+        const n = isMisnumbered ? first + i : Number(p.scene_number);
+        if (!Number.isInteger(n) || n < first || n > last || byNumber.has(n)) continue;
+        byNumber.set(n, {
+            ...p,
+            scene_number: n,
+            start_time_seconds: (n - 1) * SCENE_DURATION_SECONDS,
+            end_time_seconds: n * SCENE_DURATION_SECONDS,
+        });
+    }
+    return Array.from(byNumber.values()).sort((a, b) => a.scene_number - b.scene_number);
+}
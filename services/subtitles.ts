@@ -0,0 +1,75 @@
+import type { DialogueSegment, GeneratedResult, ScenePrompt, VoiceoverTrack } from '../types';
+import { segmentNarration, timeSentences, type TimedText } from './alignment';
+import { pcmDurationSeconds } from './audio';
+import { parseDialogueScript } from './dialogue';
+import { ENGLISH, getLanguage } from './languages';
+
+export interface SubtitleTrack {
+    language: string; // language code; identifies the track and is used for the WebVTT track and file names
+    label: string;
+    cues: TimedText[];
+}
+
+/**
+ * Times a script against the audio when there is one, otherwise against the scene boundaries:
+ * the script is split across scenes and each scene's share is spread over that scene.
+ */
+function timeScript(script: string, voiceoverAudio: string | undefined, prompts: ScenePrompt[]): TimedText[] {
+    if (voiceoverAudio) {
+        return timeSentences(script, pcmDurationSeconds(voiceoverAudio));
+    }
+    if (prompts.length === 0) return [];
+    const segments = segmentNarration(script, prompts.length, 1);
+    return prompts.flatMap((prompt, i) =>
+        timeSentences(segments[i].text, prompt.end_time_seconds - prompt.start_time_seconds, prompt.start_time_seconds)
+    );
+}
+
+// Dialogue voiceovers know exactly when each line is spoken, so cues never straddle two speakers.
+const timeDialogue = (texts: string[], segments: DialogueSegment[]): TimedText[] =>
+    segments.flatMap((segment, i) => timeSentences(texts[i] ?? '', segment.end - segment.start, segment.start));
+
+/**
+ * Builds one subtitle track per language the voiceover is available in: the voiceover language itself plus its
+ * translations (the English text it was voiced from, other scripts). English comes first, then the voiceover language.
+ * @param audioTrack The spoken version to time the cues against; defaults to the main voiceover audio.
+ */
+export function buildSubtitleTracks(result: GeneratedResult, audioTrack?: VoiceoverTrack): SubtitleTrack[] {
+    if (!result.voiceover?.trim()) return [];
+    const prompts = result.prompts ?? [];
+    const voiceoverLanguage = result.voiceoverLanguage ?? ENGLISH;
+    const scripts: Record<string, string> = { ...result.voiceoverTranslations, [voiceoverLanguage]: result.voiceover };
+    const rank = (code: string) => code === ENGLISH ? 0 : code === voiceoverLanguage ? 1 : 2;
+    const languages = Object.keys(scripts)
+        .filter(code => scripts[code]?.trim())
+        .sort((a, b) => rank(a) - rank(b));
+
+    const audio = audioTrack ? audioTrack.audio : result.voiceoverAudio;
+    const segments = audioTrack ? audioTrack.segments : result.voiceoverSegments;
+    return languages.map(code => {
+        const { label } = getLanguage(code);
+        const cues = segments?.length
+            ? timeDialogue(parseDialogueScript(scripts[code]).map(line => line.text), segments)
+            : timeScript(scripts[code], audio, prompts);
+        return { language: code, label, cues };
+    });
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number, millisecondSeparator: ',' | '.') => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const toSrt = (cues: TimedText[]): string =>
+    cues.map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`).join('\n');
+
+export const toVtt = (cues: TimedText[]): string =>
+    `WEBVTT\n\n${cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`).join('\n')}`;
+
+export const findActiveCueIndex = (cues: TimedText[], time: number): number =>
+    cues.findIndex(cue => time >= cue.start && time < cue.end);
@@ -0,0 +1,239 @@
+import { ArrayBufferTarget, Muxer } from 'mp4-muxer';
+import { decodeVoiceover } from './audio';
+import { base64ToBytes } from './encoding';
+
+export interface TimelineScene {
+    sceneNumber: number;
+    start: number; // seconds
+    end: number;
+    image?: string; // base64 storyboard frame
+    clip?: Blob; // generated video clip; preferred over the image when present
+}
+
+export interface TimelineRenderOptions {
+    width?: number;
+    height?: number;
+    fps?: number;
+    crossfadeSeconds?: number;
+    kenBurns?: boolean;
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+const AUDIO_SAMPLE_RATE = 48000; // AAC encoders do not reliably accept the 24 kHz TTS rate
+const AUDIO_CHUNK_FRAMES = 4096;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+type SceneSource =
+    | { kind: 'image'; bitmap: ImageBitmap }
+    | { kind: 'clip'; video: HTMLVideoElement; url: string }
+    | { kind: 'blank' };
+
+async function loadSceneSource(scene: TimelineScene): Promise<SceneSource> {
+    if (scene.clip) {
+        const url = URL.createObjectURL(scene.clip);
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'auto';
+        video.src = url;
+        try {
+            await new Promise<void>((resolve, reject) => {
+                video.onloadeddata = () => resolve();
+                video.onerror = () => reject(new Error(`Failed to load the clip for scene ${scene.sceneNumber}.`));
+            });
+        } catch (e) {
+            URL.revokeObjectURL(url);
+            throw e;
+        }
+        return { kind: 'clip', video, url };
+    }
+    if (scene.image) {
+        return { kind: 'image', bitmap: await createImageBitmap(new Blob([base64ToBytes(scene.image)])) };
+    }
+    return { kind: 'blank' };
+}
+
+const seekVideo = (video: HTMLVideoElement, time: number) => new Promise<void>(resolve => {
+    const target = Math.min(Math.max(0, time), Math.max(0, video.duration - 0.05));
+    if (Math.abs(video.currentTime - target) < 0.001) {
+        resolve();
+        return;
+    }
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = target;
+});
+
+/**
+ * Draws one scene source covering the canvas. Still images get a slow zoom and pan (Ken Burns) whose
+ * direction alternates between scenes so consecutive shots do not feel identical.
+ */
+async function drawScene(
+    ctx: OffscreenCanvasRenderingContext2D,
+    source: SceneSource,
+    scene: TimelineScene,
+    index: number,
+    time: number,
+    kenBurns: boolean,
+    alpha: number,
+) {
+    const { width, height } = ctx.canvas;
+    ctx.globalAlpha = alpha;
+    if (source.kind === 'blank') {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+        return;
+    }
+
+    let drawable: CanvasImageSource;
+    let sourceWidth: number;
+    let sourceHeight: number;
+    let zoom = 1;
+    let panX = 0;
+    if (source.kind === 'clip') {
+        await seekVideo(source.video, time - scene.start);
+        drawable = source.video;
+        sourceWidth = source.video.videoWidth;
+        sourceHeight = source.video.videoHeight;
+    } else {
+        drawable = source.bitmap;
+        sourceWidth = source.bitmap.width;
+        sourceHeight = source.bitmap.height;
+        if (kenBurns) {
+            const progress = Math.min(1, Math.max(0, (time - scene.start) / Math.max(0.001, scene.end - scene.start)));
+            zoom = index % 2 === 0 ? 1 + 0.12 * progress : 1.12 - 0.12 * progress;
+            panX = (index % 2 === 0 ? 1 : -1) * 0.04 * width * (progress - 0.5);
+        }
+    }
+
+    const scale = Math.max(width / sourceWidth, height / sourceHeight) * zoom;
+    const drawWidth = sourceWidth * scale;
+    const drawHeight = sourceHeight * scale;
+    ctx.drawImage(drawable, (width - drawWidth) / 2 + panX, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+    while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException('The export was cancelled.', 'AbortError');
+};
+
+/**
+ * Renders scenes laid out at their timeline positions, plus the voiceover, into an H.264/AAC MP4 using WebCodecs.
+ * Scenes cross-fade into each other; the last scene holds until the voiceover ends.
+ * @param scenes The scenes, in timeline order.
+ * @param voiceoverAudio The base64 24 kHz PCM voiceover, if any.
+ * @param options Output size, frame rate, effects, progress reporting and cancellation.
+ * @returns The MP4 file.
+ */
+export async function renderTimelineToMp4(scenes: TimelineScene[], voiceoverAudio: string | undefined, options: TimelineRenderOptions = {}): Promise<Blob> {
+    const { width = 1280, height = 720, fps = 30, crossfadeSeconds = 0.5, kenBurns = true, onProgress, signal } = options;
+    if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+        throw new Error('This browser does not support in-browser video export (WebCodecs). Please use a recent Chrome or Edge.');
+    }
+    if (scenes.length === 0) {
+        throw new Error('There are no scenes to export.');
+    }
+
+    const videoConfig: VideoEncoderConfig = { codec: 'avc1.4d0028', width, height, bitrate: 5_000_000, framerate: fps };
+    if (!(await VideoEncoder.isConfigSupported(videoConfig)).supported) {
+        throw new Error(`This browser cannot encode H.264 video at ${width}x${height}.`);
+    }
+
+    const audio = voiceoverAudio ? await decodeVoiceover(voiceoverAudio, AUDIO_SAMPLE_RATE) : null;
+    const duration = Math.max(scenes[scenes.length - 1].end, audio?.duration ?? 0);
+    const totalFrames = Math.ceil(duration * fps);
+
+    const muxer = new Muxer({
+        target: new ArrayBufferTarget(),
+        video: { codec: 'avc', width, height, frameRate: fps },
+        ...(audio ? { audio: { codec: 'aac' as const, numberOfChannels: 1, sampleRate: AUDIO_SAMPLE_RATE } } : {}),
+        fastStart: 'in-memory',
+        firstTimestampBehavior: 'offset',
+    });
+
+    let encoderError: Error | null = null;
+    const onEncoderError = (e: DOMException) => { encoderError = e; };
+    let videoEncoder: VideoEncoder | null = null;
+    let audioEncoder: AudioEncoder | null = null;
+    // Everything that loaded is released in the finally, even when another scene failed to load.
+    const sources: SceneSource[] = [];
+
+    try {
+        const loaded = await Promise.allSettled(scenes.map(loadSceneSource));
+        for (const result of loaded) {
+            if (result.status === 'fulfilled') sources.push(result.value);
+        }
+        const failed = loaded.find(result => result.status === 'rejected');
+        if (failed) throw failed.reason;
+
+        videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: onEncoderError });
+        videoEncoder.configure(videoConfig);
+        if (audio) {
+            audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: onEncoderError });
+            audioEncoder.configure({ codec: 'mp4a.40.2', numberOfChannels: 1, sampleRate: AUDIO_SAMPLE_RATE, bitrate: 128_000 });
+        }
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d')!;
+
+        let sceneIndex = 0;
+        for (let frame = 0; frame < totalFrames; frame++) {
+            throwIfAborted(signal);
+            if (encoderError) throw encoderError;
+            const time = frame / fps;
+            while (sceneIndex < scenes.length - 1 && time >= scenes[sceneIndex].end) sceneIndex++;
+            const scene = scenes[sceneIndex];
+
+            ctx.globalAlpha = 1;
+            ctx.fillStyle = '#000';
+            ctx.fillRect(0, 0, width, height);
+            const fadeProgress = sceneIndex > 0 && crossfadeSeconds > 0 ? (time - scene.start) / crossfadeSeconds : 1;
+            if (fadeProgress < 1) {
+                await drawScene(ctx, sources[sceneIndex - 1], scenes[sceneIndex - 1], sceneIndex - 1, time, kenBurns, 1);
+            }
+            await drawScene(ctx, sources[sceneIndex], scene, sceneIndex, time, kenBurns, Math.min(1, Math.max(0, fadeProgress)));
+
+            const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(time * 1_000_000), duration: Math.round(1_000_000 / fps) });
+            videoEncoder.encode(videoFrame, { keyFrame: frame % (fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+            videoFrame.close();
+            await waitForQueue(videoEncoder);
+            onProgress?.((frame + 1) / totalFrames);
+        }
+
+        if (audio && audioEncoder) {
+            const samples = audio.getChannelData(0);
+            for (let offset = 0; offset < samples.length; offset += AUDIO_CHUNK_FRAMES) {
+                throwIfAborted(signal);
+                const chunk = samples.slice(offset, offset + AUDIO_CHUNK_FRAMES);
+                const audioData = new AudioData({
+                    format: 'f32-planar',
+                    sampleRate: AUDIO_SAMPLE_RATE,
+                    numberOfFrames: chunk.length,
+                    numberOfChannels: 1,
+                    timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1_000_000),
+                    data: chunk,
+                });
+                audioEncoder.encode(audioData);
+                audioData.close();
+                await waitForQueue(audioEncoder);
+            }
+            await audioEncoder.flush();
+        }
+        await videoEncoder.flush();
+        if (encoderError) throw encoderError;
+
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+    } finally {
+        if (videoEncoder && videoEncoder.state !== 'closed') videoEncoder.close();
+        if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+        sources.forEach(source => {
+            if (source.kind === 'image') source.bitmap.close();
+            if (source.kind === 'clip') URL.revokeObjectURL(source.url);
+        });
+    }
+}
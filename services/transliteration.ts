@@ -0,0 +1,31 @@
+import { formatDialogueScript, parseDialogueScript } from './dialogue';
+import { transliterateLines, type CallOptions } from './geminiService';
+
+/**
+ * Rewrites a story or narration in another script of the same language (e.g. Roman Urdu to Urdu script),
+ * keeping its paragraph breaks.
+ * @param script The text to rewrite.
+ * @param fromLanguage The language code the text is written in.
+ * @param toLanguage The language code of the target script.
+ * @returns The same text in the target script.
+ */
+export async function transliterateScript(script: string, fromLanguage: string, toLanguage: string, options: CallOptions = {}): Promise<string> {
+    const lines = script.split('\n');
+    const textIndexes = lines.flatMap((line, i) => line.trim() ? [i] : []);
+    if (textIndexes.length === 0) return '';
+    const transliterated = await transliterateLines(textIndexes.map(i => lines[i].trim()), fromLanguage, toLanguage, options);
+    const nextLines = [...lines];
+    textIndexes.forEach((lineIndex, i) => { nextLines[lineIndex] = transliterated[i]; });
+    return nextLines.join('\n');
+}
+
+/**
+ * Rewrites a dialogue script in another script of the same language. Speaker tags are left as they are, so the
+ * lines still match the voice casting and the recorded dialogue segments.
+ */
+export async function transliterateDialogue(script: string, fromLanguage: string, toLanguage: string, options: CallOptions = {}): Promise<string> {
+    const lines = parseDialogueScript(script);
+    if (lines.length === 0) return '';
+    const transliterated = await transliterateLines(lines.map(line => line.text), fromLanguage, toLanguage, options);
+    return formatDialogueScript(lines.map((line, i) => ({ ...line, text: transliterated[i] })));
+}
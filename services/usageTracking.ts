@@ -0,0 +1,203 @@
+import type { ProjectStep, UsageAmounts, UsageKind, UsageRecord } from '../types';
+import { ApiError } from './apiRequests';
+import { STORES, getAllRecords, putRecord } from './db';
+
+// Records what every provider call used, files it under the project and step that made it, and estimates what it
+// cost from a price table the user can edit.
+
+const SETTINGS_KEY = 'pikaza.usageSettings';
+
+// Prices in US dollars.
+export interface PriceTable {
+    inputTokensPerMillion: number;
+    outputTokensPerMillion: number;
+    perImage: number;
+    perAudioSecond: number;
+    perVideoSecond: number;
+}
+
+export interface UsageSettings {
+    prices: PriceTable;
+    monthlyBudget: number | null; // US dollars; null for no cap
+}
+
+// List prices of the default Gemini models (2.5 Flash, Imagen 4, the Flash TTS preview and Veo 3) when this was written.
+export const defaultUsageSettings: UsageSettings = {
+    prices: {
+        inputTokensPerMillion: 0.3,
+        outputTokensPerMillion: 2.5,
+        perImage: 0.04,
+        perAudioSecond: 0.00025,
+        perVideoSecond: 0.4,
+    },
+    monthlyBudget: null,
+};
+
+function loadUsageSettings(): UsageSettings {
+    if (typeof localStorage === 'undefined') return defaultUsageSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        if (!stored) return defaultUsageSettings;
+        const parsed = JSON.parse(stored) as Partial<UsageSettings>;
+        return {
+            prices: { ...defaultUsageSettings.prices, ...parsed.prices },
+            monthlyBudget: parsed.monthlyBudget ?? null,
+        };
+    } catch (e) {
+        console.error('Failed to read usage settings:', e);
+        return defaultUsageSettings;
+    }
+}
+
+let settings = loadUsageSettings();
+
+export const getUsageSettings = (): UsageSettings => settings;
+
+export function setUsageSettings(next: UsageSettings): void {
+    settings = next;
+    if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    }
+}
+
+export interface UsageAttribution {
+    projectId?: string;
+    projectName?: string;
+    step?: ProjectStep;
+}
+
+// The work usage is filed under, and the records it has made so far. Generation calls are handed it in their options.
+export interface UsageScope {
+    attribution: UsageAttribution;
+    records: UsageRecord[];
+}
+
+export type UsageEntry = UsageAmounts & { operation: string; kind: UsageKind };
+
+type UsageListener = (records: UsageRecord[]) => void;
+
+// Only browsers keep a usage history; elsewhere (the proxy server) records live only as long as their scope.
+const keepsHistory = () => typeof indexedDB !== 'undefined';
+
+let history: UsageRecord[] = [];
+let historyLoad: Promise<void> | null = null;
+const listeners = new Set<UsageListener>();
+
+const publish = () => listeners.forEach(listener => listener(history));
+
+const saveRecord = (record: UsageRecord) =>
+    putRecord(STORES.usage, record).catch(e => console.error('Failed to save a usage record:', e));
+
+function loadHistory(): Promise<void> {
+    historyLoad ??= getAllRecords<UsageRecord>(STORES.usage)
+        .then(stored => {
+            const recorded = new Set(history.map(record => record.id));
+            history = [...stored.filter(record => !recorded.has(record.id)), ...history].sort((a, b) => a.createdAt - b.createdAt);
+            publish();
+        })
+        .catch(e => {
+            historyLoad = null;
+            console.error('Failed to load the usage history:', e);
+        });
+    return historyLoad;
+}
+
+/**
+ * Records what one provider call used.
+ * @param entry The operation, e.g. 'title generation', and the amounts it used.
+ * @param scope The work the call was made for; without one the record belongs to no project.
+ */
+export function recordUsage(entry: UsageEntry, scope?: UsageScope): void {
+    const record: UsageRecord = {
+        ...entry,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        projectId: scope?.attribution.projectId,
+        projectName: scope?.attribution.projectName,
+        step: scope?.attribution.step,
+    };
+    scope?.records.push(record);
+    if (!keepsHistory()) return;
+    history = [...history, record];
+    publish();
+    void saveRecord(record);
+}
+
+/**
+ * Files the usage of some work under a project and step. The work passes the scope it is given to every generation
+ * call it makes, so work that overlaps (e.g. a batch queue and the editor) is never mixed up. It can fill in the
+ * project, or move on to another step, through the scope's attribution (e.g. once the story step has created the
+ * project); everything the work used ends up under the project it ends with.
+ */
+export async function trackUsage<T>(attribution: UsageAttribution, work: (scope: UsageScope) => Promise<T>): Promise<T> {
+    const scope: UsageScope = { attribution, records: [] };
+    try {
+        return await work(scope);
+    } finally {
+        const { projectId, projectName } = attribution;
+        const moved = new Set(scope.records.filter(record => projectId && record.projectId !== projectId).map(record => record.id));
+        if (moved.size > 0 && keepsHistory()) {
+            history = history.map(record => moved.has(record.id) ? { ...record, projectId, projectName } : record);
+            publish();
+            history.filter(record => moved.has(record.id)).forEach(saveRecord);
+        }
+    }
+}
+
+/**
+ * Subscribes to the usage history, loading it on first use. The listener is called with every record right away
+ * and again each time one is added or moved.
+ * @returns A function that unsubscribes the listener.
+ */
+export function subscribeUsage(listener: UsageListener): () => void {
+    listeners.add(listener);
+    listener(history);
+    if (keepsHistory()) void loadHistory();
+    return () => { listeners.delete(listener); };
+}
+
+export const monthOf = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export interface UsageSummary extends Required<UsageAmounts> {
+    calls: number;
+    cost: number; // US dollars, estimated from the price table
+}
+
+/**
+ * Adds up what a set of calls used and estimates what they cost.
+ */
+export function summarizeUsage(records: UsageRecord[], prices: PriceTable = settings.prices): UsageSummary {
+    const summary: UsageSummary = { calls: records.length, inputTokens: 0, outputTokens: 0, images: 0, audioSeconds: 0, videoSeconds: 0, cost: 0 };
+    for (const record of records) {
+        summary.inputTokens += record.inputTokens ?? 0;
+        summary.outputTokens += record.outputTokens ?? 0;
+        summary.images += record.images ?? 0;
+        summary.audioSeconds += record.audioSeconds ?? 0;
+        summary.videoSeconds += record.videoSeconds ?? 0;
+    }
+    summary.cost = summary.inputTokens / 1_000_000 * prices.inputTokensPerMillion
+        + summary.outputTokens / 1_000_000 * prices.outputTokensPerMillion
+        + summary.images * prices.perImage
+        + summary.audioSeconds * prices.perAudioSecond
+        + summary.videoSeconds * prices.perVideoSecond;
+    return summary;
+}
+
+/**
+ * Checks the month's estimated spending against the budget before an expensive call.
+ * @param context The operation about to run, for the error, e.g. 'thumbnail and title generation'.
+ * @throws ApiError of kind 'budget' once the month's spending has reached the budget.
+ */
+export async function assertWithinBudget(context: string): Promise<void> {
+    const { monthlyBudget, prices } = settings;
+    if (monthlyBudget === null || !keepsHistory()) return;
+    await loadHistory();
+    const month = monthOf(Date.now());
+    const spent = summarizeUsage(history.filter(record => monthOf(record.createdAt) === month), prices).cost;
+    if (spent >= monthlyBudget) {
+        throw new ApiError('budget', `This month's estimated spending ($${spent.toFixed(2)}) has reached the budget of $${monthlyBudget.toFixed(2)}, so ${context} was blocked. Raise the budget in the Usage dashboard to continue.`);
+    }
+}
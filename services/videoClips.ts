@@ -0,0 +1,59 @@
+import type { VideoClip } from '../types';
+import type { VideoJobStatus } from './providers';
+import { STORES, getRecord, putRecord } from './db';
+import { base64ToBytes } from './encoding';
+import { checkSceneVideos } from './geminiService';
+
+const POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Stores a finished clip locally. Clips are kept out of project versions so saving a version stays cheap.
+ * @returns The id to reference the clip by.
+ */
+export async function saveVideoClip(videoB64: string, mimeType = 'video/mp4'): Promise<string> {
+    const clip: VideoClip = {
+        id: crypto.randomUUID(),
+        blob: new Blob([base64ToBytes(videoB64)], { type: mimeType }),
+        createdAt: Date.now(),
+    };
+    await putRecord(STORES.clips, clip);
+    return clip.id;
+}
+
+export const getVideoClip = (id: string): Promise<VideoClip | undefined> => getRecord<VideoClip>(STORES.clips, id);
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Polling was cancelled.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Polls video jobs until every one has finished or the signal is aborted. Aborting only stops polling;
+ * the jobs keep running on the provider and can be picked up again later with the same ids.
+ * @param operationIds The job ids to watch.
+ * @param onStatus Called with every status update, including the final one for each job.
+ * @param signal Stops polling when aborted.
+ */
+export async function pollVideoJobs(
+    operationIds: string[],
+    onStatus: (operationId: string, status: VideoJobStatus) => void | Promise<void>,
+    signal: AbortSignal,
+): Promise<void> {
+    let remaining = [...operationIds];
+    while (remaining.length > 0) {
+        const statuses = await checkSceneVideos(remaining);
+        if (signal.aborted) return;
+        await Promise.all(statuses.map((status, i) => onStatus(remaining[i], status)));
+        remaining = remaining.filter((_, i) => !statuses[i].done);
+        if (remaining.length > 0) {
+            await sleep(POLL_INTERVAL_MS, signal);
+        }
+    }
+}
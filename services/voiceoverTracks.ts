@@ -0,0 +1,38 @@
+import type { GeneratedResult, SpeechMode, VoiceoverTrack } from '../types';
+import { ENGLISH, getLanguage } from './languages';
+
+export interface SpokenTrack extends VoiceoverTrack {
+    language: string;
+}
+
+/**
+ * The language the main voiceover audio is spoken in. Results from before speech modes existed did not record it:
+ * back then languages the speech model cannot read were always voiced from an English translation.
+ */
+export function primaryAudioLanguage(result: GeneratedResult): string {
+    if (result.voiceoverAudioLanguage) return result.voiceoverAudioLanguage;
+    const voiceoverLanguage = result.voiceoverLanguage ?? ENGLISH;
+    return getLanguage(voiceoverLanguage).speakable ? voiceoverLanguage : ENGLISH;
+}
+
+/**
+ * Lists every spoken version of the voiceover, the main audio first.
+ */
+export function listVoiceoverAudioTracks(result: GeneratedResult): SpokenTrack[] {
+    if (!result.voiceoverAudio) return [];
+    return [
+        { language: primaryAudioLanguage(result), audio: result.voiceoverAudio, segments: result.voiceoverSegments },
+        ...Object.entries(result.voiceoverAudioTracks ?? {}).map(([language, track]) => ({ language, ...track })),
+    ];
+}
+
+/**
+ * Decides which languages to voice a script in, the main audio first.
+ * @param languageCode The language the voiceover script is written in.
+ * @param mode How to speak it, see SpeechMode.
+ */
+export function chooseSpokenLanguages(languageCode: string, mode: SpeechMode): string[] {
+    if (mode === 'native') return [languageCode];
+    if (mode === 'dual') return Array.from(new Set([languageCode, ENGLISH]));
+    return [getLanguage(languageCode).speakable ? languageCode : ENGLISH];
+}
@@ -0,0 +1,11 @@
+// Prebuilt voices of the speech model. The first entry is the default narrator.
+export const VOICES = [
+    { name: 'Pikaza (Mature Male)', id: 'Fenrir' },
+    { name: 'Zephyr', id: 'Zephyr' },
+    { name: 'Kore', id: 'Kore' },
+    { name: 'Puck', id: 'Puck' },
+    { name: 'Charon', id: 'Charon' },
+    { name: 'Aoede', id: 'Aoede' },
+    { name: 'Leda', id: 'Leda' },
+    { name: 'Orus', id: 'Orus' },
+];
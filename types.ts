@@ -1,6 +1,27 @@
+export interface ReferenceImage {
+  data: string; // base64
+  mimeType: string;
+}
+
 export interface CharacterProfile {
   name: string;
   appearance: string;
+  sheet?: string;
+  characterSheet?: CharacterSheet;
+  referenceImage?: ReferenceImage;
+}
+
+// One character's look, trait by trait, so single traits can be edited and reused in prompts.
+export interface CharacterSheet {
+  name: string;
+  age: string;
+  face: string;
+  hair: string;
+  skin: string;
+  attire: string;
+  accessories: string[];
+  palette: string[]; // the character's signature colors
+  negativeTraits: string[]; // what the character must never be shown with, e.g. "glasses"
 }
 
 export interface ScenePrompt {
@@ -8,21 +29,37 @@ export interface ScenePrompt {
   start_time_seconds: number;
   end_time_seconds: number;
   prompt: string;
+  narration?: string; // the part of the voiceover spoken over this scene, set once scenes are aligned to the audio
+}
+
+// A way a scene prompt breaks the rules the story prompt sets for it, see services/promptConsistency.
+export interface PromptIssue {
+  kind: 'style' | 'suffix' | 'missingTrait' | 'contradiction' | 'unnamedCharacter';
+  message: string;
+  character?: string; // the character the issue is about, if any
 }
 
 export interface GeneratedCharacter {
     name: string;
     description: string;
+    referenceImage?: ReferenceImage;
 }
 
 export interface GeneratedResult {
-  characterSheet: string;
-  storyScript?: string;
-  storyScriptRomanUrdu?: string;
+  characterSheet: string; // Markdown; rendered from characterSheets when those exist
+  characterSheets?: CharacterSheet[];
+  storyScript?: string; // always English
+  storyLanguage?: string; // language code the story was originally written in
+  storyScripts?: Record<string, string>; // the story in languages other than English, keyed by language code
   prompts?: ScenePrompt[];
   characters?: GeneratedCharacter[];
   voiceover?: string;
   voiceoverAudio?: string;
+  voiceoverLanguage?: string; // language code of voiceover; English when unset
+  voiceoverTranslations?: Record<string, string>; // keyed by language code; 'en' is what was synthesised when the voiceover language is not spoken natively
+  voiceoverSegments?: DialogueSegment[]; // set for dialogue voiceovers: who speaks when in voiceoverAudio
+  voiceoverAudioLanguage?: string; // language voiceoverAudio is spoken in, see services/voiceoverTracks for the default
+  voiceoverAudioTracks?: Record<string, VoiceoverTrack>; // further spoken versions keyed by language code, e.g. English beside Urdu
   thumbnail3d?: string; // base64 string
   thumbnailRealistic?: string; // base64 string
   titles?: string[];
@@ -30,4 +67,156 @@ export interface GeneratedResult {
   thumbnail3dPrompt?: string;
   thumbnailRealisticPrompt?: string;
   standaloneThumbnailPrompt?: string;
+  sceneFrames?: Record<number, string>; // base64 JPEG per scene_number
+  sceneVideos?: Record<number, SceneVideo>; // per scene_number; the clips themselves live in the local clip store
+  pipelineStamps?: Partial<Record<PipelineStepId, string>>; // fingerprint of what each pipeline step was made from, see services/pipeline
+}
+
+export interface LanguageSettings {
+  story: string; // language codes, see services/languages
+  voiceover: string;
+  prompts: string; // character sheets and scene prompts
+}
+
+export type VoiceoverMode = 'narration' | 'dialogue';
+
+// auto: speak natively when the speech model supports the language, otherwise an English translation.
+// native: always speak the script's own language. dual: the native track plus an English one.
+export type SpeechMode = 'auto' | 'native' | 'dual';
+
+export interface VoiceoverTrack {
+  audio: string; // base64 24 kHz PCM
+  segments?: DialogueSegment[];
+}
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+export interface DialogueSegment extends DialogueLine {
+  start: number; // seconds into voiceoverAudio
+  end: number;
+}
+
+export interface SceneFrameStatus {
+  state: 'queued' | 'generating' | 'done' | 'error';
+  error?: string;
+}
+
+// An AI rewrite of one scene's prompt that is in progress.
+export interface SceneTask {
+  sceneNumber: number;
+  action: 'repair' | 'regenerate';
+}
+
+// Persisted with the project so jobs still running on the provider can be resumed after a reload.
+export interface SceneVideo {
+  state: 'pending' | 'done' | 'error' | 'cancelled';
+  operationId?: string;
+  clipId?: string;
+  progress?: number;
+  error?: string;
+}
+
+export interface VideoClip {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+// The steps of the episode pipeline, in order; see services/pipeline.
+export type PipelineStepId = 'story' | 'voiceover' | 'enhance' | 'audio' | 'thumbnail';
+
+export type PipelineStepStatus = 'missing' | 'stale' | 'fresh';
+
+export type ProjectStep = 'story' | 'voiceover' | 'enhance' | 'audio' | 'thumbnail' | 'standaloneThumbnail' | 'storyboard' | 'referenceImage' | 'video' | 'nativeScript' | 'characterSheet' | 'sceneRepair' | 'sceneEdit' | 'restore';
+
+export interface ProjectInputs {
+  characterProfiles: CharacterProfile[];
+  storyScene: string;
+  storyTitle: string;
+  storyMode: 'detail' | 'fromTitle' | 'fromVoiceover';
+  storyLength: 'Short' | 'Medium' | 'Long';
+  videoLengthMinutes: number;
+  videoStyle: string;
+  selectedVoice: string;
+  voiceoverScriptInput: string;
+  editableVoiceoverScript: string;
+  libraryCharacterIds?: string[];
+  voiceoverMode?: VoiceoverMode;
+  voiceCasting?: Record<string, string>; // speaker name -> voice id, for dialogue voiceovers
+  languages?: LanguageSettings;
+  includeNativeScript?: boolean; // also write romanised stories and voiceovers (e.g. Roman Urdu) in the language's own script
+  speechMode?: SpeechMode;
+  pronunciationNotes?: string; // "word = how it sounds" per line, used when speaking a voiceover natively
+}
+
+// The steps the batch queue runs for every episode, in order.
+export type EpisodeStep = 'story' | 'voiceover' | 'audio' | 'thumbnail';
+
+export type EpisodeStepState = 'pending' | 'running' | 'done' | 'error';
+
+// One title in the batch queue. Its project is created by the story step and saved after every later step.
+export interface BatchEpisode {
+  id: string;
+  title: string;
+  videoStyle: string;
+  storyLength: 'Short' | 'Medium' | 'Long';
+  voice: string; // voice id, see services/voices
+  steps: Record<EpisodeStep, EpisodeStepState>;
+  projectId?: string;
+  error?: string;
+}
+
+export interface ProjectVersion {
+  id: string;
+  createdAt: number;
+  step: ProjectStep;
+  result: GeneratedResult;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  inputs: ProjectInputs;
+  result: GeneratedResult | null;
+  versions: ProjectVersion[];
+}
+
+export interface LibraryCharacter {
+  id: string;
+  name: string;
+  appearance: string;
+  sheet?: string; // the character's section of a generated character sheet
+  characterSheet?: CharacterSheet;
+  referenceImage?: ReferenceImage;
+  tags: string[];
+  source: 'manual' | 'generated';
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type UsageKind = 'text' | 'image' | 'speech' | 'video';
+
+// What one provider call used, as reported by the provider or counted from its output.
+export interface UsageAmounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  audioSeconds?: number;
+  videoSeconds?: number;
+}
+
+// One billable provider call, attributed to the project and step that was running when it finished.
+export interface UsageRecord extends UsageAmounts {
+  id: string;
+  createdAt: number;
+  operation: string; // e.g. 'title generation'
+  kind: UsageKind;
+  projectId?: string;
+  projectName?: string;
+  step?: ProjectStep; // unset for calls made outside any project step
 }